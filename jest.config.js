@@ -4,4 +4,6 @@ module.exports = {
   transform: {
     "^.+\.tsx?$": ["ts-jest",{}],
   },
-};
\ No newline at end of file
+  // Resolve sources before the stale compiled .js files next to them
+  moduleFileExtensions: ["ts", "tsx", "js", "json"],
+};
@@ -0,0 +1,88 @@
+/**
+ * Annotation positioning shared by the Chart.js and server-side renderers
+ */
+
+import { ChartAnnotation, ChartAxisValue, ChartConfig, ChartType } from '../types';
+
+/** Default color of line annotations and their labels */
+export const ANNOTATION_LINE_COLOR = 'rgb(255, 99, 132)';
+
+/** Default fill of box annotations */
+export const ANNOTATION_BOX_COLOR = 'rgba(255, 205, 86, 0.25)';
+
+/** Default color of label annotations and box labels */
+export const ANNOTATION_TEXT_COLOR = '#666666';
+
+/** Chart types without x and y axes, which annotations are not drawn on */
+const UNSUPPORTED_TYPES: ChartType[] = ['pie', 'doughnut', 'polarArea', 'radar'];
+
+/** Chart types with linear x and y axes */
+const POINT_TYPES: ChartType[] = ['scatter', 'bubble'];
+
+/**
+ * How values on an axis are resolved
+ */
+export type AnnotationAxisKind = 'category' | 'time' | 'linear';
+
+/**
+ * Get how annotation values resolve on each axis of a chart
+ * @param config Chart configuration
+ * @returns Axis kinds, or null when the chart has no x and y axes
+ */
+export function getAnnotationAxes(config: ChartConfig): Record<'x' | 'y', AnnotationAxisKind> | null {
+  if (UNSUPPORTED_TYPES.includes(config.type)) return null;
+  if (POINT_TYPES.includes(config.type)) return { x: 'linear', y: 'linear' };
+  if (config.options?.scales?.x?.type === 'time') return { x: 'time', y: 'linear' };
+  if (config.options?.indexAxis === 'y') return { x: 'linear', y: 'category' };
+  return { x: 'category', y: 'linear' };
+}
+
+/**
+ * Resolve an annotation value to a number on its axis
+ * @param value Axis value
+ * @param kind Axis kind
+ * @param labels Category labels
+ * @returns Category index, timestamp or number; null when the value is not on the axis
+ */
+export function resolveAxisValue(value: ChartAxisValue, kind: AnnotationAxisKind, labels: string[] = []): number | null {
+  let resolved: number;
+
+  if (value instanceof Date) {
+    resolved = kind === 'category' ? NaN : value.getTime();
+  } else if (typeof value === 'number') {
+    resolved = value;
+  } else if (kind === 'category') {
+    resolved = labels.indexOf(value);
+    if (resolved < 0) return null;
+  } else {
+    resolved = kind === 'time' ? Date.parse(value) : parseFloat(value);
+  }
+
+  return isFinite(resolved) ? resolved : null;
+}
+
+/**
+ * Get every annotation value on a numeric axis, so the axis range can include them
+ * @param annotations Annotations
+ * @param axis Axis
+ * @param kind Axis kind
+ * @returns Resolved values
+ */
+export function getAnnotationValues(annotations: ChartAnnotation[], axis: 'x' | 'y', kind: AnnotationAxisKind): number[] {
+  if (kind === 'category') return [];
+
+  return annotations
+    .flatMap(annotation => {
+      switch (annotation.type) {
+        case 'line':
+          return annotation.axis === axis ? [annotation.value] : [];
+        case 'box':
+          return axis === 'x' ? [annotation.xMin, annotation.xMax] : [annotation.yMin, annotation.yMax];
+        case 'label':
+          return [annotation[axis]];
+      }
+    })
+    .filter((value): value is ChartAxisValue => value !== undefined)
+    .map(value => resolveAxisValue(value, kind))
+    .filter((value): value is number => value !== null);
+}
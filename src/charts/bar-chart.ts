@@ -2,7 +2,9 @@
  * Bar chart component for financial reports
  */
 
-import { ChartConfig, ChartOptions } from '../types';
+import { ChartConfig, ChartOptions, ChartRange, WaterfallChartOptions } from '../types';
+import { parseColor, toHexColor } from '../utils/color';
+import { PALETTE, getSeriesColor, getSeriesColors, withAlpha } from './palette';
 
 /**
  * Generate a bar chart configuration
@@ -45,8 +47,8 @@ function createSingleDatasetBarChart(
         {
           label: options.title?.text || 'Data',
           data,
-          backgroundColor: getDefaultColors(1)[0],
-          borderColor: getDefaultBorderColors(1)[0],
+          backgroundColor: getSeriesColor(0, 0.6),
+          borderColor: getSeriesColor(0),
           borderWidth: 1
         }
       ]
@@ -87,8 +89,8 @@ function createMultiDatasetBarChart(
   options: Partial<ChartOptions> = {}
 ): ChartConfig {
   // Generate colors for datasets
-  const colors = getDefaultColors(data.length);
-  const borderColors = getDefaultBorderColors(data.length);
+  const colors = getSeriesColors(data.length, 0.6);
+  const borderColors = getSeriesColors(data.length);
   
   // Create datasets
   const datasets = data.map((dataSet, index) => ({
@@ -143,8 +145,8 @@ export function createStackedBarChart(
   options: Partial<ChartOptions> = {}
 ): ChartConfig {
   // Generate colors for datasets
-  const colors = getDefaultColors(data.length);
-  const borderColors = getDefaultBorderColors(data.length);
+  const colors = getSeriesColors(data.length, 0.6);
+  const borderColors = getSeriesColors(data.length);
   
   // Create datasets
   const datasets = data.map((dataSet, index) => ({
@@ -223,61 +225,93 @@ export function createHorizontalBarChart(
     config.options.scales.x = config.options.scales.y;
     config.options.scales.y = temp;
     
-    // Set horizontal indexAxis using type assertion
-    (config.options as any).indexAxis = 'y';
+    // Put the categories on the y axis
+    config.options.indexAxis = 'y';
   }
   
   return config;
 }
 
 /**
- * Get default colors for chart datasets
- * @param count Number of colors needed
- * @returns Array of colors
+ * Create a waterfall chart, e.g. a bridge from revenue to net income.
+ * Each delta floats from the running total before it to the running total after it.
+ * @param labels Chart labels
+ * @param deltas Change for each label
+ * @param options Chart options, subtotal markers and bar colors
+ * @returns Waterfall chart configuration
  */
-function getDefaultColors(count: number): string[] {
-  const baseColors = [
-    'rgba(75, 192, 192, 0.6)',   // Teal
-    'rgba(54, 162, 235, 0.6)',   // Blue
-    'rgba(153, 102, 255, 0.6)',  // Purple
-    'rgba(255, 159, 64, 0.6)',   // Orange
-    'rgba(255, 99, 132, 0.6)',   // Red
-    'rgba(255, 205, 86, 0.6)',   // Yellow
-    'rgba(201, 203, 207, 0.6)',  // Grey
-    'rgba(94, 232, 129, 0.6)',   // Green
-  ];
+export function createWaterfallChart(
+  labels: string[],
+  deltas: number[],
+  options: WaterfallChartOptions = {}
+): ChartConfig {
+  const { subtotals = [], totalLabel, colors = {}, ...chartOptions } = options;
+  const increase = colors.increase || withAlpha(PALETTE.green, 0.6);
+  const decrease = colors.decrease || withAlpha(PALETTE.red, 0.6);
+  const total = colors.total || withAlpha(PALETTE.blue, 0.6);
   
-  // If we need more colors than are available, cycle through them
-  const colors: string[] = [];
-  for (let i = 0; i < count; i++) {
-    colors.push(baseColors[i % baseColors.length]);
-  }
+  const ranges: ChartRange[] = [];
+  const backgroundColors: string[] = [];
+  let runningTotal = 0;
   
-  return colors;
-}
-
-/**
- * Get default border colors for chart datasets
- * @param count Number of colors needed
- * @returns Array of border colors
- */
-function getDefaultBorderColors(count: number): string[] {
-  const baseBorderColors = [
-    'rgb(75, 192, 192)',   // Teal
-    'rgb(54, 162, 235)',   // Blue
-    'rgb(153, 102, 255)',  // Purple
-    'rgb(255, 159, 64)',   // Orange
-    'rgb(255, 99, 132)',   // Red
-    'rgb(255, 205, 86)',   // Yellow
-    'rgb(201, 203, 207)',  // Grey
-    'rgb(94, 232, 129)',   // Green
-  ];
+  deltas.forEach((delta, index) => {
+    const start = runningTotal;
+    runningTotal += delta;
+    
+    // Subtotals stand on the axis; changes float between running totals
+    if (subtotals.includes(index)) {
+      ranges.push([0, runningTotal]);
+      backgroundColors.push(total);
+    } else {
+      ranges.push([start, runningTotal]);
+      backgroundColors.push(delta < 0 ? decrease : increase);
+    }
+  });
   
-  // If we need more colors than are available, cycle through them
-  const borderColors: string[] = [];
-  for (let i = 0; i < count; i++) {
-    borderColors.push(baseBorderColors[i % baseBorderColors.length]);
+  const chartLabels = labels.slice(0, deltas.length);
+  if (totalLabel) {
+    chartLabels.push(totalLabel);
+    ranges.push([0, runningTotal]);
+    backgroundColors.push(total);
   }
   
-  return borderColors;
+  return {
+    type: 'bar',
+    data: {
+      labels: chartLabels,
+      datasets: [
+        {
+          label: chartOptions.title?.text || 'Change',
+          data: ranges,
+          backgroundColor: backgroundColors,
+          borderColor: backgroundColors.map(color => toHexColor(parseColor(color))),
+          borderWidth: 1
+        }
+      ]
+    },
+    options: {
+      responsive: true,
+      maintainAspectRatio: false,
+      // Bar colors carry the meaning, so a single legend entry adds nothing
+      legend: {
+        display: false
+      },
+      scales: {
+        y: {
+          beginAtZero: true,
+          title: {
+            display: true,
+            text: ''
+          }
+        },
+        x: {
+          title: {
+            display: true,
+            text: ''
+          }
+        }
+      },
+      ...chartOptions
+    }
+  };
 } 
\ No newline at end of file
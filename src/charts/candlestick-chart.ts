@@ -0,0 +1,87 @@
+/**
+ * Candlestick and OHLC chart component for financial reports
+ */
+
+import { CandlestickChartOptions, ChartConfig, ChartDataset, OhlcRecord } from '../types';
+import { formatDate } from '../utils/date';
+import { PALETTE, withAlpha } from './palette';
+
+/**
+ * Generate a candlestick chart configuration, with the volume below the prices
+ * when the records have one
+ * @param records Price records in date order
+ * @param options Chart options, style and colors
+ * @returns Candlestick chart configuration
+ */
+export function createCandlestickChart(
+  records: OhlcRecord[],
+  options: CandlestickChartOptions = {}
+): ChartConfig {
+  const { style = 'candlestick', label = 'Price', dateFormat, volume = true, colors = {}, ...chartOptions } = options;
+  const up = colors.up || 'rgb(38, 166, 91)';
+  const down = colors.down || 'rgb(220, 53, 69)';
+  const periodColors = records.map(record => (record.close >= record.open ? up : down));
+  
+  const datasets: ChartDataset[] = [
+    {
+      label,
+      data: records.map(record => ({ o: record.open, h: record.high, l: record.low, c: record.close })),
+      backgroundColor: periodColors,
+      borderColor: periodColors,
+      borderWidth: 1
+    }
+  ];
+  
+  // Volume as a bar series on its own axis
+  if (volume && records.some(record => record.volume !== undefined)) {
+    datasets.push({
+      label: 'Volume',
+      type: 'bar',
+      data: records.map(record => record.volume ?? NaN),
+      backgroundColor: colors.volume || withAlpha(PALETTE.grey, 0.6),
+      borderColor: colors.volume || PALETTE.grey,
+      borderWidth: 0,
+      yAxisID: 'volume'
+    });
+  }
+  
+  return {
+    type: style,
+    data: {
+      labels: records.map(record => formatDate(record.date, dateFormat)),
+      datasets
+    },
+    options: {
+      responsive: true,
+      maintainAspectRatio: false,
+      scales: {
+        y: {
+          title: {
+            display: true,
+            text: ''
+          }
+        },
+        x: {
+          title: {
+            display: true,
+            text: ''
+          }
+        }
+      },
+      ...chartOptions
+    }
+  };
+}
+
+/**
+ * Generate an OHLC chart configuration: a bar per period with ticks for the open and close
+ * @param records Price records in date order
+ * @param options Chart options and colors
+ * @returns OHLC chart configuration
+ */
+export function createOhlcChart(
+  records: OhlcRecord[],
+  options: Omit<CandlestickChartOptions, 'style'> = {}
+): ChartConfig {
+  return createCandlestickChart(records, { ...options, style: 'ohlc' });
+}
@@ -2,7 +2,13 @@
  * Chart factory for generating different types of charts
  */
 
-import { ChartConfig, ChartType } from '../types';
+import { ChartConfig, ChartType, ChartValueAxisOptions } from '../types';
+
+/** Chart types without secondary value axes */
+const RADIAL_TYPES: ChartType[] = ['pie', 'doughnut', 'polarArea', 'radar'];
+
+/** Dataset types that can be plotted against a secondary value axis */
+const SECONDARY_AXIS_TYPES: ChartType[] = ['bar', 'line'];
 
 /**
  * Generate charts based on configuration
@@ -28,11 +34,63 @@ export function generateCharts(config: ChartConfig) {
       return generateScatterChart(config);
     case 'bubble':
       return generateBubbleChart(config);
+    case 'candlestick':
+    case 'ohlc':
+      return generateFinancialChart(config);
     default:
       throw new Error(`Unsupported chart type: ${config.type}`);
   }
 }
 
+/**
+ * Check that every dataset is plotted against a value axis it can use
+ * @param config Chart configuration
+ * @param label Label used in error messages
+ */
+export function validateChartAxes(config: ChartConfig, label: string = 'Chart') {
+  const scales = config.options?.scales || {};
+  const isFinancial = config.type === 'candlestick' || config.type === 'ohlc';
+
+  Object.entries(scales).forEach(([axisId, scale]) => {
+    const position = (scale as ChartValueAxisOptions | undefined)?.position;
+    if (axisId !== 'x' && position !== undefined && position !== 'left' && position !== 'right') {
+      throw new Error(`${label} axis "${axisId}" must be positioned left or right`);
+    }
+  });
+
+  config.data.datasets.forEach((dataset, index) => {
+    const axisId = dataset.yAxisID;
+    if (axisId === undefined || axisId === 'y' || (isFinancial && axisId === 'volume')) return;
+
+    const datasetLabel = `${label} dataset ${index + 1} (${dataset.label})`;
+    const type = dataset.type || config.type;
+
+    if (RADIAL_TYPES.includes(config.type)) {
+      throw new Error(`${datasetLabel} cannot use axis "${axisId}": ${config.type} charts have no secondary axes`);
+    }
+
+    if (axisId === 'x') {
+      throw new Error(`${datasetLabel} cannot be plotted against the x axis`);
+    }
+
+    if (!scales[axisId]) {
+      throw new Error(`${datasetLabel} uses axis "${axisId}", which is not defined in options.scales`);
+    }
+
+    if (config.options?.indexAxis === 'y' || scales.x?.type === 'time') {
+      throw new Error(`${datasetLabel} cannot use axis "${axisId}": secondary axes need a vertical chart with category labels`);
+    }
+
+    if (!SECONDARY_AXIS_TYPES.includes(type)) {
+      throw new Error(`${datasetLabel} is a ${type} dataset, which can only be plotted against the y axis`);
+    }
+
+    if (dataset.data.some(value => typeof value !== 'number')) {
+      throw new Error(`${datasetLabel} must have numeric values to be plotted against axis "${axisId}"`);
+    }
+  });
+}
+
 /**
  * Generate a bar chart
  * @param config Chart configuration
@@ -169,6 +227,23 @@ function generateBubbleChart(config: ChartConfig) {
   };
 }
 
+/**
+ * Generate a candlestick or OHLC chart
+ * @param config Chart configuration
+ * @returns Financial chart data
+ */
+function generateFinancialChart(config: ChartConfig) {
+  return {
+    type: config.type,
+    data: config.data,
+    options: {
+      ...defaultFinancialChartOptions,
+      ...config.options,
+    },
+    dimensions: config.dimensions || { width: '100%', height: '400px' },
+  };
+}
+
 // Default chart options
 
 const defaultBarChartOptions = {
@@ -226,4 +301,9 @@ const defaultBubbleChartOptions = {
       position: 'bottom',
     },
   },
-}; 
\ No newline at end of file
+};
+
+const defaultFinancialChartOptions = {
+  responsive: true,
+  maintainAspectRatio: false,
+};
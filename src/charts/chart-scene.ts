@@ -0,0 +1,1580 @@
+/**
+ * Headless chart layout for server-side rendering
+ *
+ * Turns a ChartConfig into a flat list of drawing primitives that the
+ * PDF and SVG renderers can draw without a DOM or canvas.
+ */
+
+import { ChartAxisValue, ChartConfig, ChartDataset, ChartOhlc, ChartPoint, ChartRange, ChartType, ChartValueAxisOptions } from '../types';
+import { formatNumber } from '../utils/currency';
+import {
+  ANNOTATION_BOX_COLOR,
+  ANNOTATION_LINE_COLOR,
+  ANNOTATION_TEXT_COLOR,
+  getAnnotationAxes,
+  getAnnotationValues,
+  resolveAxisValue
+} from './annotations';
+import { getSeriesColor, withAlpha } from './palette';
+import { formatTimeTick, getTimeTicks, getTimeUnit } from './time-scale';
+import { MIN_LABEL_SHARE, createTickFormatter, createValueFormatter, formatShare, getTickDecimals } from './value-format';
+
+/** Default scene width when dimensions are missing or relative */
+const DEFAULT_WIDTH = 800;
+
+/** Default scene height when dimensions are missing or relative */
+const DEFAULT_HEIGHT = 400;
+
+/** Outer padding around the chart */
+const PADDING = 12;
+
+/** Base font size for labels */
+const FONT_SIZE = 12;
+
+/** Font size for the chart title */
+const TITLE_FONT_SIZE = 16;
+
+/** Text color for labels */
+const LABEL_COLOR = '#666666';
+
+/** Color for grid lines */
+const GRID_COLOR = 'rgba(0, 0, 0, 0.1)';
+
+/** Chart types drawn around a centre point */
+const RADIAL_TYPES: ChartType[] = ['pie', 'doughnut', 'polarArea'];
+
+/** Chart types plotting x/y points on two value axes */
+const POINT_TYPES: ChartType[] = ['scatter', 'bubble'];
+
+/** Chart types plotting open, high, low and close prices per label */
+const FINANCIAL_TYPES: ChartType[] = ['candlestick', 'ohlc'];
+
+/** Share of a financial chart's plot height used by the volume panel */
+const VOLUME_SHARE = 0.25;
+
+/** Colors of periods closing up and down when datasets have none */
+const UP_COLOR = 'rgb(38, 166, 91)';
+const DOWN_COLOR = 'rgb(220, 53, 69)';
+
+/** Milliseconds per day */
+const DAY = 86400000;
+
+/** Smallest spacing between line points for them to be marked (px) */
+const MIN_POINT_SPACING = 8;
+
+/** Font size of data labels */
+const DATA_LABEL_SIZE = FONT_SIZE * 0.85;
+
+/** Opacity of fills that default to a palette color */
+const FILL_OPACITY = 0.25;
+
+/**
+ * Text anchor
+ */
+export type SceneTextAlign = 'left' | 'center' | 'right';
+
+/**
+ * Text vertical alignment
+ */
+export type SceneTextBaseline = 'top' | 'middle' | 'bottom';
+
+/**
+ * Drawing primitive. Coordinates use a top-left origin with Y pointing down.
+ */
+export type SceneElement =
+  | { kind: 'rect'; x: number; y: number; width: number; height: number; fill?: string; stroke?: string; strokeWidth?: number }
+  | { kind: 'line'; x1: number; y1: number; x2: number; y2: number; stroke: string; strokeWidth: number; dash?: number[] }
+  | { kind: 'polyline'; points: [number, number][]; closed: boolean; fill?: string; stroke?: string; strokeWidth?: number }
+  | { kind: 'circle'; cx: number; cy: number; r: number; fill?: string; stroke?: string; strokeWidth?: number }
+  | {
+      kind: 'sector';
+      cx: number;
+      cy: number;
+      innerRadius: number;
+      outerRadius: number;
+      /** Start angle in radians, clockwise from 3 o'clock */
+      startAngle: number;
+      /** End angle in radians, clockwise from 3 o'clock */
+      endAngle: number;
+      fill?: string;
+      stroke?: string;
+      strokeWidth?: number;
+    }
+  | {
+      kind: 'text';
+      x: number;
+      y: number;
+      text: string;
+      fontSize: number;
+      color: string;
+      align: SceneTextAlign;
+      baseline: SceneTextBaseline;
+      bold?: boolean;
+      /** Rotation in degrees, counter-clockwise */
+      rotation?: number;
+    };
+
+/**
+ * Laid out chart ready to be drawn
+ */
+export interface ChartScene {
+  /** Scene width in px */
+  width: number;
+  /** Scene height in px */
+  height: number;
+  /** Drawing primitives in paint order */
+  elements: SceneElement[];
+}
+
+/**
+ * Rectangle used while laying out the chart
+ */
+interface Area {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+/**
+ * Position of a data label relative to its anchor
+ */
+type DataLabelPlacement = 'above' | 'below' | 'left' | 'right' | 'center';
+
+/**
+ * Legend entry
+ */
+interface LegendItem {
+  label: string;
+  fill: string;
+  stroke: string;
+}
+
+/**
+ * Value axis of a bar and line plot
+ */
+interface ValueAxis {
+  /** Scale ID */
+  id: string;
+  /** Side of the plot the ticks are drawn on */
+  side: 'left' | 'right';
+  title: string;
+  showGrid: boolean;
+  ticks: number[];
+  tickLabels: string[];
+  min: number;
+  max: number;
+  /** Data label formatter, or null when data labels are hidden */
+  formatLabel: ((value: number) => string) | null;
+  /** Space taken by the ticks and title */
+  width: number;
+  /** Distance from the plot to the ticks, past the axes drawn closer on the same side */
+  offset: number;
+}
+
+/**
+ * Build a drawable scene from a chart configuration
+ * @param config Chart configuration
+ * @returns Chart scene
+ */
+export function buildChartScene(config: ChartConfig): ChartScene {
+  const width = resolveDimension(config.dimensions?.width, DEFAULT_WIDTH);
+  const height = resolveDimension(config.dimensions?.height, DEFAULT_HEIGHT);
+  const elements: SceneElement[] = [];
+  const area: Area = { left: PADDING, top: PADDING, right: width - PADDING, bottom: height - PADDING };
+
+  addTitle(config, area, elements);
+  addLegend(config, area, elements);
+
+  if (RADIAL_TYPES.includes(config.type)) {
+    addRadialPlot(config, area, elements);
+  } else if (config.type === 'radar') {
+    addRadarPlot(config, area, elements);
+  } else if (POINT_TYPES.includes(config.type)) {
+    addPointPlot(config, area, elements);
+  } else if (FINANCIAL_TYPES.includes(config.type)) {
+    addFinancialPlot(config, area, elements);
+  } else if (config.options?.scales?.x?.type === 'time') {
+    addTimePlot(config, area, elements);
+  } else {
+    addCartesianPlot(config, area, elements);
+  }
+
+  return { width, height, elements };
+}
+
+/**
+ * Resolve a chart dimension to pixels
+ * @param value Dimension (number of px, '400px' or a relative value)
+ * @param fallback Value used for relative or missing dimensions
+ * @returns Size in px
+ */
+function resolveDimension(value: number | string | undefined, fallback: number): number {
+  if (typeof value === 'number' && value > 0) return value;
+  if (typeof value === 'string' && /^\d+(\.\d+)?(px)?$/.test(value.trim())) {
+    return parseFloat(value);
+  }
+  return fallback;
+}
+
+/**
+ * Add the chart title and reserve its space
+ * @param config Chart configuration
+ * @param area Remaining drawing area (updated)
+ * @param elements Scene elements
+ */
+function addTitle(config: ChartConfig, area: Area, elements: SceneElement[]): void {
+  const title = config.options?.title;
+  if (!title?.display || !title.text) return;
+
+  const atBottom = title.position === 'bottom';
+  const lineHeight = TITLE_FONT_SIZE * 1.5;
+
+  elements.push({
+    kind: 'text',
+    x: (area.left + area.right) / 2,
+    y: atBottom ? area.bottom : area.top,
+    text: title.text,
+    fontSize: TITLE_FONT_SIZE,
+    color: '#333333',
+    align: 'center',
+    baseline: atBottom ? 'bottom' : 'top',
+    bold: true
+  });
+
+  if (atBottom) {
+    area.bottom -= lineHeight;
+  } else {
+    area.top += lineHeight;
+  }
+}
+
+/**
+ * Add the legend and reserve its space
+ * @param config Chart configuration
+ * @param area Remaining drawing area (updated)
+ * @param elements Scene elements
+ */
+function addLegend(config: ChartConfig, area: Area, elements: SceneElement[]): void {
+  const legend = config.options?.legend;
+  if (legend?.display === false) return;
+
+  const items = getLegendItems(config);
+  if (items.length === 0) return;
+
+  const position = legend?.position || 'top';
+  const box = FONT_SIZE;
+  const rowHeight = FONT_SIZE * 1.6;
+  const itemWidths = items.map(item => box + 6 + estimateTextWidth(item.label, FONT_SIZE) + 12);
+
+  if (position === 'left' || position === 'right') {
+    const columnWidth = Math.min(Math.max(...itemWidths), (area.right - area.left) / 3);
+    const x = position === 'left' ? area.left : area.right - columnWidth;
+    let y = area.top + (area.bottom - area.top - items.length * rowHeight) / 2;
+
+    items.forEach(item => {
+      addLegendItem(elements, item, x, y, box);
+      y += rowHeight;
+    });
+
+    if (position === 'left') {
+      area.left += columnWidth + 8;
+    } else {
+      area.right -= columnWidth + 8;
+    }
+    return;
+  }
+
+  // Wrap items into centred rows
+  const maxWidth = area.right - area.left;
+  const rows: { items: LegendItem[]; width: number }[] = [];
+  items.forEach((item, index) => {
+    const current = rows[rows.length - 1];
+    if (!current || current.width + itemWidths[index] > maxWidth) {
+      rows.push({ items: [item], width: itemWidths[index] });
+    } else {
+      current.items.push(item);
+      current.width += itemWidths[index];
+    }
+  });
+
+  const legendHeight = rows.length * rowHeight;
+  let y = position === 'bottom' ? area.bottom - legendHeight : area.top;
+
+  rows.forEach(row => {
+    let x = (area.left + area.right - row.width) / 2;
+    row.items.forEach(item => {
+      addLegendItem(elements, item, x, y, box);
+      x += box + 6 + estimateTextWidth(item.label, FONT_SIZE) + 12;
+    });
+    y += rowHeight;
+  });
+
+  if (position === 'bottom') {
+    area.bottom -= legendHeight + 6;
+  } else {
+    area.top += legendHeight + 6;
+  }
+}
+
+/**
+ * Add a single legend entry
+ * @param elements Scene elements
+ * @param item Legend item
+ * @param x Left position
+ * @param y Top position
+ * @param box Size of the color box
+ */
+function addLegendItem(elements: SceneElement[], item: LegendItem, x: number, y: number, box: number): void {
+  elements.push({ kind: 'rect', x, y, width: box, height: box, fill: item.fill, stroke: item.stroke, strokeWidth: 1 });
+  elements.push({
+    kind: 'text',
+    x: x + box + 6,
+    y: y + box / 2,
+    text: item.label,
+    fontSize: FONT_SIZE,
+    color: LABEL_COLOR,
+    align: 'left',
+    baseline: 'middle'
+  });
+}
+
+/**
+ * Get the legend entries for a chart
+ * @param config Chart configuration
+ * @returns Legend items
+ */
+function getLegendItems(config: ChartConfig): LegendItem[] {
+  // Radial charts label each slice of the first dataset
+  if (RADIAL_TYPES.includes(config.type)) {
+    const dataset = config.data.datasets[0];
+    if (!dataset) return [];
+
+    return config.data.labels.map((label, index) => ({
+      label,
+      fill: pickColor(dataset.backgroundColor, index, getSeriesColor(index)),
+      stroke: pickColor(dataset.borderColor, index, '#ffffff')
+    }));
+  }
+
+  return config.data.datasets.map((dataset, index) => {
+    const fallback = getSeriesColor(index);
+    return {
+      label: dataset.label,
+      fill: pickColor(dataset.backgroundColor, 0, fallback),
+      stroke: pickColor(dataset.borderColor, 0, fallback)
+    };
+  });
+}
+
+/**
+ * Add bar and line datasets on category and value axes
+ * @param config Chart configuration
+ * @param area Plot area including axes
+ * @param elements Scene elements
+ */
+function addCartesianPlot(config: ChartConfig, area: Area, elements: SceneElement[]): void {
+  const options = config.options || {};
+  const scales = options.scales || {};
+  const horizontal = options.indexAxis === 'y';
+  const stacked = Boolean((scales.x as any)?.stacked || (scales.y as any)?.stacked);
+  const labels = config.data.labels;
+  const datasets = config.data.datasets;
+  const categoryScale = horizontal ? scales.y : scales.x;
+  const hasBars = datasets.some(dataset => getDatasetType(config, dataset) === 'bar');
+
+  // Work out the range and ticks of each value axis, with annotations on the primary one
+  const titleSpace = FONT_SIZE * 1.6;
+  const axes = getValueAxes(config, horizontal, stacked, (area.right - area.left) / 3, titleSpace);
+  const primary = axes[0];
+  const getAxis = (dataset: ChartDataset) => axes.find(axis => axis.id === getValueAxisId(config, dataset)) || primary;
+  const dataLabels: SceneElement[] = [];
+
+  // Reserve space for axis titles and tick labels
+  const categoryTitle = getScaleTitle(categoryScale);
+  const leftLabelWidth = Math.max(0, ...labels.map(label => estimateTextWidth(label, FONT_SIZE)));
+  const sideWidth = (side: ValueAxis['side']) => axes
+    .filter(axis => axis.side === side)
+    .reduce((width, axis) => Math.max(width, axis.offset + axis.width), 0);
+
+  const plot: Area = {
+    left: area.left + (horizontal
+      ? (categoryTitle ? titleSpace : 0) + Math.min(leftLabelWidth, (area.right - area.left) / 3) + 8
+      : sideWidth('left') || 4),
+    top: area.top + FONT_SIZE / 2,
+    right: area.right - (horizontal ? 4 : sideWidth('right') || 4),
+    bottom: area.bottom - ((horizontal ? primary.title : categoryTitle) ? titleSpace : 0) - FONT_SIZE * 1.6
+  };
+  const plotWidth = Math.max(plot.right - plot.left, 1);
+  const plotHeight = Math.max(plot.bottom - plot.top, 1);
+  const categoryLength = horizontal ? plotHeight : plotWidth;
+  const valueLength = horizontal ? plotWidth : plotHeight;
+
+  // Position helpers
+  const band = categoryLength / Math.max(labels.length, 1);
+  const offset = hasBars || labels.length <= 1;
+  const categoryPosition = (index: number) => {
+    const distance = offset
+      ? band * (index + 0.5)
+      : (categoryLength / Math.max(labels.length - 1, 1)) * index;
+    return horizontal ? plot.top + distance : plot.left + distance;
+  };
+  const valuePosition = (value: number, axis: ValueAxis = primary) => {
+    const ratio = axis.max === axis.min ? 0 : (value - axis.min) / (axis.max - axis.min);
+    return horizontal ? plot.left + ratio * valueLength : plot.bottom - ratio * valueLength;
+  };
+  const zeroPosition = (axis: ValueAxis) => valuePosition(Math.min(Math.max(0, axis.min), axis.max), axis);
+
+  // Boxes behind the grid, since the PDF renderer flattens translucent fills
+  const xPosition = horizontal ? valuePosition : categoryPosition;
+  const yPosition = horizontal ? categoryPosition : valuePosition;
+  addAnnotations(config, plot, xPosition, yPosition, 'below', elements);
+
+  // Grid lines and value ticks, with the ticks of each value axis stacked outwards from the plot
+  axes.forEach(axis => {
+    const tickX = axis.side === 'left' ? plot.left - axis.offset - 6 : plot.right + axis.offset + 6;
+
+    axis.ticks.forEach((tick, index) => {
+      const position = valuePosition(tick, axis);
+      if (axis.showGrid) {
+        elements.push(horizontal
+          ? { kind: 'line', x1: position, y1: plot.top, x2: position, y2: plot.bottom, stroke: GRID_COLOR, strokeWidth: 1 }
+          : { kind: 'line', x1: plot.left, y1: position, x2: plot.right, y2: position, stroke: GRID_COLOR, strokeWidth: 1 });
+      }
+      elements.push(horizontal
+        ? { kind: 'text', x: position, y: plot.bottom + 4, text: axis.tickLabels[index], fontSize: FONT_SIZE, color: LABEL_COLOR, align: 'center', baseline: 'top' }
+        : { kind: 'text', x: tickX, y: position, text: axis.tickLabels[index], fontSize: FONT_SIZE, color: LABEL_COLOR, align: axis.side === 'left' ? 'right' : 'left', baseline: 'middle' });
+    });
+  });
+
+  // Category labels, skipping some when they would overlap
+  const labelSpace = horizontal ? FONT_SIZE * 1.2 : Math.max(...labels.map(label => estimateTextWidth(label, FONT_SIZE)), 1) + 6;
+  const spacing = offset ? band : categoryLength / Math.max(labels.length - 1, 1);
+  const skip = Math.max(1, Math.ceil(labelSpace / Math.max(spacing, 1)));
+  labels.forEach((label, index) => {
+    if (index % skip !== 0) return;
+    const position = categoryPosition(index);
+    elements.push(horizontal
+      ? { kind: 'text', x: plot.left - 6, y: position, text: label, fontSize: FONT_SIZE, color: LABEL_COLOR, align: 'right', baseline: 'middle' }
+      : { kind: 'text', x: position, y: plot.bottom + 4, text: label, fontSize: FONT_SIZE, color: LABEL_COLOR, align: 'center', baseline: 'top' });
+  });
+
+  // Axis titles, reading upwards on the left and downwards on the right
+  addAxisTitles(elements, area, plot, horizontal ? primary.title : categoryTitle, horizontal ? categoryTitle : '');
+  if (!horizontal) {
+    axes.forEach(axis => {
+      if (!axis.title) return;
+      const left = axis.side === 'left';
+      const x = left ? plot.left - axis.offset - axis.width : plot.right + axis.offset + axis.width;
+      elements.push({ kind: 'text', x, y: (plot.top + plot.bottom) / 2, text: axis.title, fontSize: FONT_SIZE, color: LABEL_COLOR, align: 'center', baseline: 'top', bold: true, rotation: left ? 90 : -90 });
+    });
+  }
+
+  // Axis lines
+  const zero = zeroPosition(primary);
+  elements.push(horizontal
+    ? { kind: 'line', x1: zero, y1: plot.top, x2: zero, y2: plot.bottom, stroke: '#999999', strokeWidth: 1 }
+    : { kind: 'line', x1: plot.left, y1: zero, x2: plot.right, y2: zero, stroke: '#999999', strokeWidth: 1 });
+
+  // Bars first so lines are drawn on top; each value axis stacks its own bars
+  const barDatasets = datasets.filter(dataset => getDatasetType(config, dataset) === 'bar');
+  const groupSize = band * 0.8;
+  const barSize = stacked ? groupSize : groupSize / Math.max(barDatasets.length, 1);
+  const stacks: Record<string, { positive: number[]; negative: number[] }> = {};
+
+  barDatasets.forEach((dataset, barIndex) => {
+    const datasetIndex = datasets.indexOf(dataset);
+    const fallback = getSeriesColor(datasetIndex);
+    const axis = getAxis(dataset);
+    const axisStacks = stacks[axis.id] = stacks[axis.id] || { positive: [], negative: [] };
+
+    dataset.data.forEach((value, index) => {
+      if (index >= labels.length) return;
+
+      // Floating bars span their own range; others grow from zero or the top of the stack
+      let start = 0;
+      let end = 0;
+      if (isRange(value)) {
+        [start, end] = value;
+      } else if (isFiniteNumber(value)) {
+        if (stacked) {
+          const stack = value >= 0 ? axisStacks.positive : axisStacks.negative;
+          start = stack[index] || 0;
+          stack[index] = start + value;
+        }
+        end = start + value;
+      } else {
+        return;
+      }
+
+      const from = valuePosition(start, axis);
+      const to = valuePosition(end, axis);
+      const slot = categoryPosition(index) - groupSize / 2 + (stacked ? 0 : barIndex * barSize);
+      const fill = pickColor(dataset.backgroundColor, index, fallback);
+      const stroke = pickColor(dataset.borderColor, index, fallback);
+      const strokeWidth = dataset.borderWidth ?? 0;
+
+      elements.push(horizontal
+        ? { kind: 'rect', x: Math.min(from, to), y: slot, width: Math.abs(to - from), height: barSize, fill, stroke, strokeWidth }
+        : { kind: 'rect', x: slot, y: Math.min(from, to), width: barSize, height: Math.abs(to - from), fill, stroke, strokeWidth });
+
+      // Label stacked bars inside their segment and others past their end
+      if (axis.formatLabel) {
+        const across = slot + barSize / 2;
+        const along = stacked ? (from + to) / 2 : to;
+        const placement: DataLabelPlacement = stacked
+          ? 'center'
+          : horizontal ? (end >= start ? 'right' : 'left') : (end >= start ? 'above' : 'below');
+        addDataLabel(dataLabels, axis.formatLabel(end - start), horizontal ? along : across, horizontal ? across : along, placement);
+      }
+    });
+  });
+
+  // Lines
+  datasets.forEach((dataset, datasetIndex) => {
+    if (getDatasetType(config, dataset) !== 'line') return;
+
+    const fallback = getSeriesColor(datasetIndex);
+    const stroke = pickColor(dataset.borderColor, 0, fallback);
+    const fill = pickColor(dataset.backgroundColor, 0, fallback);
+    const stepped = Boolean((dataset as any).stepped);
+    const axis = getAxis(dataset);
+    const base = zeroPosition(axis);
+
+    // Split into segments at missing values
+    const segments: [number, number][][] = [[]];
+    dataset.data.forEach((value, index) => {
+      if (index >= labels.length) return;
+      if (!isFiniteNumber(value)) {
+        if (segments[segments.length - 1].length > 0) segments.push([]);
+        return;
+      }
+
+      const category = categoryPosition(index);
+      const position = valuePosition(value, axis);
+      const point: [number, number] = horizontal ? [position, category] : [category, position];
+      const segment = segments[segments.length - 1];
+
+      if (stepped && segment.length > 0) {
+        const previous = segment[segment.length - 1];
+        segment.push(horizontal ? [previous[0], point[1]] : [point[0], previous[1]]);
+      }
+      segment.push(point);
+
+      if (axis.formatLabel) {
+        addDataLabel(dataLabels, axis.formatLabel(value), point[0], point[1], horizontal ? 'right' : 'above');
+      }
+    });
+
+    segments.filter(segment => segment.length > 0).forEach(segment => {
+      if (dataset.fill) {
+        const first = segment[0];
+        const last = segment[segment.length - 1];
+        const area: [number, number][] = horizontal
+          ? [...segment, [base, last[1]], [base, first[1]]]
+          : [...segment, [last[0], base], [first[0], base]];
+        elements.push({ kind: 'polyline', points: area, closed: true, fill });
+      }
+
+      elements.push({ kind: 'polyline', points: segment, closed: false, stroke, strokeWidth: dataset.borderWidth ?? 2 });
+
+      segment.forEach(([x, y], index) => {
+        // Skip the intermediate points added for stepped lines
+        if (stepped && index % 2 === 1) return;
+        elements.push({ kind: 'circle', cx: x, cy: y, r: 3, fill: stroke });
+      });
+    });
+  });
+
+  // Annotation lines and labels, then data labels on top of every dataset
+  addAnnotations(config, plot, xPosition, yPosition, 'above', elements);
+  elements.push(...dataLabels);
+}
+
+/**
+ * Add pie, doughnut and polar area charts
+ * @param config Chart configuration
+ * @param area Plot area
+ * @param elements Scene elements
+ */
+function addRadialPlot(config: ChartConfig, area: Area, elements: SceneElement[]): void {
+  const cx = (area.left + area.right) / 2;
+  const cy = (area.top + area.bottom) / 2;
+  const radius = Math.max(Math.min(area.right - area.left, area.bottom - area.top) / 2 - 4, 1);
+  const datasets = config.data.datasets;
+  const startAngle = -Math.PI / 2;
+
+  if (config.type === 'polarArea') {
+    const dataset = datasets[0];
+    if (!dataset) return;
+
+    const values = dataset.data.map(value => (isFiniteNumber(value) ? Math.max(value, 0) : 0));
+    const max = Math.max(...values, 0);
+    const ticks = getNiceTicks(0, max);
+    const top = ticks[ticks.length - 1] || 1;
+    const step = (Math.PI * 2) / Math.max(values.length, 1);
+
+    values.forEach((value, index) => {
+      elements.push({
+        kind: 'sector',
+        cx,
+        cy,
+        innerRadius: 0,
+        outerRadius: (value / top) * radius,
+        startAngle: startAngle + step * index,
+        endAngle: startAngle + step * (index + 1),
+        fill: pickColor(dataset.backgroundColor, index, getSeriesColor(index)),
+        stroke: pickColor(dataset.borderColor, index, '#ffffff'),
+        strokeWidth: dataset.borderWidth ?? 1
+      });
+    });
+
+    // Radial grid
+    ticks.slice(1).forEach(tick => {
+      elements.push({ kind: 'circle', cx, cy, r: (tick / top) * radius, stroke: GRID_COLOR, strokeWidth: 1 });
+    });
+    return;
+  }
+
+  // Pie and doughnut charts draw one ring per dataset
+  const cutout = config.type === 'doughnut' ? radius * 0.5 : 0;
+  const ringWidth = (radius - cutout) / Math.max(datasets.length, 1);
+  const dataLabels: SceneElement[] = [];
+
+  datasets.forEach((dataset, datasetIndex) => {
+    const values = dataset.data.map(value => (isFiniteNumber(value) ? Math.max(value, 0) : 0));
+    const total = values.reduce((sum, value) => sum + value, 0);
+    if (total === 0) return;
+
+    const inner = cutout + ringWidth * datasetIndex;
+    let angle = startAngle;
+
+    values.forEach((value, index) => {
+      const sweep = (value / total) * Math.PI * 2;
+      if (sweep > 0) {
+        elements.push({
+          kind: 'sector',
+          cx,
+          cy,
+          innerRadius: inner,
+          outerRadius: inner + ringWidth,
+          startAngle: angle,
+          endAngle: angle + sweep,
+          fill: pickColor(dataset.backgroundColor, index, getSeriesColor(index)),
+          stroke: pickColor(dataset.borderColor, index, '#ffffff'),
+          strokeWidth: dataset.borderWidth ?? 1
+        });
+      }
+
+      // Share of the total in the middle of the slice
+      if (config.options?.dataLabels?.display && value / total >= MIN_LABEL_SHARE) {
+        const middle = angle + sweep / 2;
+        const distance = inner + ringWidth / 2;
+        addDataLabel(dataLabels, formatShare(value, total), cx + Math.cos(middle) * distance, cy + Math.sin(middle) * distance, 'center');
+      }
+      angle += sweep;
+    });
+  });
+
+  elements.push(...dataLabels);
+}
+
+/**
+ * Add a radar chart: one closed polygon per dataset on a radial value scale
+ * @param config Chart configuration
+ * @param area Plot area including point labels
+ * @param elements Scene elements
+ */
+function addRadarPlot(config: ChartConfig, area: Area, elements: SceneElement[]): void {
+  const labels = config.data.labels;
+  const datasets = config.data.datasets;
+  const count = Math.max(labels.length, 1);
+  const cx = (area.left + area.right) / 2;
+  const cy = (area.top + area.bottom) / 2;
+
+  // Leave room around the web for the point labels
+  const labelWidth = Math.max(0, ...labels.map(label => estimateTextWidth(label, FONT_SIZE)));
+  const radius = Math.max(
+    Math.min((area.right - area.left) / 2 - Math.min(labelWidth, (area.right - area.left) / 4) - 6, (area.bottom - area.top) / 2 - FONT_SIZE * 1.6),
+    1
+  );
+
+  const range = getValueRange(datasets, labels.length, false);
+  const ticks = getNiceTicks(Math.min(range.min, 0), range.max);
+  const min = ticks[0];
+  const max = ticks[ticks.length - 1];
+  const formatTick = createTickFormatter(config.options?.format, ticks);
+  const angle = (index: number) => -Math.PI / 2 + ((Math.PI * 2) / count) * index;
+  const point = (index: number, value: number): [number, number] => {
+    const distance = max === min ? 0 : ((value - min) / (max - min)) * radius;
+    return [cx + Math.cos(angle(index)) * distance, cy + Math.sin(angle(index)) * distance];
+  };
+
+  // Web of rings and spokes
+  ticks.slice(1).forEach(tick => {
+    elements.push({ kind: 'polyline', points: labels.map((_, index) => point(index, tick)), closed: true, stroke: GRID_COLOR, strokeWidth: 1 });
+  });
+  labels.forEach((label, index) => {
+    const [x, y] = point(index, max);
+    elements.push({ kind: 'line', x1: cx, y1: cy, x2: x, y2: y, stroke: GRID_COLOR, strokeWidth: 1 });
+
+    // Point labels just outside the web, aligned away from the centre
+    const cos = Math.cos(angle(index));
+    const sin = Math.sin(angle(index));
+    elements.push({
+      kind: 'text',
+      x: cx + cos * (radius + 6),
+      y: cy + sin * (radius + 6),
+      text: label,
+      fontSize: FONT_SIZE,
+      color: LABEL_COLOR,
+      align: Math.abs(cos) < 0.1 ? 'center' : cos > 0 ? 'left' : 'right',
+      baseline: Math.abs(sin) < 0.1 ? 'middle' : sin > 0 ? 'top' : 'bottom'
+    });
+  });
+
+  // Datasets
+  datasets.forEach((dataset, datasetIndex) => {
+    const fallback = getSeriesColor(datasetIndex);
+    const stroke = pickColor(dataset.borderColor, 0, fallback);
+    const points = labels.map((_, index) => {
+      const value = dataset.data[index];
+      return point(index, isFiniteNumber(value) ? value : min);
+    });
+
+    elements.push({
+      kind: 'polyline',
+      points,
+      closed: true,
+      fill: dataset.fill === false ? undefined : pickColor(dataset.backgroundColor, 0, withAlpha(fallback, FILL_OPACITY)),
+      stroke,
+      strokeWidth: dataset.borderWidth ?? 2
+    });
+    points.forEach(([x, y]) => {
+      elements.push({ kind: 'circle', cx: x, cy: y, r: 3, fill: stroke });
+    });
+  });
+
+  // Tick labels up the first spoke
+  ticks.slice(1).forEach(tick => {
+    const [x, y] = point(0, tick);
+    elements.push({ kind: 'text', x: x + 4, y, text: formatTick(tick), fontSize: FONT_SIZE * 0.85, color: LABEL_COLOR, align: 'left', baseline: 'middle' });
+  });
+}
+
+/**
+ * Add scatter and bubble charts on linear x and y axes
+ * @param config Chart configuration
+ * @param area Plot area including axes
+ * @param elements Scene elements
+ */
+function addPointPlot(config: ChartConfig, area: Area, elements: SceneElement[]): void {
+  const scales = config.options?.scales || {};
+  const datasets = config.data.datasets;
+  const points = datasets.map(getDatasetPoints);
+  const allPoints = points.flat();
+
+  // Work out both value ranges
+  const xRange = getExtent(allPoints.map(point => point.x));
+  const yRange = getExtent(allPoints.map(point => point.y));
+  if (scales.y?.beginAtZero) {
+    yRange.min = Math.min(yRange.min, 0);
+    yRange.max = Math.max(yRange.max, 0);
+  }
+  widenRange(xRange, getAnnotationValues(config.options?.annotations || [], 'x', 'linear'));
+  widenRange(yRange, getAnnotationValues(config.options?.annotations || [], 'y', 'linear'));
+  const xTicks = getNiceTicks(xRange.min, xRange.max);
+  const yTicks = getNiceTicks(yRange.min, yRange.max);
+  const xLabels = xTicks.map(tick => formatNumber(tick, getTickDecimals(xTicks)));
+  const yLabels = yTicks.map(createTickFormatter(config.options?.format, yTicks));
+
+  // Reserve space for axis titles and tick labels
+  const xTitle = getScaleTitle(scales.x);
+  const yTitle = getScaleTitle(scales.y);
+  const titleSpace = FONT_SIZE * 1.6;
+  const yLabelWidth = Math.max(0, ...yLabels.map(label => estimateTextWidth(label, FONT_SIZE)));
+  const plot: Area = {
+    left: area.left + (yTitle ? titleSpace : 0) + Math.min(yLabelWidth, (area.right - area.left) / 3) + 8,
+    top: area.top + FONT_SIZE / 2,
+    right: area.right - Math.max(4, estimateTextWidth(xLabels[xLabels.length - 1], FONT_SIZE) / 2),
+    bottom: area.bottom - (xTitle ? titleSpace : 0) - FONT_SIZE * 1.6
+  };
+
+  // Keep bubbles at the ends of the ranges inside the plot
+  const bubble = config.type === 'bubble';
+  const inset = bubble ? Math.max(0, ...allPoints.map(point => point.r ?? 3)) : 0;
+  const scaleX = (value: number) =>
+    plot.left + inset + ((value - xTicks[0]) / (xTicks[xTicks.length - 1] - xTicks[0])) * Math.max(plot.right - plot.left - inset * 2, 1);
+  const scaleY = (value: number) =>
+    plot.bottom - inset - ((value - yTicks[0]) / (yTicks[yTicks.length - 1] - yTicks[0])) * Math.max(plot.bottom - plot.top - inset * 2, 1);
+
+  addAnnotations(config, plot, scaleX, scaleY, 'below', elements);
+
+  // Grid lines and ticks on both axes
+  xTicks.forEach((tick, index) => {
+    const x = scaleX(tick);
+    if (scales.x?.grid?.display !== false) {
+      elements.push({ kind: 'line', x1: x, y1: plot.top, x2: x, y2: plot.bottom, stroke: GRID_COLOR, strokeWidth: 1 });
+    }
+    elements.push({ kind: 'text', x, y: plot.bottom + 4, text: xLabels[index], fontSize: FONT_SIZE, color: LABEL_COLOR, align: 'center', baseline: 'top' });
+  });
+  yTicks.forEach((tick, index) => {
+    const y = scaleY(tick);
+    if (scales.y?.grid?.display !== false) {
+      elements.push({ kind: 'line', x1: plot.left, y1: y, x2: plot.right, y2: y, stroke: GRID_COLOR, strokeWidth: 1 });
+    }
+    elements.push({ kind: 'text', x: plot.left - 6, y, text: yLabels[index], fontSize: FONT_SIZE, color: LABEL_COLOR, align: 'right', baseline: 'middle' });
+  });
+
+  addAxisTitles(elements, area, plot, xTitle, yTitle);
+
+  // Axis lines
+  elements.push({ kind: 'line', x1: plot.left, y1: plot.bottom, x2: plot.right, y2: plot.bottom, stroke: '#999999', strokeWidth: 1 });
+  elements.push({ kind: 'line', x1: plot.left, y1: plot.top, x2: plot.left, y2: plot.bottom, stroke: '#999999', strokeWidth: 1 });
+
+  // Points, with bubbles sized by their radius
+  datasets.forEach((dataset, datasetIndex) => {
+    const fallback = getSeriesColor(datasetIndex);
+
+    points[datasetIndex].forEach((point, index) => {
+      const fill = pickColor(dataset.backgroundColor, index, bubble ? withAlpha(fallback, 0.5) : fallback);
+      elements.push({
+        kind: 'circle',
+        cx: scaleX(point.x),
+        cy: scaleY(point.y),
+        r: bubble ? Math.max(point.r ?? 3, 0) : 3,
+        fill,
+        stroke: pickColor(dataset.borderColor, index, dataset.backgroundColor ? fill : fallback),
+        strokeWidth: dataset.borderWidth ?? 1
+      });
+    });
+  });
+
+  addAnnotations(config, plot, scaleX, scaleY, 'above', elements);
+}
+
+/**
+ * Add candlestick and OHLC charts, with bar datasets drawn as volume in a panel below the prices
+ * @param config Chart configuration
+ * @param area Plot area including axes
+ * @param elements Scene elements
+ */
+function addFinancialPlot(config: ChartConfig, area: Area, elements: SceneElement[]): void {
+  const scales = config.options?.scales || {};
+  const labels = config.data.labels;
+  const datasets = config.data.datasets;
+  const priceDatasets = datasets.filter(dataset => FINANCIAL_TYPES.includes(getDatasetType(config, dataset)));
+  const volumeDatasets = datasets.filter(dataset => getDatasetType(config, dataset) === 'bar');
+
+  // Price scale covering every low and high
+  const prices = priceDatasets.flatMap(dataset => dataset.data.filter(isOhlc));
+  const range = getExtent(prices.flatMap(price => [price.l, price.h]));
+  widenRange(range, getAnnotationValues(config.options?.annotations || [], 'y', 'linear'));
+  const ticks = getNiceTicks(range.min, range.max);
+  const tickLabels = ticks.map(createTickFormatter(config.options?.format, ticks));
+
+  // Reserve space for axis titles and tick labels
+  const xTitle = getScaleTitle(scales.x);
+  const yTitle = getScaleTitle(scales.y);
+  const titleSpace = FONT_SIZE * 1.6;
+  const labelWidth = Math.max(0, ...tickLabels.map(label => estimateTextWidth(label, FONT_SIZE)));
+  const plot: Area = {
+    left: area.left + (yTitle ? titleSpace : 0) + Math.min(labelWidth, (area.right - area.left) / 3) + 8,
+    top: area.top + FONT_SIZE / 2,
+    right: area.right - 4,
+    bottom: area.bottom - (xTitle ? titleSpace : 0) - FONT_SIZE * 1.6
+  };
+
+  // Volume takes the bottom of the plot
+  const volumeHeight = volumeDatasets.length > 0 ? (plot.bottom - plot.top) * VOLUME_SHARE : 0;
+  const pricePlot: Area = { ...plot, bottom: plot.bottom - (volumeHeight > 0 ? volumeHeight + 6 : 0) };
+  const band = Math.max(plot.right - plot.left, 1) / Math.max(labels.length, 1);
+  const center = (index: number) => plot.left + band * (index + 0.5);
+  const priceY = (value: number) =>
+    pricePlot.bottom - ((value - ticks[0]) / (ticks[ticks.length - 1] - ticks[0])) * Math.max(pricePlot.bottom - pricePlot.top, 1);
+
+  addAnnotations(config, pricePlot, center, priceY, 'below', elements);
+
+  // Grid lines and price ticks
+  ticks.forEach((tick, index) => {
+    const y = priceY(tick);
+    if (scales.y?.grid?.display !== false) {
+      elements.push({ kind: 'line', x1: plot.left, y1: y, x2: plot.right, y2: y, stroke: GRID_COLOR, strokeWidth: 1 });
+    }
+    elements.push({ kind: 'text', x: plot.left - 6, y, text: tickLabels[index], fontSize: FONT_SIZE, color: LABEL_COLOR, align: 'right', baseline: 'middle' });
+  });
+
+  // Date labels, skipping some when they would overlap
+  const labelSpace = Math.max(...labels.map(label => estimateTextWidth(label, FONT_SIZE)), 1) + 6;
+  const skip = Math.max(1, Math.ceil(labelSpace / band));
+  labels.forEach((label, index) => {
+    if (index % skip !== 0) return;
+    elements.push({ kind: 'text', x: center(index), y: plot.bottom + 4, text: label, fontSize: FONT_SIZE, color: LABEL_COLOR, align: 'center', baseline: 'top' });
+  });
+
+  addAxisTitles(elements, area, plot, xTitle, yTitle);
+  elements.push({ kind: 'line', x1: plot.left, y1: pricePlot.bottom, x2: plot.right, y2: pricePlot.bottom, stroke: '#999999', strokeWidth: 1 });
+
+  // Volume bars scaled to the largest volume
+  if (volumeHeight > 0) {
+    const maxVolume = Math.max(...volumeDatasets.flatMap(dataset => dataset.data.filter(isFiniteNumber)), 0) || 1;
+    const barWidth = band * 0.7 / volumeDatasets.length;
+
+    volumeDatasets.forEach((dataset, volumeIndex) => {
+      const fallback = getSeriesColor(datasets.indexOf(dataset));
+      dataset.data.forEach((value, index) => {
+        if (!isFiniteNumber(value) || index >= labels.length) return;
+        const height = (Math.max(value, 0) / maxVolume) * volumeHeight;
+        elements.push({
+          kind: 'rect',
+          x: center(index) - band * 0.35 + volumeIndex * barWidth,
+          y: plot.bottom - height,
+          width: barWidth,
+          height,
+          fill: pickColor(dataset.backgroundColor, index, fallback),
+          stroke: pickColor(dataset.borderColor, index, fallback),
+          strokeWidth: dataset.borderWidth ?? 0
+        });
+      });
+    });
+    elements.push({ kind: 'line', x1: plot.left, y1: plot.bottom, x2: plot.right, y2: plot.bottom, stroke: '#999999', strokeWidth: 1 });
+  }
+
+  // Candles or OHLC bars
+  const bodyWidth = Math.max(band * 0.6, 1);
+  priceDatasets.forEach(dataset => {
+    const ohlc = getDatasetType(config, dataset) === 'ohlc';
+
+    dataset.data.forEach((value, index) => {
+      if (!isOhlc(value) || index >= labels.length) return;
+
+      const fallback = value.c >= value.o ? UP_COLOR : DOWN_COLOR;
+      const stroke = pickColor(dataset.borderColor, index, fallback);
+      const strokeWidth = Math.max(dataset.borderWidth ?? 1, 1);
+      const x = center(index);
+      const open = priceY(value.o);
+      const close = priceY(value.c);
+
+      // High-low wick
+      elements.push({ kind: 'line', x1: x, y1: priceY(value.h), x2: x, y2: priceY(value.l), stroke, strokeWidth });
+
+      if (ohlc) {
+        // Open tick on the left, close tick on the right
+        elements.push({ kind: 'line', x1: x - bodyWidth / 2, y1: open, x2: x, y2: open, stroke, strokeWidth });
+        elements.push({ kind: 'line', x1: x, y1: close, x2: x + bodyWidth / 2, y2: close, stroke, strokeWidth });
+      } else {
+        elements.push({
+          kind: 'rect',
+          x: x - bodyWidth / 2,
+          y: Math.min(open, close),
+          width: bodyWidth,
+          height: Math.max(Math.abs(close - open), 1),
+          fill: pickColor(dataset.backgroundColor, index, fallback),
+          stroke,
+          strokeWidth
+        });
+      }
+    });
+  });
+
+  addAnnotations(config, pricePlot, center, priceY, 'above', elements);
+}
+
+/**
+ * Add bar and line datasets of { x: timestamp, y } points on a time scale
+ * @param config Chart configuration
+ * @param area Plot area including axes
+ * @param elements Scene elements
+ */
+function addTimePlot(config: ChartConfig, area: Area, elements: SceneElement[]): void {
+  const scales = config.options?.scales || {};
+  const time = scales.x?.time || {};
+  const datasets = config.data.datasets;
+  const series = datasets.map(getTimePoints);
+  const barSeries = series.filter((_, index) => getDatasetType(config, datasets[index]) === 'bar');
+
+  // Time range, widened by half a bar at each end so bars are not cut off
+  const timestamps = series.flat().map(point => point.x);
+  const spacing = getMinSpacing(barSeries.flat().map(point => point.x));
+  const padding = barSeries.length > 0 ? spacing / 2 : 0;
+  const markers = getAnnotationValues(config.options?.annotations || [], 'x', 'time');
+  let minTime = Math.min(...timestamps, ...markers) - padding;
+  let maxTime = Math.max(...timestamps, ...markers) + padding;
+  if (timestamps.length + markers.length === 0) {
+    minTime = Date.now() - DAY;
+    maxTime = Date.now();
+  } else if (minTime === maxTime) {
+    minTime -= DAY;
+    maxTime += DAY;
+  }
+
+  // Value range
+  const range = getExtent(series.flat().map(point => point.y).filter(isFiniteNumber));
+  if (barSeries.length > 0 || scales.y?.beginAtZero) {
+    range.min = Math.min(range.min, 0);
+    range.max = Math.max(range.max, 0);
+  }
+  widenRange(range, getAnnotationValues(config.options?.annotations || [], 'y', 'linear'));
+  const ticks = getNiceTicks(range.min, range.max);
+  const tickLabels = ticks.map(createTickFormatter(config.options?.format, ticks));
+  const formatLabel = config.options?.dataLabels?.display ? createValueFormatter(config.options.format) : null;
+  const dataLabels: SceneElement[] = [];
+
+  // Reserve space for axis titles and tick labels
+  const xTitle = getScaleTitle(scales.x);
+  const yTitle = getScaleTitle(scales.y);
+  const titleSpace = FONT_SIZE * 1.6;
+  const labelWidth = Math.max(0, ...tickLabels.map(label => estimateTextWidth(label, FONT_SIZE)));
+  const plot: Area = {
+    left: area.left + (yTitle ? titleSpace : 0) + Math.min(labelWidth, (area.right - area.left) / 3) + 8,
+    top: area.top + FONT_SIZE / 2,
+    right: area.right - 4,
+    bottom: area.bottom - (xTitle ? titleSpace : 0) - FONT_SIZE * 1.6
+  };
+  const plotWidth = Math.max(plot.right - plot.left, 1);
+  const timeX = (value: number) => plot.left + ((value - minTime) / (maxTime - minTime)) * plotWidth;
+  const valueY = (value: number) =>
+    plot.bottom - ((value - ticks[0]) / (ticks[ticks.length - 1] - ticks[0])) * Math.max(plot.bottom - plot.top, 1);
+
+  addAnnotations(config, plot, timeX, valueY, 'below', elements);
+
+  // Value grid and ticks
+  ticks.forEach((tick, index) => {
+    const y = valueY(tick);
+    if (scales.y?.grid?.display !== false) {
+      elements.push({ kind: 'line', x1: plot.left, y1: y, x2: plot.right, y2: y, stroke: GRID_COLOR, strokeWidth: 1 });
+    }
+    elements.push({ kind: 'text', x: plot.left - 6, y, text: tickLabels[index], fontSize: FONT_SIZE, color: LABEL_COLOR, align: 'right', baseline: 'middle' });
+  });
+
+  // Date ticks at the start of each day, week, month or quarter, skipping some when they would overlap
+  const unit = time.unit || getTimeUnit(minTime, maxTime);
+  const timeTicks = getTimeTicks(minTime, maxTime, unit);
+  const timeLabels = timeTicks.map(tick => formatTimeTick(tick, unit, time.displayFormat));
+  const labelSpace = Math.max(...timeLabels.map(label => estimateTextWidth(label, FONT_SIZE)), 1) + 6;
+  const skip = Math.max(1, Math.ceil((labelSpace * timeTicks.length) / plotWidth));
+  timeTicks.forEach((tick, index) => {
+    if (index % skip !== 0) return;
+    const x = timeX(tick);
+    if (scales.x?.grid?.display !== false) {
+      elements.push({ kind: 'line', x1: x, y1: plot.top, x2: x, y2: plot.bottom, stroke: GRID_COLOR, strokeWidth: 1 });
+    }
+    elements.push({ kind: 'text', x, y: plot.bottom + 4, text: timeLabels[index], fontSize: FONT_SIZE, color: LABEL_COLOR, align: 'center', baseline: 'top' });
+  });
+
+  addAxisTitles(elements, area, plot, xTitle, yTitle);
+
+  const zero = valueY(Math.min(Math.max(0, ticks[0]), ticks[ticks.length - 1]));
+  elements.push({ kind: 'line', x1: plot.left, y1: zero, x2: plot.right, y2: zero, stroke: '#999999', strokeWidth: 1 });
+
+  // Bars centred on their date
+  const barWidth = Math.max(((spacing / (maxTime - minTime)) * plotWidth * 0.8) / Math.max(barSeries.length, 1), 1);
+  let barIndex = 0;
+  datasets.forEach((dataset, datasetIndex) => {
+    if (getDatasetType(config, dataset) !== 'bar') return;
+
+    const fallback = getSeriesColor(datasetIndex);
+    const offset = (barIndex - (barSeries.length - 1) / 2) * barWidth;
+    series[datasetIndex].forEach((point, index) => {
+      if (!isFiniteNumber(point.y)) return;
+      const y = valueY(point.y);
+      elements.push({
+        kind: 'rect',
+        x: timeX(point.x) + offset - barWidth / 2,
+        y: Math.min(y, zero),
+        width: barWidth,
+        height: Math.abs(zero - y),
+        fill: pickColor(dataset.backgroundColor, index, fallback),
+        stroke: pickColor(dataset.borderColor, index, fallback),
+        strokeWidth: dataset.borderWidth ?? 0
+      });
+      if (formatLabel) {
+        addDataLabel(dataLabels, formatLabel(point.y), timeX(point.x) + offset, y, point.y >= 0 ? 'above' : 'below');
+      }
+    });
+    barIndex++;
+  });
+
+  // Lines, broken at missing values and at gaps longer than spanGaps
+  datasets.forEach((dataset, datasetIndex) => {
+    if (getDatasetType(config, dataset) !== 'line') return;
+
+    const fallback = getSeriesColor(datasetIndex);
+    const stroke = pickColor(dataset.borderColor, 0, fallback);
+    const points = series[datasetIndex];
+    const maxGap = typeof dataset.spanGaps === 'number' ? dataset.spanGaps : Infinity;
+    const segments: [number, number][][] = [[]];
+    let previous: number | null = null;
+
+    points.forEach(point => {
+      const current = segments[segments.length - 1];
+      if (!isFiniteNumber(point.y)) {
+        if (dataset.spanGaps !== true && current.length > 0) segments.push([]);
+        return;
+      }
+      if (previous !== null && point.x - previous > maxGap && current.length > 0) {
+        segments.push([]);
+      }
+      segments[segments.length - 1].push([timeX(point.x), valueY(point.y)]);
+      previous = point.x;
+
+      if (formatLabel) {
+        addDataLabel(dataLabels, formatLabel(point.y), timeX(point.x), valueY(point.y), 'above');
+      }
+    });
+
+    const markPoints = points.length <= plotWidth / MIN_POINT_SPACING;
+    segments.filter(segment => segment.length > 0).forEach(segment => {
+      if (dataset.fill) {
+        const first = segment[0];
+        const last = segment[segment.length - 1];
+        elements.push({
+          kind: 'polyline',
+          points: [...segment, [last[0], zero], [first[0], zero]],
+          closed: true,
+          fill: pickColor(dataset.backgroundColor, 0, withAlpha(fallback, FILL_OPACITY))
+        });
+      }
+      elements.push({ kind: 'polyline', points: segment, closed: false, stroke, strokeWidth: dataset.borderWidth ?? 2 });
+
+      // Mark points when they are far enough apart, and always mark isolated points
+      if (markPoints || segment.length === 1) {
+        segment.forEach(([x, y]) => {
+          elements.push({ kind: 'circle', cx: x, cy: y, r: 3, fill: stroke });
+        });
+      }
+    });
+  });
+
+  addAnnotations(config, plot, timeX, valueY, 'above', elements);
+  elements.push(...dataLabels);
+}
+
+/**
+ * Get the { x: timestamp, y } points of a time series dataset in date order, keeping gaps
+ * @param dataset Chart dataset
+ * @returns Points with finite timestamps; y is NaN for gaps
+ */
+function getTimePoints(dataset: ChartDataset): ChartPoint[] {
+  return dataset.data
+    .filter((value): value is ChartPoint => typeof value === 'object' && value !== null && isFiniteNumber((value as ChartPoint).x))
+    .map(point => ({ x: point.x, y: isFiniteNumber(point.y) ? point.y : NaN }))
+    .sort((a, b) => a.x - b.x);
+}
+
+/**
+ * Get the smallest distance between distinct timestamps
+ * @param timestamps Timestamps (ms)
+ * @returns Smallest spacing, one day when there are fewer than two timestamps
+ */
+function getMinSpacing(timestamps: number[]): number {
+  const sorted = [...new Set(timestamps)].sort((a, b) => a - b);
+  let spacing = Infinity;
+  for (let i = 1; i < sorted.length; i++) {
+    spacing = Math.min(spacing, sorted[i] - sorted[i - 1]);
+  }
+  return isFinite(spacing) ? spacing : DAY;
+}
+
+/**
+ * Add annotations: boxes below the datasets, lines and labels above them
+ * @param config Chart configuration
+ * @param plot Plot area the annotations are clipped to
+ * @param xPosition Scene x of a resolved x axis value
+ * @param yPosition Scene y of a resolved y axis value
+ * @param layer Annotations to add
+ * @param elements Scene elements
+ */
+function addAnnotations(
+  config: ChartConfig,
+  plot: Area,
+  xPosition: (value: number) => number,
+  yPosition: (value: number) => number,
+  layer: 'below' | 'above',
+  elements: SceneElement[]
+): void {
+  const axes = getAnnotationAxes(config);
+  if (!axes) return;
+
+  const labels = config.data.labels;
+  const position = (axis: 'x' | 'y', value: ChartAxisValue | undefined, fallback: number): number | null => {
+    if (value === undefined) return fallback;
+    const resolved = resolveAxisValue(value, axes[axis], labels);
+    return resolved === null ? null : (axis === 'x' ? xPosition : yPosition)(resolved);
+  };
+  const clampX = (x: number) => Math.min(Math.max(x, plot.left), plot.right);
+  const clampY = (y: number) => Math.min(Math.max(y, plot.top), plot.bottom);
+
+  (config.options?.annotations || []).forEach(annotation => {
+    if ((annotation.type === 'box') !== (layer === 'below')) return;
+
+    switch (annotation.type) {
+      case 'box': {
+        const x1 = position('x', annotation.xMin, plot.left);
+        const x2 = position('x', annotation.xMax, plot.right);
+        const y1 = position('y', annotation.yMin, plot.bottom);
+        const y2 = position('y', annotation.yMax, plot.top);
+        if (x1 === null || x2 === null || y1 === null || y2 === null) return;
+
+        const left = clampX(Math.min(x1, x2));
+        const top = clampY(Math.min(y1, y2));
+        elements.push({
+          kind: 'rect',
+          x: left,
+          y: top,
+          width: clampX(Math.max(x1, x2)) - left,
+          height: clampY(Math.max(y1, y2)) - top,
+          fill: annotation.color || ANNOTATION_BOX_COLOR,
+          stroke: annotation.borderColor,
+          strokeWidth: annotation.borderColor ? 1 : 0
+        });
+        if (annotation.label) {
+          elements.push({ kind: 'text', x: left + 4, y: top + 4, text: annotation.label, fontSize: DATA_LABEL_SIZE, color: ANNOTATION_TEXT_COLOR, align: 'left', baseline: 'top' });
+        }
+        break;
+      }
+      case 'line': {
+        const at = position(annotation.axis, annotation.value, NaN);
+        if (at === null) return;
+
+        const color = annotation.color || ANNOTATION_LINE_COLOR;
+        const line = { kind: 'line' as const, stroke: color, strokeWidth: annotation.width ?? 2, dash: annotation.dash };
+        const label = { kind: 'text' as const, text: annotation.label || '', fontSize: DATA_LABEL_SIZE, color, bold: true };
+
+        // Horizontal lines are labelled at their right end, vertical lines at their top on the side with more room
+        if (annotation.axis === 'y') {
+          if (at < plot.top - 0.5 || at > plot.bottom + 0.5) return;
+          elements.push({ ...line, x1: plot.left, y1: at, x2: plot.right, y2: at });
+          if (annotation.label) elements.push({ ...label, x: plot.right - 4, y: at - 3, align: 'right', baseline: 'bottom' });
+        } else {
+          if (at < plot.left - 0.5 || at > plot.right + 0.5) return;
+          const left = at > (plot.left + plot.right) / 2;
+          elements.push({ ...line, x1: at, y1: plot.top, x2: at, y2: plot.bottom });
+          if (annotation.label) elements.push({ ...label, x: left ? at - 4 : at + 4, y: plot.top + 2, align: left ? 'right' : 'left', baseline: 'top' });
+        }
+        break;
+      }
+      case 'label': {
+        const x = position('x', annotation.x, NaN);
+        const y = position('y', annotation.y, NaN);
+        if (x === null || y === null) return;
+
+        elements.push({ kind: 'text', x, y, text: annotation.text, fontSize: FONT_SIZE, color: annotation.color || ANNOTATION_TEXT_COLOR, align: 'center', baseline: 'middle' });
+        break;
+      }
+    }
+  });
+}
+
+/**
+ * Widen a value range to include extra values
+ * @param range Value range, updated in place
+ * @param values Values to include
+ */
+function widenRange(range: { min: number; max: number }, values: number[]): void {
+  if (values.length === 0) return;
+  range.min = Math.min(range.min, ...values);
+  range.max = Math.max(range.max, ...values);
+}
+
+/**
+ * Add a data label next to its anchor point
+ * @param elements Scene elements
+ * @param text Label text
+ * @param x Anchor x
+ * @param y Anchor y
+ * @param placement Position relative to the anchor
+ */
+function addDataLabel(elements: SceneElement[], text: string, x: number, y: number, placement: DataLabelPlacement): void {
+  const gap = 3;
+  const label = { kind: 'text' as const, text, fontSize: DATA_LABEL_SIZE, color: LABEL_COLOR };
+
+  switch (placement) {
+    case 'above':
+      elements.push({ ...label, x, y: y - gap, align: 'center', baseline: 'bottom' });
+      break;
+    case 'below':
+      elements.push({ ...label, x, y: y + gap, align: 'center', baseline: 'top' });
+      break;
+    case 'left':
+      elements.push({ ...label, x: x - gap, y, align: 'right', baseline: 'middle' });
+      break;
+    case 'right':
+      elements.push({ ...label, x: x + gap, y, align: 'left', baseline: 'middle' });
+      break;
+    case 'center':
+      elements.push({ ...label, x, y, align: 'center', baseline: 'middle' });
+      break;
+  }
+}
+
+/**
+ * Add axis titles below and to the left of the plot
+ * @param elements Scene elements
+ * @param area Area including the axes
+ * @param plot Plot area
+ * @param bottomTitle Title of the bottom axis, or an empty string
+ * @param leftTitle Title of the left axis, or an empty string
+ */
+function addAxisTitles(elements: SceneElement[], area: Area, plot: Area, bottomTitle: string, leftTitle: string): void {
+  if (bottomTitle) {
+    elements.push({ kind: 'text', x: (plot.left + plot.right) / 2, y: area.bottom, text: bottomTitle, fontSize: FONT_SIZE, color: LABEL_COLOR, align: 'center', baseline: 'bottom', bold: true });
+  }
+  if (leftTitle) {
+    elements.push({ kind: 'text', x: area.left, y: (plot.top + plot.bottom) / 2, text: leftTitle, fontSize: FONT_SIZE, color: LABEL_COLOR, align: 'center', baseline: 'top', bold: true, rotation: 90 });
+  }
+}
+
+/**
+ * Get the displayed title of a scale
+ * @param scale Scale options
+ * @returns Title text, or an empty string when hidden
+ */
+function getScaleTitle(scale?: { title?: { display: boolean; text: string } }): string {
+  return scale?.title?.display && scale.title.text ? scale.title.text : '';
+}
+
+/**
+ * Get the points of a scatter or bubble dataset. Plain values are placed at their index.
+ * @param dataset Chart dataset
+ * @returns Points with finite coordinates
+ */
+function getDatasetPoints(dataset: ChartDataset): ChartPoint[] {
+  return dataset.data
+    .map((value, index) => (typeof value === 'number' ? { x: index, y: value } : value))
+    .filter((point): point is ChartPoint => isPoint(point));
+}
+
+/**
+ * Get the minimum and maximum of a list of values
+ * @param values Values
+ * @returns Value range, 0 to 1 when there are no values
+ */
+function getExtent(values: number[]): { min: number; max: number } {
+  if (values.length === 0) {
+    return { min: 0, max: 1 };
+  }
+  return { min: Math.min(...values), max: Math.max(...values) };
+}
+
+/**
+ * Get the effective type of a dataset
+ * @param config Chart configuration
+ * @param dataset Chart dataset
+ * @returns Dataset type
+ */
+function getDatasetType(config: ChartConfig, dataset: ChartDataset): ChartType {
+  return dataset.type || config.type;
+}
+
+/**
+ * Get the value axes of a bar and line plot: the primary axis first, then
+ * any secondary axes the datasets use, each with its own range and format
+ * @param config Chart configuration
+ * @param horizontal Whether bars grow horizontally, which allows a single value axis
+ * @param stacked Whether values are stacked
+ * @param maxLabelWidth Widest space given to tick labels
+ * @param titleSpace Space taken by an axis title
+ * @returns Value axes
+ */
+function getValueAxes(
+  config: ChartConfig,
+  horizontal: boolean,
+  stacked: boolean,
+  maxLabelWidth: number,
+  titleSpace: number
+): ValueAxis[] {
+  const options = config.options || {};
+  const scales = options.scales || {};
+  const datasets = config.data.datasets;
+  const used = horizontal ? [] : datasets.map(dataset => getValueAxisId(config, dataset));
+  const ids = used.length > 0 ? ['y', ...used].filter((id, index, all) => all.indexOf(id) === index && used.includes(id)) : ['y'];
+  const offsets = { left: 0, right: 0 };
+
+  return ids.map((id, index) => {
+    const scale = (horizontal ? scales.x : scales[id]) as ChartValueAxisOptions | undefined;
+    const axisDatasets = horizontal ? datasets : datasets.filter(dataset => getValueAxisId(config, dataset) === id);
+
+    const range = getValueRange(axisDatasets, config.data.labels.length, stacked);
+    if (axisDatasets.some(dataset => getDatasetType(config, dataset) === 'bar') || scale?.beginAtZero) {
+      range.min = Math.min(range.min, 0);
+      range.max = Math.max(range.max, 0);
+    }
+    if (index === 0) {
+      widenRange(range, getAnnotationValues(options.annotations || [], horizontal ? 'x' : 'y', 'linear'));
+    }
+
+    const ticks = getNiceTicks(range.min, range.max);
+    const format = scale?.format || options.format;
+    const tickLabels = ticks.map(createTickFormatter(format, ticks));
+    const title = getScaleTitle(scale);
+    const side = scale?.position === 'right' ? 'right' : 'left';
+    const labelWidth = Math.max(0, ...tickLabels.map(label => estimateTextWidth(label, FONT_SIZE)));
+    const width = (title ? titleSpace : 0) + Math.min(labelWidth, maxLabelWidth) + 8;
+    const offset = offsets[side];
+    offsets[side] += width;
+
+    return {
+      id,
+      side,
+      title,
+      showGrid: scale?.grid?.display !== false,
+      ticks,
+      tickLabels,
+      min: ticks[0],
+      max: ticks[ticks.length - 1],
+      formatLabel: options.dataLabels?.display ? createValueFormatter(format) : null,
+      width,
+      offset
+    };
+  });
+}
+
+/**
+ * Get the value axis a dataset is plotted against, falling back to the primary axis
+ * when it names one that is not configured
+ * @param config Chart configuration
+ * @param dataset Chart dataset
+ * @returns Scale ID
+ */
+function getValueAxisId(config: ChartConfig, dataset: ChartDataset): string {
+  const axisId = dataset.yAxisID;
+  return axisId && axisId !== 'x' && config.options?.scales?.[axisId] ? axisId : 'y';
+}
+
+/**
+ * Get the minimum and maximum values across datasets
+ * @param datasets Chart datasets
+ * @param length Number of categories
+ * @param stacked Whether values are stacked
+ * @returns Value range
+ */
+function getValueRange(datasets: ChartDataset[], length: number, stacked: boolean): { min: number; max: number } {
+  let min = Infinity;
+  let max = -Infinity;
+
+  if (stacked) {
+    for (let index = 0; index < length; index++) {
+      let positive = 0;
+      let negative = 0;
+      datasets.forEach(dataset => {
+        const value = dataset.data[index];
+        if (!isFiniteNumber(value)) return;
+        if (value >= 0) positive += value;
+        else negative += value;
+      });
+      min = Math.min(min, negative);
+      max = Math.max(max, positive);
+    }
+  } else {
+    datasets.forEach(dataset => {
+      dataset.data.forEach(value => {
+        const values = isRange(value) ? value : isFiniteNumber(value) ? [value] : [];
+        values.forEach(item => {
+          min = Math.min(min, item);
+          max = Math.max(max, item);
+        });
+      });
+    });
+  }
+
+  if (!isFinite(min) || !isFinite(max)) {
+    return { min: 0, max: 1 };
+  }
+
+  return { min, max };
+}
+
+/**
+ * Calculate evenly spaced, rounded tick values covering a range
+ * @param min Minimum value
+ * @param max Maximum value
+ * @param count Approximate number of intervals
+ * @returns Tick values
+ */
+export function getNiceTicks(min: number, max: number, count: number = 5): number[] {
+  if (min === max) {
+    if (min === 0) return [0, 1];
+    const padding = Math.abs(min) * 0.1;
+    min -= padding;
+    max += padding;
+  }
+
+  const roughStep = (max - min) / count;
+  const magnitude = Math.pow(10, Math.floor(Math.log10(roughStep)));
+  const normalized = roughStep / magnitude;
+  const niceStep = (normalized <= 1 ? 1 : normalized <= 2 ? 2 : normalized <= 5 ? 5 : 10) * magnitude;
+
+  const start = Math.floor(min / niceStep) * niceStep;
+  const end = Math.ceil(max / niceStep) * niceStep;
+  const ticks: number[] = [];
+
+  for (let value = start; value <= end + niceStep / 2; value += niceStep) {
+    // Avoid floating point noise such as 0.30000000000000004
+    ticks.push(Number(value.toPrecision(12)));
+  }
+
+  return ticks;
+}
+
+/**
+ * Pick a color from a single color or a per-item color array
+ * @param color Color or color array
+ * @param index Item index
+ * @param fallback Fallback color
+ * @returns Color string
+ */
+function pickColor(color: string | string[] | undefined, index: number, fallback: string): string {
+  if (Array.isArray(color)) {
+    return color.length > 0 ? color[index % color.length] : fallback;
+  }
+  return color || fallback;
+}
+
+/**
+ * Check whether a value is a usable number
+ * @param value Value to check
+ * @returns True if value is a finite number
+ */
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && isFinite(value);
+}
+
+/**
+ * Check whether a value is a floating bar range
+ * @param value Value to check
+ * @returns True if value is a [start, end] pair of finite numbers
+ */
+function isRange(value: unknown): value is ChartRange {
+  return Array.isArray(value) && value.length === 2 && isFiniteNumber(value[0]) && isFiniteNumber(value[1]);
+}
+
+/**
+ * Check whether a value is a scatter or bubble point
+ * @param value Value to check
+ * @returns True if value has finite x and y coordinates
+ */
+function isPoint(value: unknown): value is ChartPoint {
+  return typeof value === 'object' && value !== null && isFiniteNumber((value as ChartPoint).x) && isFiniteNumber((value as ChartPoint).y);
+}
+
+/**
+ * Check whether a value holds open, high, low and close prices
+ * @param value Value to check
+ * @returns True if value has finite prices
+ */
+function isOhlc(value: unknown): value is ChartOhlc {
+  if (typeof value !== 'object' || value === null) return false;
+  const { o, h, l, c } = value as ChartOhlc;
+  return isFiniteNumber(o) && isFiniteNumber(h) && isFiniteNumber(l) && isFiniteNumber(c);
+}
+
+/**
+ * Estimate the rendered width of text in a sans-serif font
+ * @param text Text to measure
+ * @param fontSize Font size
+ * @returns Approximate width
+ */
+export function estimateTextWidth(text: string, fontSize: number): number {
+  return text.length * fontSize * 0.55;
+}
@@ -0,0 +1,157 @@
+/**
+ * SVG rendering of chart configurations
+ *
+ * Serialises the headless chart scene to standalone SVG markup, so charts can
+ * be embedded in emails and static HTML without Chart.js, a DOM or a canvas.
+ */
+
+import { ChartConfig } from '../types';
+import { parseColor, toHexColor } from '../utils/color';
+import { buildChartScene, SceneElement } from './chart-scene';
+
+/** Font stack for chart labels */
+const FONT_FAMILY = 'Helvetica, Arial, sans-serif';
+
+/**
+ * Render a chart to an SVG document
+ * @param config Chart configuration
+ * @returns SVG markup
+ */
+export function renderChartToSvg(config: ChartConfig): string {
+  const scene = buildChartScene(config);
+  const body = scene.elements.map(renderElement).filter(Boolean).join('\n  ');
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${scene.width}" height="${scene.height}" viewBox="0 0 ${scene.width} ${scene.height}" font-family="${FONT_FAMILY}">`,
+    `  ${body}`,
+    '</svg>'
+  ].join('\n');
+}
+
+/**
+ * Render a single scene element
+ * @param element Scene element
+ * @returns SVG markup, or an empty string if nothing is visible
+ */
+function renderElement(element: SceneElement): string {
+  switch (element.kind) {
+    case 'rect':
+      return `<rect x="${round(element.x)}" y="${round(element.y)}" width="${round(element.width)}" height="${round(element.height)}"${paint(element.fill, element.stroke, element.strokeWidth)}/>`;
+    case 'line': {
+      const dash = element.dash ? ` stroke-dasharray="${element.dash.map(round).join(' ')}"` : '';
+      return `<line x1="${round(element.x1)}" y1="${round(element.y1)}" x2="${round(element.x2)}" y2="${round(element.y2)}"${paint(undefined, element.stroke, element.strokeWidth)}${dash}/>`;
+    }
+    case 'polyline': {
+      if (element.points.length < 2) return '';
+      const points = element.points.map(([x, y]) => `${round(x)},${round(y)}`).join(' ');
+      const tag = element.closed ? 'polygon' : 'polyline';
+      return `<${tag} points="${points}"${paint(element.fill, element.stroke, element.strokeWidth)} stroke-linejoin="round"/>`;
+    }
+    case 'circle':
+      return `<circle cx="${round(element.cx)}" cy="${round(element.cy)}" r="${round(element.r)}"${paint(element.fill, element.stroke, element.strokeWidth)}/>`;
+    case 'sector':
+      return `<path d="${getSectorPath(element)}"${paint(element.fill, element.stroke, element.strokeWidth)}/>`;
+    case 'text':
+      return renderText(element);
+  }
+}
+
+/**
+ * Render a text element, resolving alignment and rotation
+ * @param element Text element
+ * @returns SVG markup
+ */
+function renderText(element: Extract<SceneElement, { kind: 'text' }>): string {
+  const anchor = element.align === 'center' ? 'middle' : element.align === 'right' ? 'end' : 'start';
+
+  // Offset from the anchor to the baseline, as in the PDF renderer, since dominant-baseline support varies
+  const across = element.baseline === 'top'
+    ? element.fontSize * 0.75
+    : element.baseline === 'middle' ? element.fontSize * 0.35 : -element.fontSize * 0.2;
+  const rotation = element.rotation
+    ? ` transform="rotate(${round(-element.rotation)} ${round(element.x)} ${round(element.y)})"`
+    : '';
+  const weight = element.bold ? ' font-weight="bold"' : '';
+
+  return `<text x="${round(element.x)}" y="${round(element.y + across)}" font-size="${round(element.fontSize)}"${weight} text-anchor="${anchor}"${paint(element.color)}${rotation}>${escapeXml(element.text)}</text>`;
+}
+
+/**
+ * Build the outline of a sector as path data
+ * @param sector Sector element
+ * @returns SVG path data
+ */
+function getSectorPath(sector: Extract<SceneElement, { kind: 'sector' }>): string {
+  const { cx, cy, innerRadius, outerRadius } = sector;
+  const sweep = Math.min(sector.endAngle - sector.startAngle, Math.PI * 2);
+  const point = (radius: number, angle: number) =>
+    `${round(cx + Math.cos(angle) * radius)} ${round(cy + Math.sin(angle) * radius)}`;
+
+  // A single arc cannot draw a full circle, so split the sweep in two halves
+  const middle = sector.startAngle + sweep / 2;
+  const end = sector.startAngle + sweep;
+  const arc = (radius: number, to: number, clockwise: boolean) =>
+    `A ${round(radius)} ${round(radius)} 0 0 ${clockwise ? 1 : 0} ${point(radius, to)}`;
+
+  const outer = `M ${point(outerRadius, sector.startAngle)} ${arc(outerRadius, middle, true)} ${arc(outerRadius, end, true)}`;
+  if (innerRadius <= 0) {
+    return `${outer} L ${round(cx)} ${round(cy)} Z`;
+  }
+
+  return `${outer} L ${point(innerRadius, end)} ${arc(innerRadius, middle, false)} ${arc(innerRadius, sector.startAngle, false)} Z`;
+}
+
+/**
+ * Build fill and stroke attributes
+ * @param fill Fill color
+ * @param stroke Stroke color
+ * @param strokeWidth Stroke width
+ * @returns Attribute markup with a leading space
+ */
+function paint(fill?: string, stroke?: string, strokeWidth?: number): string {
+  let attributes = fill ? colorAttributes('fill', fill) : ' fill="none"';
+
+  if (stroke && (strokeWidth ?? 1) > 0) {
+    attributes += `${colorAttributes('stroke', stroke)} stroke-width="${round(strokeWidth ?? 1)}"`;
+  }
+
+  return attributes;
+}
+
+/**
+ * Build a color attribute with a separate opacity, which more clients support than rgba()
+ * @param name Attribute name (fill or stroke)
+ * @param color CSS color
+ * @returns Attribute markup with a leading space
+ */
+function colorAttributes(name: 'fill' | 'stroke', color: string): string {
+  const parsed = parseColor(color);
+  if (parsed.a <= 0) {
+    return ` ${name}="none"`;
+  }
+
+  const opacity = parsed.a < 1 ? ` ${name}-opacity="${round(parsed.a)}"` : '';
+  return ` ${name}="${toHexColor(parsed)}"${opacity}`;
+}
+
+/**
+ * Escape text for XML content
+ * @param text Text
+ * @returns Escaped text
+ */
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Round a coordinate to keep the markup compact
+ * @param value Number
+ * @returns Value rounded to two decimals
+ */
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,569 @@
+/**
+ * Translation of chart configurations to Chart.js
+ */
+
+import type {
+  Chart,
+  ChartConfiguration,
+  ChartData,
+  ChartDataset as ChartJsDataset,
+  ChartOptions as ChartJsOptions,
+  ChartType as ChartJsType,
+  LegendItem,
+  Plugin,
+  Scale,
+  Tick,
+  TooltipItem
+} from 'chart.js';
+import { ChartAnnotation, ChartAxisValue, ChartConfig, ChartDataset, ChartOhlc, ChartOptions, ChartPoint, ChartType, ChartValueAxisOptions } from '../types';
+import { formatDate } from '../utils/date';
+import {
+  ANNOTATION_BOX_COLOR,
+  ANNOTATION_LINE_COLOR,
+  ANNOTATION_TEXT_COLOR,
+  AnnotationAxisKind,
+  getAnnotationAxes,
+  getAnnotationValues,
+  resolveAxisValue
+} from './annotations';
+import { formatTimeTick, getTimeTicks, getTimeUnit } from './time-scale';
+import { MIN_LABEL_SHARE, createTickFormatter, createValueFormatter, formatShare } from './value-format';
+
+/** Chart types Chart.js has no controller for; they are drawn with bars */
+const FINANCIAL_TYPES: ChartType[] = ['candlestick', 'ohlc'];
+
+/** Bar thickness of candlestick wicks and OHLC bars, as a share of the category width */
+const WICK_PERCENTAGE = 0.08;
+
+/** Bar thickness of candlestick bodies, as a share of the category width */
+const BODY_PERCENTAGE = 0.6;
+
+/** Share of the chart height used by volume bars */
+const VOLUME_SHARE = 0.25;
+
+/** Chart.js dataset of a price series; priceParts marks the parts left out of the legend and tooltips */
+type PriceDataset = ChartJsDataset & { priceParts?: boolean; prices?: ChartOhlc[] };
+
+/** Chart types whose data labels and tooltips show each slice's share of the total */
+const SHARE_TYPES: ChartType[] = ['pie', 'doughnut'];
+
+/** Chart types with a radial value scale */
+const RADIAL_SCALE_TYPES: ChartType[] = ['radar', 'polarArea'];
+
+/** Font and color of data labels */
+const DATA_LABEL_FONT = '10px sans-serif';
+const DATA_LABEL_COLOR = '#666666';
+
+/** Space between a data label and its bar or point (px) */
+const DATA_LABEL_GAP = 4;
+
+/** Fonts of annotation line and box labels, and of label annotations */
+const ANNOTATION_LABEL_FONT = 'bold 10px sans-serif';
+const ANNOTATION_TEXT_FONT = '12px sans-serif';
+
+/**
+ * Convert a chart configuration to a Chart.js configuration
+ * @param config Chart configuration
+ * @returns Chart.js configuration
+ */
+export function toChartJsConfig(config: ChartConfig): ChartConfiguration {
+  let chartJsConfig: ChartConfiguration;
+  if (FINANCIAL_TYPES.includes(config.type)) {
+    chartJsConfig = toFinancialChartJsConfig(config);
+  } else if (config.options?.scales?.x?.type === 'time') {
+    chartJsConfig = toTimeChartJsConfig(config);
+  } else {
+    chartJsConfig = {
+      type: config.type,
+      data: config.data,
+      options: toChartJsOptions(config.options)
+    } as ChartConfiguration;
+  }
+
+  return withValueFormat(withAnnotations(chartJsConfig, config), config);
+}
+
+/**
+ * Convert chart options to Chart.js options, moving the title and legend under plugins
+ * @param options Chart options
+ * @returns Chart.js options
+ */
+function toChartJsOptions(options: ChartOptions = {}): ChartJsOptions {
+  const { title, legend, format, dataLabels, annotations, ...rest } = options;
+
+  // Scales keep their extra settings, e.g. format and time, for the translations below
+  return {
+    ...rest,
+    plugins: {
+      ...(title ? { title } : {}),
+      ...(legend ? { legend } : {})
+    }
+  } as ChartJsOptions;
+}
+
+/**
+ * Format value axis ticks, tooltips and data labels with the chart's value format;
+ * charts and axes without a format keep Chart.js's own ticks and tooltips
+ * @param chartJsConfig Chart.js configuration
+ * @param config Chart configuration
+ * @returns Chart.js configuration with formatters
+ */
+function withValueFormat(chartJsConfig: ChartConfiguration, config: ChartConfig): ChartConfiguration {
+  const { format, dataLabels } = config.options || {};
+  const options = chartJsConfig.options || {};
+  const tooltip = options.plugins?.tooltip || {};
+
+  // Datasets on secondary axes are formatted like their axis
+  const secondaryAxes = getSecondaryAxisIds(config);
+  const getAxisFormat = (axisId?: string) =>
+    (axisId && secondaryAxes.includes(axisId) ? (config.options?.scales?.[axisId] as ChartValueAxisOptions).format : undefined) || format;
+  const formatters = new Map<string | undefined, (value: number) => string>();
+  const getFormatter = (axisId?: string) => {
+    if (!formatters.has(axisId)) {
+      formatters.set(axisId, createValueFormatter(getAxisFormat(axisId)));
+    }
+    return formatters.get(axisId) as (value: number) => string;
+  };
+
+  // Pie and doughnut charts have no value axis. The main value axis keeps Chart.js's
+  // own ticks without a format; secondary axes are always marked as y axes
+  let scales = options.scales;
+  if (!SHARE_TYPES.includes(config.type)) {
+    const axis = RADIAL_SCALE_TYPES.includes(config.type) ? 'r' : options.indexAxis === 'y' ? 'x' : 'y';
+    const axes = [...(format ? [axis] : []), ...secondaryAxes];
+    if (axes.length > 0) {
+      const formattedScales: NonNullable<ChartJsOptions['scales']> = { ...options.scales };
+      axes.forEach(axisId => {
+        const scale = options.scales?.[axisId] || {};
+        const axisFormat = axisId === axis ? format : getAxisFormat(axisId);
+        formattedScales[axisId] = {
+          ...scale,
+          ...(axisId === axis ? {} : { axis: 'y' }),
+          ...(axisFormat ? {
+            ticks: {
+              ...scale.ticks,
+              callback: (value: number | string, index: number, ticks: Tick[]) =>
+                createTickFormatter(axisFormat, ticks.map(tick => tick.value))(Number(value))
+            }
+          } : {})
+        };
+      });
+      scales = formattedScales;
+    }
+  }
+
+  // Tooltips keep Chart.js's labels unless a value is formatted or a slice's share is shown
+  const labelTooltips = Boolean(format) || secondaryAxes.some(axisId => getAxisFormat(axisId)) || SHARE_TYPES.includes(config.type);
+
+  return {
+    ...chartJsConfig,
+    ...(dataLabels?.display && !FINANCIAL_TYPES.includes(config.type)
+      ? { plugins: [...(chartJsConfig.plugins || []), createDataLabelsPlugin(config, getFormatter)] }
+      : {}),
+    options: {
+      ...options,
+      ...(scales ? { scales } : {}),
+      ...(labelTooltips ? {
+        plugins: {
+          ...options.plugins,
+          tooltip: {
+            ...tooltip,
+            callbacks: {
+              label: (context: TooltipItem<ChartJsType>) => {
+                if (!SHARE_TYPES.includes(config.type)) {
+                  return `${context.dataset.label}: ${getFormatter(context.dataset.yAxisID)(getRawValue(context.raw))}`;
+                }
+                const value = getRawValue(context.raw);
+                const share = formatShare(value, getTotal(context.dataset.data));
+                return `${context.label}: ${getFormatter()(value)} (${share})`;
+              },
+              ...tooltip.callbacks
+            }
+          }
+        }
+      } : {})
+    }
+  };
+}
+
+/**
+ * Get the secondary value axes of a chart: configured scales other than x and y
+ * that datasets are plotted against
+ * @param config Chart configuration
+ * @returns Scale IDs
+ */
+function getSecondaryAxisIds(config: ChartConfig): string[] {
+  if (SHARE_TYPES.includes(config.type) || RADIAL_SCALE_TYPES.includes(config.type) || config.options?.indexAxis === 'y') {
+    return [];
+  }
+
+  return Object.keys(config.options?.scales || {})
+    .filter(axisId => axisId !== 'x' && axisId !== 'y' && config.data.datasets.some(dataset => dataset.yAxisID === axisId));
+}
+
+/**
+ * Create an inline Chart.js plugin drawing value labels on bars and points, and share
+ * labels on pie and doughnut slices, since Chart.js has no built-in data labels
+ * @param config Chart configuration
+ * @param getFormatter Get the value formatter of a dataset's axis
+ * @returns Chart.js plugin
+ */
+function createDataLabelsPlugin(config: ChartConfig, getFormatter: (axisId?: string) => (value: number) => string): Plugin {
+  const share = SHARE_TYPES.includes(config.type);
+  const scales = config.options?.scales as any;
+  const stacked = Boolean(scales?.x?.stacked || scales?.y?.stacked);
+  const horizontal = config.options?.indexAxis === 'y';
+
+  return {
+    id: 'dataLabels',
+    afterDatasetsDraw: (chart: Chart) => {
+      const { ctx } = chart;
+      ctx.save();
+      ctx.font = DATA_LABEL_FONT;
+      ctx.fillStyle = DATA_LABEL_COLOR;
+
+      chart.data.datasets.forEach((dataset: any, datasetIndex: number) => {
+        if (!chart.isDatasetVisible(datasetIndex)) return;
+        const total = getTotal(dataset.data);
+        const formatValue = getFormatter(dataset.yAxisID);
+
+        chart.getDatasetMeta(datasetIndex).data.forEach((element: any, index: number) => {
+          const value = getRawValue(dataset.data[index]);
+          if (!isFinite(value) || (share && (total === 0 || value / total < MIN_LABEL_SHARE))) return;
+
+          const text = share ? formatShare(value, total) : formatValue(value);
+          const { x, y } = element.tooltipPosition();
+
+          // Same placement as the server-side renderers: inside slices and stacked bars, past the end of other bars
+          if (share || stacked) {
+            const center = share ? { x, y } : element.getCenterPoint();
+            ctx.textAlign = 'center';
+            ctx.textBaseline = 'middle';
+            ctx.fillText(text, center.x, center.y);
+          } else if (horizontal) {
+            ctx.textAlign = value >= 0 ? 'left' : 'right';
+            ctx.textBaseline = 'middle';
+            ctx.fillText(text, x + (value >= 0 ? DATA_LABEL_GAP : -DATA_LABEL_GAP), y);
+          } else {
+            ctx.textAlign = 'center';
+            ctx.textBaseline = value >= 0 ? 'bottom' : 'top';
+            ctx.fillText(text, x, y + (value >= 0 ? -DATA_LABEL_GAP : DATA_LABEL_GAP));
+          }
+        });
+      });
+
+      ctx.restore();
+    }
+  };
+}
+
+/**
+ * Draw the chart's annotations with an inline Chart.js plugin, widening the axes to include them
+ * @param chartJsConfig Chart.js configuration
+ * @param config Chart configuration
+ * @returns Chart.js configuration with annotations
+ */
+function withAnnotations(chartJsConfig: ChartConfiguration, config: ChartConfig): ChartConfiguration {
+  const annotations = config.options?.annotations || [];
+  const axes = getAnnotationAxes(config);
+  if (!axes || annotations.length === 0) return chartJsConfig;
+
+  const scales = { ...chartJsConfig.options?.scales };
+  (['x', 'y'] as const).forEach(axis => {
+    const values = getAnnotationValues(annotations, axis, axes[axis]);
+    if (values.length === 0) return;
+
+    const scale = scales[axis] || {};
+    scales[axis] = {
+      ...scale,
+      suggestedMin: Math.min(...values, Number(scale.suggestedMin ?? Infinity)),
+      suggestedMax: Math.max(...values, Number(scale.suggestedMax ?? -Infinity))
+    };
+  });
+
+  return {
+    ...chartJsConfig,
+    plugins: [...(chartJsConfig.plugins || []), createAnnotationsPlugin(annotations, axes, config.data.labels)],
+    options: { ...chartJsConfig.options, scales }
+  };
+}
+
+/**
+ * Create an inline Chart.js plugin drawing boxes behind the datasets and lines and labels over them
+ * @param annotations Annotations
+ * @param axes How values resolve on each axis
+ * @param labels Category labels
+ * @returns Chart.js plugin
+ */
+function createAnnotationsPlugin(
+  annotations: ChartAnnotation[],
+  axes: Record<'x' | 'y', AnnotationAxisKind>,
+  labels: string[]
+): Plugin {
+  const draw = (chart: Chart, layer: 'below' | 'above') => {
+    const { ctx, chartArea: area } = chart;
+    const position = (axis: 'x' | 'y', value: ChartAxisValue | undefined, fallback: number): number | null => {
+      if (value === undefined) return fallback;
+      const resolved = resolveAxisValue(value, axes[axis], labels);
+      return resolved === null ? null : chart.scales[axis].getPixelForValue(resolved);
+    };
+
+    // Clip to the plot area like the server-side renderers
+    ctx.save();
+    ctx.beginPath();
+    ctx.rect(area.left, area.top, area.right - area.left, area.bottom - area.top);
+    ctx.clip();
+
+    annotations.forEach(annotation => {
+      if ((annotation.type === 'box') !== (layer === 'below')) return;
+
+      switch (annotation.type) {
+        case 'box': {
+          const x1 = position('x', annotation.xMin, area.left);
+          const x2 = position('x', annotation.xMax, area.right);
+          const y1 = position('y', annotation.yMin, area.bottom);
+          const y2 = position('y', annotation.yMax, area.top);
+          if (x1 === null || x2 === null || y1 === null || y2 === null) return;
+
+          const left = Math.max(Math.min(x1, x2), area.left);
+          const top = Math.max(Math.min(y1, y2), area.top);
+          const width = Math.min(Math.max(x1, x2), area.right) - left;
+          const height = Math.min(Math.max(y1, y2), area.bottom) - top;
+          ctx.fillStyle = annotation.color || ANNOTATION_BOX_COLOR;
+          ctx.fillRect(left, top, width, height);
+          if (annotation.borderColor) {
+            ctx.strokeStyle = annotation.borderColor;
+            ctx.lineWidth = 1;
+            ctx.strokeRect(left, top, width, height);
+          }
+          if (annotation.label) {
+            ctx.font = DATA_LABEL_FONT;
+            ctx.fillStyle = ANNOTATION_TEXT_COLOR;
+            ctx.textAlign = 'left';
+            ctx.textBaseline = 'top';
+            ctx.fillText(annotation.label, left + 4, top + 4);
+          }
+          break;
+        }
+        case 'line': {
+          const at = position(annotation.axis, annotation.value, NaN);
+          if (at === null || !isFinite(at)) return;
+
+          const horizontal = annotation.axis === 'y';
+          ctx.strokeStyle = annotation.color || ANNOTATION_LINE_COLOR;
+          ctx.lineWidth = annotation.width ?? 2;
+          ctx.setLineDash(annotation.dash || []);
+          ctx.beginPath();
+          ctx.moveTo(horizontal ? area.left : at, horizontal ? at : area.top);
+          ctx.lineTo(horizontal ? area.right : at, horizontal ? at : area.bottom);
+          ctx.stroke();
+          ctx.setLineDash([]);
+
+          // Horizontal lines are labelled at their right end, vertical lines at their top on the side with more room
+          if (annotation.label) {
+            const left = !horizontal && at > (area.left + area.right) / 2;
+            ctx.font = ANNOTATION_LABEL_FONT;
+            ctx.fillStyle = annotation.color || ANNOTATION_LINE_COLOR;
+            ctx.textAlign = horizontal || left ? 'right' : 'left';
+            ctx.textBaseline = horizontal ? 'bottom' : 'top';
+            ctx.fillText(annotation.label, horizontal ? area.right - 4 : left ? at - 4 : at + 4, horizontal ? at - 3 : area.top + 2);
+          }
+          break;
+        }
+        case 'label': {
+          const x = position('x', annotation.x, NaN);
+          const y = position('y', annotation.y, NaN);
+          if (x === null || y === null) return;
+
+          ctx.font = ANNOTATION_TEXT_FONT;
+          ctx.fillStyle = annotation.color || ANNOTATION_TEXT_COLOR;
+          ctx.textAlign = 'center';
+          ctx.textBaseline = 'middle';
+          ctx.fillText(annotation.text, x, y);
+          break;
+        }
+      }
+    });
+
+    ctx.restore();
+  };
+
+  return {
+    id: 'annotations',
+    beforeDatasetsDraw: (chart: Chart) => draw(chart, 'below'),
+    afterDatasetsDraw: (chart: Chart) => draw(chart, 'above')
+  };
+}
+
+/**
+ * Get the value of a data item: a number, the size of a floating bar or the y of a point
+ * @param value Data item
+ * @returns Value, NaN when there is none
+ */
+function getRawValue(value: unknown): number {
+  if (typeof value === 'number') return value;
+  if (Array.isArray(value)) return value[1] - value[0];
+  if (value && typeof value === 'object' && typeof (value as ChartPoint).y === 'number') return (value as ChartPoint).y;
+  return NaN;
+}
+
+/**
+ * Sum the positive values of a dataset
+ * @param data Dataset values
+ * @returns Total
+ */
+function getTotal(data: unknown[]): number {
+  return data.map(getRawValue).filter(value => isFinite(value) && value > 0).reduce((sum, value) => sum + value, 0);
+}
+
+/**
+ * Convert a chart on a time scale to a linear scale of timestamps with date ticks,
+ * so no Chart.js date adapter is needed
+ * @param config Time series chart configuration
+ * @returns Chart.js configuration
+ */
+function toTimeChartJsConfig(config: ChartConfig): ChartConfiguration {
+  const options = toChartJsOptions(config.options);
+  const { time = {}, ...x } = config.options?.scales?.x || {};
+  const timestamps = config.data.datasets.flatMap(dataset =>
+    dataset.data
+      .map(value => (value as ChartPoint)?.x)
+      .filter((value): value is number => typeof value === 'number' && isFinite(value))
+  );
+  const min = timestamps.length > 0 ? Math.min(...timestamps) : 0;
+  const max = timestamps.length > 0 ? Math.max(...timestamps) : 0;
+  const unit = time.unit || getTimeUnit(min, max);
+
+  return {
+    type: config.type as ChartJsType,
+    data: config.data as ChartConfiguration['data'],
+    options: {
+      ...options,
+      scales: {
+        ...options.scales,
+        x: {
+          ...x,
+          type: 'linear',
+          offset: config.type === 'bar',
+          afterBuildTicks: (axis: Scale) => {
+            axis.ticks = getTimeTicks(axis.min, axis.max, unit).map(value => ({ value }));
+          },
+          ticks: {
+            callback: (value: number | string) => formatTimeTick(Number(value), unit, time.displayFormat)
+          }
+        }
+      },
+      plugins: {
+        ...options.plugins,
+        tooltip: {
+          ...options.plugins?.tooltip,
+          callbacks: {
+            title: (items: TooltipItem<ChartJsType>[]) =>
+              (items.length > 0 ? formatDate(new Date(items[0].parsed.x), time.tooltipFormat || 'YYYY-MM-DD') : '')
+          }
+        }
+      }
+    }
+  };
+}
+
+/**
+ * Convert a candlestick or OHLC chart to floating bars: a thin high-low bar per
+ * period, with an open-close body for candlesticks or open and close ticks for OHLC
+ * @param config Financial chart configuration
+ * @returns Chart.js bar chart configuration
+ */
+function toFinancialChartJsConfig(config: ChartConfig): ChartConfiguration {
+  const options = toChartJsOptions(config.options);
+  const formatValue = createValueFormatter(config.options?.format);
+  const datasets = config.data.datasets.flatMap((dataset): PriceDataset[] => {
+    const type = dataset.type || config.type;
+    return FINANCIAL_TYPES.includes(type) ? toPriceDatasets(dataset, type) : [dataset as ChartJsDataset];
+  });
+
+  // Keep volume bars at the bottom by stretching their axis
+  const volumes = config.data.datasets
+    .filter(dataset => dataset.yAxisID === 'volume')
+    .flatMap(dataset => dataset.data.filter((value): value is number => typeof value === 'number' && isFinite(value)));
+  const scales: NonNullable<ChartJsOptions['scales']> = { ...options.scales, y: { ...options.scales?.y, beginAtZero: false } };
+  if (volumes.length > 0) {
+    scales.volume = {
+      position: 'right',
+      beginAtZero: true,
+      max: Math.max(...volumes) / VOLUME_SHARE,
+      grid: { display: false },
+      ticks: { display: false }
+    };
+  }
+
+  return {
+    type: 'bar',
+    data: { labels: config.data.labels, datasets },
+    options: {
+      ...options,
+      scales,
+      plugins: {
+        ...options.plugins,
+        legend: {
+          ...options.plugins?.legend,
+          labels: { filter: (item: LegendItem, data: ChartData) => !(data.datasets[item.datasetIndex ?? 0] as PriceDataset).priceParts }
+        },
+        tooltip: {
+          ...options.plugins?.tooltip,
+          filter: (item: TooltipItem<ChartJsType>) => !(item.dataset as PriceDataset).priceParts,
+          callbacks: {
+            label: (context: TooltipItem<ChartJsType>) => {
+              const price = (context.dataset as PriceDataset).prices?.[context.dataIndex];
+              return price
+                ? `${context.dataset.label}: O ${formatValue(price.o)} H ${formatValue(price.h)} L ${formatValue(price.l)} C ${formatValue(price.c)}`
+                : `${context.dataset.label}: ${context.formattedValue}`;
+            }
+          }
+        }
+      }
+    }
+  };
+}
+
+/**
+ * Split a price dataset into the Chart.js datasets that draw it
+ * @param dataset Candlestick or OHLC dataset
+ * @param type Dataset type
+ * @returns Chart.js datasets; the first carries the label, legend entry and tooltip
+ */
+function toPriceDatasets(dataset: ChartDataset, type: ChartType): PriceDataset[] {
+  const prices = dataset.data as ChartOhlc[];
+  const common = {
+    type: 'bar' as const,
+    backgroundColor: dataset.borderColor,
+    borderColor: dataset.borderColor,
+    borderWidth: 0,
+    grouped: false,
+    yAxisID: dataset.yAxisID
+  };
+
+  const wicks = { ...common, label: `${dataset.label} range`, data: prices.map((price): [number, number] => [price.l, price.h]), barPercentage: WICK_PERCENTAGE, priceParts: true };
+
+  if (type === 'ohlc') {
+    // Ticks drawn as horizontal line points at the open and close
+    const tick = { type: 'line' as const, showLine: false, pointStyle: 'line' as const, pointRadius: 6, pointBorderWidth: 2, pointBorderColor: dataset.borderColor, yAxisID: dataset.yAxisID };
+    return [
+      { ...wicks, label: dataset.label, priceParts: false, prices },
+      { ...tick, label: `${dataset.label} open`, data: prices.map(price => price.o), priceParts: true },
+      { ...tick, label: `${dataset.label} close`, data: prices.map(price => price.c), priceParts: true }
+    ];
+  }
+
+  return [
+    {
+      ...common,
+      label: dataset.label,
+      data: prices.map((price): [number, number] => [price.o, price.c]),
+      backgroundColor: dataset.backgroundColor,
+      borderWidth: dataset.borderWidth ?? 1,
+      barPercentage: BODY_PERCENTAGE,
+      prices
+    },
+    wicks
+  ];
+}
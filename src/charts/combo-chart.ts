@@ -0,0 +1,75 @@
+/**
+ * Combo chart component for financial reports
+ */
+
+import { ChartConfig, ChartDataset, ChartOptions, ChartValueAxisOptions, ComboChartSeries } from '../types';
+import { validateChartAxes } from './chart-factory';
+import { getSeriesColor } from './palette';
+
+/**
+ * Generate a chart mixing bar and line series, e.g. revenue bars with a
+ * margin line on a right-hand percentage axis.
+ * Axes referenced by yAxisID are drawn on the right unless configured in options.scales.
+ * @param labels Category labels
+ * @param series Bar and line series
+ * @param options Chart options; scales may configure each value axis, including its format
+ * @returns Combo chart configuration
+ */
+export function createComboChart(
+  labels: string[],
+  series: ComboChartSeries[],
+  options: Partial<ChartOptions> = {}
+): ChartConfig {
+  const datasets: ChartDataset[] = series.map((item, index) => {
+    const type = item.type || 'bar';
+    
+    return {
+      label: item.label,
+      data: item.data.map(value => value ?? NaN),
+      type,
+      yAxisID: item.yAxisID || 'y',
+      backgroundColor: item.color || getSeriesColor(index, type === 'bar' ? 0.6 : undefined),
+      borderColor: item.color || getSeriesColor(index),
+      borderWidth: type === 'bar' ? 1 : 2,
+      fill: false
+    };
+  });
+  
+  // Secondary axes go on the right without grid lines, so they do not clash with the primary grid
+  const scales: NonNullable<ChartOptions['scales']> = { ...options.scales };
+  datasets.forEach(dataset => {
+    const axisId = dataset.yAxisID as string;
+    if (axisId === 'y' || axisId === 'x') return;
+    
+    scales[axisId] = {
+      position: 'right',
+      grid: {
+        display: false
+      },
+      ...(options.scales?.[axisId] as ChartValueAxisOptions)
+    };
+  });
+  
+  const config: ChartConfig = {
+    type: 'bar',
+    data: {
+      labels,
+      datasets
+    },
+    options: {
+      responsive: true,
+      maintainAspectRatio: false,
+      ...options,
+      scales: {
+        ...scales,
+        y: {
+          beginAtZero: true,
+          ...options.scales?.y
+        }
+      }
+    }
+  };
+  
+  validateChartAxes(config);
+  return config;
+}
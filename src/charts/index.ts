@@ -5,4 +5,8 @@
 export * from './bar-chart';
 export * from './line-chart';
 export * from './pie-chart';
-export * from './chart-factory'; 
\ No newline at end of file
+export * from './candlestick-chart';
+export * from './time-series-chart';
+export * from './combo-chart';
+export * from './chart-factory';
+export * from './chart-svg'; 
\ No newline at end of file
@@ -3,6 +3,7 @@
  */
 
 import { ChartConfig, ChartOptions } from '../types';
+import { getSeriesColor, getSeriesColors } from './palette';
 
 /**
  * Generate a line chart configuration
@@ -45,8 +46,8 @@ function createSingleDatasetLineChart(
         {
           label: options.title?.text || 'Data',
           data,
-          backgroundColor: 'rgba(75, 192, 192, 0.2)',
-          borderColor: 'rgba(75, 192, 192, 1)',
+          backgroundColor: getSeriesColor(0, 0.2),
+          borderColor: getSeriesColor(0),
           borderWidth: 2,
           fill: false,
           tension: 0.4
@@ -89,8 +90,8 @@ function createMultiDatasetLineChart(
   options: Partial<ChartOptions> = {}
 ): ChartConfig {
   // Generate colors for datasets
-  const colors = getDefaultColors(data.length);
-  const borderColors = getDefaultBorderColors(data.length);
+  const colors = getSeriesColors(data.length, 0.2);
+  const borderColors = getSeriesColors(data.length);
   
   // Create datasets
   const datasets = data.map((dataSet, index) => ({
@@ -178,56 +179,4 @@ export function createSteppedLineChart(
   }));
   
   return config;
-}
-
-/**
- * Get default colors for chart datasets (transparent for area charts)
- * @param count Number of colors needed
- * @returns Array of colors
- */
-function getDefaultColors(count: number): string[] {
-  const baseColors = [
-    'rgba(75, 192, 192, 0.2)',   // Teal
-    'rgba(54, 162, 235, 0.2)',   // Blue
-    'rgba(153, 102, 255, 0.2)',  // Purple
-    'rgba(255, 159, 64, 0.2)',   // Orange
-    'rgba(255, 99, 132, 0.2)',   // Red
-    'rgba(255, 205, 86, 0.2)',   // Yellow
-    'rgba(201, 203, 207, 0.2)',  // Grey
-    'rgba(94, 232, 129, 0.2)',   // Green
-  ];
-  
-  // If we need more colors than are available, cycle through them
-  const colors: string[] = [];
-  for (let i = 0; i < count; i++) {
-    colors.push(baseColors[i % baseColors.length]);
-  }
-  
-  return colors;
-}
-
-/**
- * Get default border colors for chart datasets
- * @param count Number of colors needed
- * @returns Array of border colors
- */
-function getDefaultBorderColors(count: number): string[] {
-  const baseBorderColors = [
-    'rgb(75, 192, 192)',   // Teal
-    'rgb(54, 162, 235)',   // Blue
-    'rgb(153, 102, 255)',  // Purple
-    'rgb(255, 159, 64)',   // Orange
-    'rgb(255, 99, 132)',   // Red
-    'rgb(255, 205, 86)',   // Yellow
-    'rgb(201, 203, 207)',  // Grey
-    'rgb(94, 232, 129)',   // Green
-  ];
-  
-  // If we need more colors than are available, cycle through them
-  const borderColors: string[] = [];
-  for (let i = 0; i < count; i++) {
-    borderColors.push(baseBorderColors[i % baseBorderColors.length]);
-  }
-  
-  return borderColors;
 } 
\ No newline at end of file
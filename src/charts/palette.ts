@@ -0,0 +1,61 @@
+/**
+ * Default series colors shared by the chart builders, the chart scene and PDF themes
+ */
+
+import { parseColor } from '../utils/color';
+
+/** Palette colors by name, for charts that give colors a meaning */
+export const PALETTE = {
+  teal: 'rgb(75, 192, 192)',
+  blue: 'rgb(54, 162, 235)',
+  purple: 'rgb(153, 102, 255)',
+  orange: 'rgb(255, 159, 64)',
+  red: 'rgb(255, 99, 132)',
+  yellow: 'rgb(255, 205, 86)',
+  grey: 'rgb(201, 203, 207)',
+  green: 'rgb(94, 232, 129)',
+};
+
+/** Series colors in the order datasets use them; PDF themes swap them by position */
+export const SERIES_COLORS = [
+  PALETTE.teal,
+  PALETTE.blue,
+  PALETTE.purple,
+  PALETTE.orange,
+  PALETTE.red,
+  PALETTE.yellow,
+  PALETTE.grey,
+  PALETTE.green,
+];
+
+/**
+ * Get the palette color for a series, cycling through the palette
+ * @param index Series index
+ * @param alpha Opacity for fills (default: opaque)
+ * @returns Color in rgb() or rgba() notation
+ */
+export function getSeriesColor(index: number, alpha?: number): string {
+  const color = SERIES_COLORS[index % SERIES_COLORS.length];
+  return alpha === undefined ? color : withAlpha(color, alpha);
+}
+
+/**
+ * Get palette colors for a number of series or slices
+ * @param count Number of colors needed
+ * @param alpha Opacity for fills (default: opaque)
+ * @returns Array of colors
+ */
+export function getSeriesColors(count: number, alpha?: number): string[] {
+  return Array.from({ length: count }, (_, index) => getSeriesColor(index, alpha));
+}
+
+/**
+ * Replace the opacity of a color
+ * @param color CSS color
+ * @param alpha Opacity between 0 and 1
+ * @returns Color in rgba() notation
+ */
+export function withAlpha(color: string, alpha: number): string {
+  const { r, g, b } = parseColor(color);
+  return `rgba(${r}, ${g}, ${b}, ${alpha})`;
+}
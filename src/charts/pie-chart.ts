@@ -3,6 +3,7 @@
  */
 
 import { ChartConfig, ChartOptions } from '../types';
+import { getSeriesColors } from './palette';
 
 /**
  * Generate a pie chart configuration
@@ -17,8 +18,8 @@ export function createPieChart(
   options: Partial<ChartOptions> = {}
 ): ChartConfig {
   // Generate colors for the pie slices
-  const backgroundColors = getDefaultColors(data.length);
-  const borderColors = getDefaultBorderColors(data.length);
+  const backgroundColors = getSeriesColors(data.length, 0.6);
+  const borderColors = getSeriesColors(data.length);
   
   return {
     type: 'pie',
@@ -83,55 +84,3 @@ export function createPolarAreaChart(
   
   return config;
 }
-
-/**
- * Get default colors for chart datasets
- * @param count Number of colors needed
- * @returns Array of colors
- */
-function getDefaultColors(count: number): string[] {
-  const baseColors = [
-    'rgba(255, 99, 132, 0.6)',   // Red
-    'rgba(54, 162, 235, 0.6)',   // Blue
-    'rgba(255, 205, 86, 0.6)',   // Yellow
-    'rgba(75, 192, 192, 0.6)',   // Teal
-    'rgba(153, 102, 255, 0.6)',  // Purple
-    'rgba(255, 159, 64, 0.6)',   // Orange
-    'rgba(201, 203, 207, 0.6)',  // Grey
-    'rgba(94, 232, 129, 0.6)',   // Green
-  ];
-  
-  // If we need more colors than are available, cycle through them
-  const colors: string[] = [];
-  for (let i = 0; i < count; i++) {
-    colors.push(baseColors[i % baseColors.length]);
-  }
-  
-  return colors;
-}
-
-/**
- * Get default border colors for chart datasets
- * @param count Number of colors needed
- * @returns Array of border colors
- */
-function getDefaultBorderColors(count: number): string[] {
-  const baseBorderColors = [
-    'rgb(255, 99, 132)',   // Red
-    'rgb(54, 162, 235)',   // Blue
-    'rgb(255, 205, 86)',   // Yellow
-    'rgb(75, 192, 192)',   // Teal
-    'rgb(153, 102, 255)',  // Purple
-    'rgb(255, 159, 64)',   // Orange
-    'rgb(201, 203, 207)',  // Grey
-    'rgb(94, 232, 129)',   // Green
-  ];
-  
-  // If we need more colors than are available, cycle through them
-  const borderColors: string[] = [];
-  for (let i = 0; i < count; i++) {
-    borderColors.push(baseBorderColors[i % baseBorderColors.length]);
-  }
-  
-  return borderColors;
-}
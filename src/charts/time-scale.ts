@@ -0,0 +1,109 @@
+/**
+ * Time scale ticks for time series charts
+ */
+
+import { TimeUnit } from '../types';
+import { formatDate } from '../utils/date';
+
+/** Units from the finest to the coarsest */
+const TIME_UNITS: TimeUnit[] = ['day', 'week', 'month', 'quarter', 'year'];
+
+/** Approximate length of each unit (ms) */
+const UNIT_LENGTHS: Record<TimeUnit, number> = {
+  day: 86400000,
+  week: 7 * 86400000,
+  month: 30.44 * 86400000,
+  quarter: 91.31 * 86400000,
+  year: 365.25 * 86400000
+};
+
+/** Default tick label formats */
+const DEFAULT_FORMATS: Record<TimeUnit, string> = {
+  day: 'D MMM',
+  week: 'D MMM',
+  month: 'MMM YYYY',
+  quarter: '[Q]Q YYYY',
+  year: 'YYYY'
+};
+
+/**
+ * Pick the finest unit that keeps the number of ticks readable
+ * @param min Start of the range (ms)
+ * @param max End of the range (ms)
+ * @param maxTicks Maximum number of ticks
+ * @returns Tick unit
+ */
+export function getTimeUnit(min: number, max: number, maxTicks: number = 12): TimeUnit {
+  const unit = TIME_UNITS.find(candidate => (max - min) / UNIT_LENGTHS[candidate] <= maxTicks);
+  return unit || 'year';
+}
+
+/**
+ * Get tick timestamps at the start of each unit within a range. Weeks start on Monday.
+ * @param min Start of the range (ms)
+ * @param max End of the range (ms)
+ * @param unit Tick unit
+ * @returns Tick timestamps
+ */
+export function getTimeTicks(min: number, max: number, unit: TimeUnit): number[] {
+  const current = startOfUnit(new Date(min), unit);
+  if (current.getTime() < min) {
+    advance(current, unit);
+  }
+
+  const ticks: number[] = [];
+  while (current.getTime() <= max) {
+    ticks.push(current.getTime());
+    advance(current, unit);
+  }
+
+  return ticks;
+}
+
+/**
+ * Format a tick label
+ * @param timestamp Tick timestamp (ms)
+ * @param unit Tick unit
+ * @param format Date format (default: depends on the unit)
+ * @returns Tick label
+ */
+export function formatTimeTick(timestamp: number, unit: TimeUnit, format?: string): string {
+  return formatDate(new Date(timestamp), format || DEFAULT_FORMATS[unit]);
+}
+
+/**
+ * Get the start of the unit containing a date
+ * @param date Date
+ * @param unit Time unit
+ * @returns New date at the start of the unit
+ */
+function startOfUnit(date: Date, unit: TimeUnit): Date {
+  const start = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+  if (unit === 'week') {
+    start.setDate(start.getDate() - ((start.getDay() + 6) % 7));
+  } else if (unit === 'month') {
+    start.setDate(1);
+  } else if (unit === 'quarter') {
+    start.setMonth(start.getMonth() - (start.getMonth() % 3), 1);
+  } else if (unit === 'year') {
+    start.setMonth(0, 1);
+  }
+
+  return start;
+}
+
+/**
+ * Move a date forward by one unit
+ * @param date Date (updated)
+ * @param unit Time unit
+ */
+function advance(date: Date, unit: TimeUnit): void {
+  if (unit === 'day') {
+    date.setDate(date.getDate() + 1);
+  } else if (unit === 'week') {
+    date.setDate(date.getDate() + 7);
+  } else {
+    date.setMonth(date.getMonth() + (unit === 'month' ? 1 : unit === 'quarter' ? 3 : 12));
+  }
+}
@@ -0,0 +1,71 @@
+/**
+ * Value formatting for chart axes, tooltips and data labels
+ */
+
+import { ChartValueFormat } from '../types';
+import { formatCurrency, formatNumber, formatPercentage } from '../utils/currency';
+
+/** Decimal places of pie and doughnut shares */
+const SHARE_DECIMALS = 1;
+
+/** Smallest pie or doughnut slice that gets a data label, as a share of the total */
+export const MIN_LABEL_SHARE = 0.03;
+
+/**
+ * Create a formatter for chart values
+ * @param format Value format
+ * @param decimals Decimal places when the format sets none (default: 2, or the currency's minor units)
+ * @returns Formatter
+ */
+export function createValueFormatter(format: ChartValueFormat = {}, decimals?: number): (value: number) => string {
+  const decimalPlaces = format.decimals ?? decimals;
+
+  switch (format.style) {
+    case 'currency':
+      return value => formatCurrency(value, format.currency, format.locale, format.compact ? format.decimals : decimalPlaces, format.compact);
+    case 'percentage':
+      return value => formatPercentage(value, decimalPlaces ?? 2);
+    default:
+      if (!format.compact && !format.locale) {
+        return value => formatNumber(value, decimalPlaces ?? 2);
+      }
+
+      // Compact values drop trailing zeros unless the decimal places are fixed
+      return value => new Intl.NumberFormat(format.locale || 'en-US', {
+        notation: format.compact ? 'compact' : 'standard',
+        minimumFractionDigits: format.compact && format.decimals === undefined ? 0 : decimalPlaces ?? 2,
+        maximumFractionDigits: format.compact && format.decimals === undefined ? 2 : decimalPlaces ?? 2
+      }).format(value);
+  }
+}
+
+/**
+ * Format a slice's share of a total as a percentage
+ * @param value Slice value
+ * @param total Total of all slices
+ * @returns Share, e.g. 25.0%
+ */
+export function formatShare(value: number, total: number): string {
+  return formatPercentage(total === 0 ? 0 : (value / total) * 100, SHARE_DECIMALS);
+}
+
+/**
+ * Create a formatter for the ticks of a value axis
+ * @param format Value format
+ * @param ticks Tick values
+ * @returns Formatter
+ */
+export function createTickFormatter(format: ChartValueFormat | undefined, ticks: number[]): (value: number) => string {
+  return createValueFormatter(format, getTickDecimals(ticks));
+}
+
+/**
+ * Get the number of decimals needed to display tick values
+ * @param ticks Tick values
+ * @returns Decimal places
+ */
+export function getTickDecimals(ticks: number[]): number {
+  if (ticks.length < 2) return 0;
+  const step = Math.abs(ticks[1] - ticks[0]);
+  return step >= 1 ? 0 : Math.min(Math.ceil(-Math.log10(step)), 6);
+}
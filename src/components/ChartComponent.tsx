@@ -1,6 +1,7 @@
 import React, { useEffect, useRef } from 'react';
 import Chart from 'chart.js/auto';
 import { ChartConfig } from '../types/chart';
+import { toChartJsConfig } from '../charts/chartjs-options';
 
 interface ChartComponentProps {
   /**
@@ -50,11 +51,7 @@ const ChartComponent: React.FC<ChartComponentProps> = ({
       const ctx = chartRef.current.getContext('2d');
       
       if (ctx) {
-        chartInstance.current = new Chart(ctx, {
-          type: config.type,
-          data: config.data,
-          options: config.options
-        });
+        chartInstance.current = new Chart(ctx, toChartJsConfig(config));
         
         // Call onChartReady callback if provided
         if (onChartReady && chartInstance.current) {
@@ -4,4 +4,5 @@
 
 export * from './report';
 export * from './data-processor';
-export * from './formatter'; 
\ No newline at end of file
+export * from './formatter'; 
+export * from './themes';
\ No newline at end of file
@@ -2,8 +2,9 @@
  * Core report generation functionality
  */
 
-import { ReportConfig, ReportSection } from '../types/report';
-import { generateCharts } from '../charts/chart-factory';
+import { ReportConfig, ReportSection, SignoffContent, LayoutContent } from '../types/report';
+import { ChartConfig } from '../types/chart';
+import { generateCharts, validateChartAxes } from '../charts/chart-factory';
 import { processReconciliation } from '../reconciliation/matcher';
 import { formatCurrency, formatNumber } from '../utils/currency';
 import { formatDate } from '../utils/date';
@@ -28,6 +29,9 @@ export function generateReport(config: ReportConfig) {
     company: config.company,
     sections: processedSections,
     pageConfig: config.pageConfig,
+    status: config.status,
+    cover: config.cover,
+    executiveSummary: config.executiveSummary,
     metadata: {
       generatedAt: new Date(),
       version: '0.1.0',
@@ -54,20 +58,96 @@ function validateReportConfig(config: ReportConfig) {
 
   // Validate each section
   config.sections.forEach((section, index) => {
-    if (!section.title) {
-      throw new Error(`Section ${index + 1} must have a title`);
+    validateSection(section, `Section ${index + 1}`, true);
+  });
+}
+
+/**
+ * Validate a report section
+ * @param section Section to validate
+ * @param label Section label used in error messages
+ * @param requireTitle Whether the section must have a title; sections inside layouts may omit it
+ */
+function validateSection(section: ReportSection, label: string, requireTitle: boolean) {
+  if (requireTitle && !section.title) {
+    throw new Error(`${label} must have a title`);
+  }
+
+  if (!section.type) {
+    throw new Error(`${label} must have a type`);
+  }
+
+  if (!section.content) {
+    throw new Error(`${label} must have content`);
+  }
+
+  if (section.type === 'signoff') {
+    validateSignoffContent(section.content as SignoffContent, label);
+  }
+
+  if (section.type === 'layout') {
+    validateLayoutContent(section.content as LayoutContent, label);
+  }
+
+  if (section.type === 'chart') {
+    validateChartAxes(section.content as ChartConfig, label);
+  }
+}
+
+/**
+ * Validate the signatories of a sign-off section
+ * @param content Sign-off content to validate
+ * @param label Section label used in error messages
+ */
+function validateSignoffContent(content: SignoffContent, label: string) {
+  if (!Array.isArray(content.signatories) || content.signatories.length === 0) {
+    throw new Error(`${label} must have at least one signatory`);
+  }
+
+  content.signatories.forEach((signatory, signatoryIndex) => {
+    const signatoryLabel = `${label} signatory ${signatoryIndex + 1}`;
+
+    if (!signatory.role) {
+      throw new Error(`${signatoryLabel} must have a role`);
     }
 
-    if (!section.type) {
-      throw new Error(`Section ${index + 1} must have a type`);
+    if (!signatory.name) {
+      throw new Error(`${signatoryLabel} must have a name`);
     }
 
-    if (!section.content) {
-      throw new Error(`Section ${index + 1} must have content`);
+    if (signatory.date !== undefined && (!(signatory.date instanceof Date) || isNaN(signatory.date.getTime()))) {
+      throw new Error(`${signatoryLabel} has an invalid date`);
     }
   });
 }
 
+/**
+ * Validate the rows and child sections of a layout section
+ * @param content Layout content to validate
+ * @param label Section label used in error messages
+ */
+function validateLayoutContent(content: LayoutContent, label: string) {
+  if (!Array.isArray(content.rows) || content.rows.length === 0) {
+    throw new Error(`${label} must have at least one row`);
+  }
+
+  content.rows.forEach((row, rowIndex) => {
+    const rowLabel = `${label} row ${rowIndex + 1}`;
+
+    if (!Array.isArray(row.sections) || row.sections.length === 0) {
+      throw new Error(`${rowLabel} must have at least one section`);
+    }
+
+    if (row.widths && row.widths.some(width => !(width > 0))) {
+      throw new Error(`${rowLabel} widths must be positive numbers`);
+    }
+
+    row.sections.forEach((child, childIndex) => {
+      validateSection(child, `${rowLabel} section ${childIndex + 1}`, false);
+    });
+  });
+}
+
 /**
  * Process a report section
  * @param section Report section to process
@@ -84,13 +164,33 @@ function processSection(section: ReportSection) {
       return processTableSection(section);
     case 'summary':
       return processSummarySection(section);
+    case 'layout':
+      return processLayoutSection(section);
     case 'text':
-      return section; // No processing needed for text sections
+    case 'signoff':
+      return section; // No processing needed for text and sign-off sections
     default:
       return section;
   }
 }
 
+/**
+ * Process the child sections of a layout section
+ * @param section Layout section to process
+ * @returns Processed layout section
+ */
+function processLayoutSection(section: ReportSection): ReportSection {
+  const content = section.content as LayoutContent;
+
+  return {
+    ...section,
+    content: {
+      ...content,
+      rows: content.rows.map(row => ({ ...row, sections: row.sections.map(child => processSection(child)) }))
+    }
+  };
+}
+
 /**
  * Process a chart section
  * @param section Chart section to process
@@ -143,6 +243,19 @@ function processSummarySection(section: ReportSection) {
   return section;
 }
 
+/**
+ * List sections in document order, replacing layout sections with the sections they contain
+ * @param sections Report sections
+ * @returns Sections without layout containers
+ */
+export function flattenSections(sections: ReportSection[]): ReportSection[] {
+  return sections.flatMap(section =>
+    section.type === 'layout'
+      ? (section.content as LayoutContent).rows.flatMap(row => flattenSections(row.sections))
+      : [section]
+  );
+}
+
 /**
  * Generate a financial report with default configuration
  * @param title Report title
@@ -0,0 +1,107 @@
+/**
+ * Built-in themes for financial reports
+ */
+
+import { BuiltInThemeName, ThemeConfig } from '../types/config';
+
+/**
+ * Themes shipped with the package
+ * - default: the neutral grey look used when no theme is given
+ * - corporate: navy headings and table headers with a blue chart palette
+ * - monochrome: greys only, for black and white printing
+ * - highContrast: black on white with heavy borders for accessibility
+ */
+export const BUILT_IN_THEMES: Record<BuiltInThemeName, ThemeConfig> = {
+  default: {},
+  corporate: {
+    primaryColor: '#1f3a5f',
+    secondaryColor: '#5b6b7f',
+    accentColor: '#2f6fb3',
+    textColor: '#222222',
+    positiveColor: '#2e7d32',
+    negativeColor: '#c62828',
+    headerStyles: {
+      textColor: '#1f3a5f',
+      borderColor: '#1f3a5f'
+    },
+    footerStyles: {
+      textColor: '#5b6b7f',
+      borderColor: '#c5cdd8'
+    },
+    tableStyles: {
+      headerBackgroundColor: '#1f3a5f',
+      headerTextColor: '#ffffff',
+      rowAltBackgroundColor: '#eef2f7',
+      rowTextColor: '#222222',
+      borderColor: '#1f3a5f'
+    },
+    chartColors: ['#1f3a5f', '#2f6fb3', '#7fa7d1', '#f0a202', '#5b6b7f', '#9bc53d', '#c62828', '#b8c4d6']
+  },
+  monochrome: {
+    primaryColor: '#000000',
+    secondaryColor: '#555555',
+    accentColor: '#333333',
+    textColor: '#000000',
+    positiveColor: '#000000',
+    negativeColor: '#000000',
+    headerStyles: {
+      textColor: '#333333',
+      borderColor: '#999999'
+    },
+    footerStyles: {
+      textColor: '#333333',
+      borderColor: '#999999'
+    },
+    tableStyles: {
+      headerBackgroundColor: '#d9d9d9',
+      headerTextColor: '#000000',
+      rowAltBackgroundColor: '#f2f2f2',
+      rowTextColor: '#000000',
+      borderColor: '#666666'
+    },
+    chartColors: ['#222222', '#555555', '#888888', '#aaaaaa', '#cccccc', '#444444', '#777777', '#bbbbbb']
+  },
+  highContrast: {
+    primaryColor: '#000000',
+    secondaryColor: '#000000',
+    accentColor: '#0000cc',
+    backgroundColor: '#ffffff',
+    textColor: '#000000',
+    positiveColor: '#006400',
+    negativeColor: '#b00000',
+    headerStyles: {
+      textColor: '#000000',
+      borderColor: '#000000'
+    },
+    footerStyles: {
+      textColor: '#000000',
+      borderColor: '#000000'
+    },
+    tableStyles: {
+      headerBackgroundColor: '#000000',
+      headerTextColor: '#ffffff',
+      rowBackgroundColor: '#ffffff',
+      rowAltBackgroundColor: '#e6e6e6',
+      rowTextColor: '#000000',
+      borderColor: '#000000'
+    },
+    chartColors: ['#000000', '#0072b2', '#e69f00', '#009e73', '#d55e00', '#cc79a7', '#56b4e9', '#f0e442']
+  }
+};
+
+/**
+ * Look up a built-in theme or pass a custom theme through
+ * @param theme Theme name or theme configuration
+ * @returns Theme configuration
+ */
+export function getTheme(theme: BuiltInThemeName | ThemeConfig = 'default'): ThemeConfig {
+  if (typeof theme === 'string') {
+    const builtIn = BUILT_IN_THEMES[theme];
+    if (!builtIn) {
+      throw new Error(`Unknown theme: ${theme}`);
+    }
+    return builtIn;
+  }
+
+  return theme;
+}
@@ -6,6 +6,7 @@ import Papa from 'papaparse';
 import { ReportConfig, TableContent, SummaryContent } from '../types/report';
 import { ReconciliationData, Transaction } from '../types/reconciliation';
 import { formatDate } from '../utils/date';
+import { flattenSections } from '../core/report';
 
 /**
  * Export table data to CSV
@@ -207,8 +208,8 @@ export function exportReportToCsv(
 ): Record<string, string> {
   const result: Record<string, string> = {};
   
-  // Process each section
-  report.sections.forEach((section, index) => {
+  // Process each section, including those inside layouts
+  flattenSections(report.sections).forEach((section, index) => {
     const sectionName = section.title.replace(/[^a-zA-Z0-9]/g, '_').toLowerCase();
     const sectionKey = `section_${index + 1}_${sectionName}`;
     
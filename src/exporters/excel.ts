@@ -3,9 +3,10 @@
  */
 
 import * as XLSX from 'xlsx';
-import { ReportConfig, TableContent, SummaryContent } from '../types/report';
+import { ReportConfig, TableContent, SummaryContent, SignoffContent } from '../types/report';
 import { ReconciliationData, Transaction } from '../types/reconciliation';
 import { formatDate } from '../utils/date';
+import { flattenSections } from '../core/report';
 
 /**
  * Export a financial report to Excel
@@ -31,8 +32,8 @@ export function exportReportToExcel(
   // Create overview sheet
   addOverviewSheet(workbook, report);
   
-  // Process each section
-  report.sections.forEach((section, index) => {
+  // Process each section; sections inside layouts get their own sheets
+  flattenSections(report.sections).forEach((section, index) => {
     const sheetName = createSheetName(section.title, index + 1);
     
     switch (section.type) {
@@ -52,6 +53,7 @@ export function exportReportToExcel(
       case 'text':
         addPlaceholderSheet(workbook, sheetName, 'Text content not formatted for Excel');
         break;
+      // Sign-offs are listed on the overview sheet
     }
   });
   
@@ -81,6 +83,17 @@ function addOverviewSheet(workbook: XLSX.WorkBook, report: ReportConfig): void {
     headerData.push([index + 1, section.title, section.type]);
   });
   
+  // Add sign-offs
+  const signatories = flattenSections(report.sections)
+    .filter(section => section.type === 'signoff')
+    .flatMap(section => (section.content as SignoffContent).signatories);
+  if (signatories.length > 0) {
+    headerData.push([], ['Sign-off'], ['Role', 'Name', 'Date']);
+    signatories.forEach(signatory => {
+      headerData.push([signatory.role, signatory.name, signatory.date ? formatDate(signatory.date) : '']);
+    });
+  }
+  
   // Create sheet
   const worksheet = XLSX.utils.aoa_to_sheet(headerData);
   
@@ -88,7 +101,7 @@ function addOverviewSheet(workbook: XLSX.WorkBook, report: ReportConfig): void {
   XLSX.utils.book_append_sheet(workbook, worksheet, 'Overview');
   
   // Set column widths
-  const colWidths = [{ wch: 10 }, { wch: 40 }, { wch: 15 }];
+  const colWidths = [{ wch: 15 }, { wch: 40 }, { wch: 15 }];
   worksheet['!cols'] = colWidths;
 }
 
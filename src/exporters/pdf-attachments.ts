@@ -0,0 +1,209 @@
+/**
+ * File attachments for the PDF exporter
+ *
+ * Attachments are written as embedded file streams listed in the document's
+ * EmbeddedFiles name tree, which viewers show in their attachments panel.
+ */
+
+import { ReportConfig } from '../types/report';
+import { bytesToBinaryString } from '../utils/binary';
+import { exportReportToCsv } from './csv';
+import { exportReportToExcel, generateExcelFile } from './excel';
+import { PDFDocument } from './pdf-layout';
+
+/** MIME types of common attachment extensions */
+const MIME_TYPES: Record<string, string> = {
+  csv: 'text/csv',
+  json: 'application/json',
+  txt: 'text/plain',
+  xml: 'application/xml',
+  pdf: 'application/pdf',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  xls: 'application/vnd.ms-excel'
+};
+
+/**
+ * File embedded in a PDF
+ */
+export interface PdfAttachment {
+  /** File name shown in the viewer */
+  name: string;
+  /** File contents; strings are encoded as UTF-8 */
+  content: string | ArrayBuffer | Uint8Array;
+  /** MIME type (default: derived from the file extension) */
+  mimeType?: string;
+  /** Description shown next to the file */
+  description?: string;
+}
+
+/**
+ * Source data to attach to a report PDF
+ */
+export interface ReportAttachmentOptions {
+  /** Attach the report configuration as JSON (default: true) */
+  json?: boolean;
+  /** Attach a CSV file for each table, summary and reconciliation section (default: true) */
+  csv?: boolean;
+  /** Attach the Excel workbook (default: true) */
+  excel?: boolean;
+}
+
+/**
+ * Build attachments carrying the data behind a report
+ * @param report Report configuration
+ * @param options Files to include
+ * @returns Attachments
+ */
+export function createReportAttachments(report: ReportConfig, options: ReportAttachmentOptions = {}): PdfAttachment[] {
+  const baseName = report.title.replace(/[^a-zA-Z0-9]/g, '_').toLowerCase();
+  const attachments: PdfAttachment[] = [];
+
+  if (options.json ?? true) {
+    attachments.push({
+      name: `${baseName}.json`,
+      content: JSON.stringify(report, null, 2),
+      description: 'Report configuration'
+    });
+  }
+
+  if (options.csv ?? true) {
+    Object.entries(exportReportToCsv(report)).forEach(([key, csv]) => {
+      attachments.push({ name: `${key}.csv`, content: csv });
+    });
+  }
+
+  if (options.excel ?? true) {
+    attachments.push({
+      name: `${baseName}.xlsx`,
+      content: generateExcelFile(exportReportToExcel(report)),
+      description: 'Report workbook'
+    });
+  }
+
+  return attachments;
+}
+
+/**
+ * Embed files in a document. They are written when the document is output.
+ * @param doc PDF document
+ * @param attachments Files to embed
+ */
+export function addAttachments(doc: PDFDocument, attachments: PdfAttachment[]): void {
+  if (attachments.length === 0) return;
+
+  const { internal } = doc;
+  let namesObjectId = 0;
+
+  internal.events.subscribe('postPutResources', () => {
+    const specs = attachments.map(attachment => {
+      const data = toBinaryString(attachment.content);
+
+      const fileObjectId = internal.newObject();
+      internal.putStream({
+        data,
+        objectId: fileObjectId,
+        additionalKeyValues: [
+          { key: 'Type', value: '/EmbeddedFile' },
+          { key: 'Subtype', value: toPdfName(attachment.mimeType || getMimeType(attachment.name)) },
+          { key: 'Params', value: `<< /Size ${data.length} >>` }
+        ]
+      });
+      internal.out('endobj');
+
+      const specObjectId = internal.newObject();
+      const string = toPdfString(doc, specObjectId);
+      internal.out('<<');
+      internal.out('/Type /Filespec');
+      internal.out(`/F ${string(toAsciiName(attachment.name))}`);
+      internal.out(`/UF ${string(toTextString(attachment.name))}`);
+      internal.out(`/EF << /F ${fileObjectId} 0 R >>`);
+      if (attachment.description) {
+        internal.out(`/Desc ${string(toTextString(attachment.description))}`);
+      }
+      internal.out('>>');
+      internal.out('endobj');
+
+      return specObjectId;
+    });
+
+    // Name tree keys must be sorted, so key by position rather than by file name
+    namesObjectId = internal.newObject();
+    const string = toPdfString(doc, namesObjectId);
+    const names = specs.map((specObjectId, index) => `${string(String(index).padStart(4, '0'))} ${specObjectId} 0 R`);
+    internal.out(`<< /Names [${names.join(' ')}] >>`);
+    internal.out('endobj');
+  });
+
+  internal.events.subscribe('putCatalog', () => {
+    internal.out(`/Names << /EmbeddedFiles ${namesObjectId} 0 R >>`);
+  });
+}
+
+/**
+ * Get the MIME type of a file from its extension
+ * @param name File name
+ * @returns MIME type
+ */
+function getMimeType(name: string): string {
+  const extension = name.split('.').pop()?.toLowerCase() || '';
+  return MIME_TYPES[extension] || 'application/octet-stream';
+}
+
+/**
+ * Convert file contents to a string of bytes
+ * @param content File contents
+ * @returns One character per byte
+ */
+function toBinaryString(content: PdfAttachment['content']): string {
+  const bytes = typeof content === 'string'
+    ? new TextEncoder().encode(content)
+    : content instanceof Uint8Array ? content : new Uint8Array(content);
+
+  return bytesToBinaryString(bytes);
+}
+
+/**
+ * Create a formatter for literal strings of an object, encrypted when the document is protected
+ * @param doc PDF document
+ * @param objectId Object the strings belong to
+ * @returns String formatter
+ */
+function toPdfString(doc: PDFDocument, objectId: number): (value: string) => string {
+  const encrypt = doc.internal.getEncryptor(objectId);
+  return (value: string) => `(${doc.internal.pdfEscape(encrypt(value))})`;
+}
+
+/**
+ * Encode a value as a PDF name, escaping delimiters such as the slash in MIME types
+ * @param value Value
+ * @returns PDF name
+ */
+function toPdfName(value: string): string {
+  return `/${value.replace(/[^!-~]|[#%/()<>[\]{}]/g, char => `#${char.charCodeAt(0).toString(16).padStart(2, '0')}`)}`;
+}
+
+/**
+ * Encode text as a PDF text string: printable ASCII as is, anything else as UTF-16BE
+ * @param value Text
+ * @returns Encoded string
+ */
+function toTextString(value: string): string {
+  if (/^[\x20-\x7e]*$/.test(value)) return value;
+
+  // Byte order mark
+  let encoded = '\u00fe\u00ff';
+  for (let i = 0; i < value.length; i++) {
+    const code = value.charCodeAt(i);
+    encoded += String.fromCharCode(code >> 8, code & 0xff);
+  }
+  return encoded;
+}
+
+/**
+ * Replace characters outside printable ASCII for viewers that only read the legacy file name
+ * @param name File name
+ * @returns ASCII file name
+ */
+function toAsciiName(name: string): string {
+  return name.replace(/[^\x20-\x7e]/g, '_');
+}
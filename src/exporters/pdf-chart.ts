@@ -0,0 +1,307 @@
+/**
+ * Chart rendering for the PDF exporter
+ */
+
+import { ChartConfig } from '../types/chart';
+import { buildChartScene, ChartScene, SceneElement } from '../charts/chart-scene';
+import { toChartJsConfig } from '../charts/chartjs-options';
+import { parseColor, flattenColor } from '../utils/color';
+import {
+  PDFDocument,
+  PdfLayout,
+  ensureSpace,
+  getContentWidth,
+  moveDown
+} from './pdf-layout';
+import { applyChartPalette, setDrawColor, setTextColor } from './pdf-theme';
+
+/** Millimetres per CSS pixel */
+const MM_PER_PX = 25.4 / 96;
+
+/** Maximum angle covered by one straight segment when approximating arcs (radians) */
+const ARC_STEP = Math.PI / 60;
+
+/**
+ * Draw a chart at the cursor position, breaking the page if it does not fit
+ * @param layout Layout state
+ * @param chart Chart configuration
+ * @param renderMode Chart rendering mode
+ * @param pixelRatio Pixel ratio used when rasterising
+ */
+export async function drawChart(
+  layout: PdfLayout,
+  chart: ChartConfig,
+  renderMode: 'svg' | 'canvas' = 'svg',
+  pixelRatio: number = 1
+): Promise<void> {
+  const { theme } = layout;
+  const config = applyChartPalette(chart, theme.chartColors);
+  const scene = buildChartScene(config);
+  const maxWidth = getContentWidth(layout);
+  const maxHeight = layout.pageHeight - layout.margins.top - layout.margins.bottom;
+
+  // Fit the chart to the content width, keeping its aspect ratio
+  let width = typeof config.dimensions?.width === 'number'
+    ? Math.min(config.dimensions.width * MM_PER_PX, maxWidth)
+    : maxWidth;
+  let height = width * (scene.height / scene.width);
+  if (height > maxHeight) {
+    width *= maxHeight / height;
+    height = maxHeight;
+  }
+
+  ensureSpace(layout, height);
+  const x = layout.margins.left + (maxWidth - width) / 2;
+
+  // Raster rendering needs a DOM canvas; fall back to vector drawing without one
+  const image = renderMode === 'canvas'
+    ? await rasterizeChart(config, scene.width, scene.height, pixelRatio)
+    : null;
+
+  if (image) {
+    layout.doc.addImage(image, 'PNG', x, layout.y, width, height);
+  } else {
+    drawChartScene(layout.doc, scene, x, layout.y, width / scene.width, theme.fontFamily);
+  }
+
+  setDrawColor(layout.doc, theme.textColor);
+  setTextColor(layout.doc, theme.textColor);
+  moveDown(layout, height);
+}
+
+/**
+ * Draw a chart scene with vector drawing commands
+ * @param doc PDF document
+ * @param scene Chart scene
+ * @param x Left position (mm)
+ * @param y Top position (mm)
+ * @param scale Millimetres per scene unit
+ * @param fontFamily Font family for labels
+ */
+export function drawChartScene(
+  doc: PDFDocument,
+  scene: ChartScene,
+  x: number,
+  y: number,
+  scale: number,
+  fontFamily: string = 'helvetica'
+): void {
+  const px = (value: number) => x + value * scale;
+  const py = (value: number) => y + value * scale;
+
+  scene.elements.forEach(element => {
+    switch (element.kind) {
+      case 'rect': {
+        const style = applyStyle(doc, element.fill, element.stroke, element.strokeWidth, scale);
+        if (style) {
+          doc.rect(px(element.x), py(element.y), element.width * scale, element.height * scale, style);
+        }
+        break;
+      }
+      case 'line': {
+        if (!applyStyle(doc, undefined, element.stroke, element.strokeWidth, scale)) break;
+        if (element.dash) {
+          doc.setLineDashPattern(element.dash.map(length => length * scale), 0);
+        }
+        doc.line(px(element.x1), py(element.y1), px(element.x2), py(element.y2));
+        if (element.dash) {
+          doc.setLineDashPattern([], 0);
+        }
+        break;
+      }
+      case 'polyline': {
+        const style = applyStyle(doc, element.fill, element.stroke, element.strokeWidth, scale);
+        if (style) {
+          drawPolygon(doc, element.points.map(([pointX, pointY]) => [px(pointX), py(pointY)]), style, element.closed);
+        }
+        break;
+      }
+      case 'circle': {
+        const style = applyStyle(doc, element.fill, element.stroke, element.strokeWidth, scale);
+        if (style) {
+          doc.circle(px(element.cx), py(element.cy), element.r * scale, style);
+        }
+        break;
+      }
+      case 'sector': {
+        const style = applyStyle(doc, element.fill, element.stroke, element.strokeWidth, scale);
+        if (style) {
+          drawPolygon(doc, getSectorPoints(element).map(([pointX, pointY]) => [px(pointX), py(pointY)]), style, true);
+        }
+        break;
+      }
+      case 'text':
+        drawSceneText(doc, element, px(element.x), py(element.y), scale, fontFamily);
+        break;
+    }
+  });
+
+  doc.setLineWidth(0.2);
+  doc.setDrawColor(0, 0, 0);
+  doc.setTextColor(0, 0, 0);
+  doc.setFont(fontFamily, 'normal');
+}
+
+/**
+ * Apply fill and stroke colors
+ * @param doc PDF document
+ * @param fill Fill color
+ * @param stroke Stroke color
+ * @param strokeWidth Stroke width in scene units
+ * @param scale Millimetres per scene unit
+ * @returns jsPDF drawing style, or null if nothing is visible
+ */
+function applyStyle(
+  doc: PDFDocument,
+  fill: string | undefined,
+  stroke: string | undefined,
+  strokeWidth: number | undefined,
+  scale: number
+): 'F' | 'S' | 'FD' | null {
+  const fillColor = fill ? parseColor(fill) : null;
+  const strokeColor = stroke && (strokeWidth ?? 1) > 0 ? parseColor(stroke) : null;
+  const hasFill = Boolean(fillColor && fillColor.a > 0);
+  const hasStroke = Boolean(strokeColor && strokeColor.a > 0);
+
+  // Charts are drawn on white paper, so translucent colors are blended with it
+  if (hasFill && fillColor) {
+    const color = flattenColor(fillColor);
+    doc.setFillColor(color.r, color.g, color.b);
+  }
+  if (hasStroke && strokeColor) {
+    const color = flattenColor(strokeColor);
+    doc.setDrawColor(color.r, color.g, color.b);
+    doc.setLineWidth((strokeWidth ?? 1) * scale);
+  }
+
+  if (hasFill && hasStroke) return 'FD';
+  if (hasFill) return 'F';
+  if (hasStroke) return 'S';
+  return null;
+}
+
+/**
+ * Draw a polygon or open polyline
+ * @param doc PDF document
+ * @param points Absolute points
+ * @param style jsPDF drawing style
+ * @param closed Whether to close the path
+ */
+function drawPolygon(doc: PDFDocument, points: number[][], style: string, closed: boolean): void {
+  if (points.length < 2) return;
+
+  // jsPDF expects segments relative to the previous point
+  const segments = points.slice(1).map((point, index) => [
+    point[0] - points[index][0],
+    point[1] - points[index][1]
+  ]);
+
+  doc.lines(segments, points[0][0], points[0][1], [1, 1], closed ? style : 'S', closed);
+}
+
+/**
+ * Approximate a sector outline with straight segments
+ * @param sector Sector element
+ * @returns Outline points
+ */
+function getSectorPoints(sector: Extract<SceneElement, { kind: 'sector' }>): [number, number][] {
+  const points: [number, number][] = [];
+  const sweep = sector.endAngle - sector.startAngle;
+  const steps = Math.max(1, Math.ceil(Math.abs(sweep) / ARC_STEP));
+
+  for (let step = 0; step <= steps; step++) {
+    const angle = sector.startAngle + (sweep * step) / steps;
+    points.push([sector.cx + Math.cos(angle) * sector.outerRadius, sector.cy + Math.sin(angle) * sector.outerRadius]);
+  }
+
+  if (sector.innerRadius > 0) {
+    for (let step = steps; step >= 0; step--) {
+      const angle = sector.startAngle + (sweep * step) / steps;
+      points.push([sector.cx + Math.cos(angle) * sector.innerRadius, sector.cy + Math.sin(angle) * sector.innerRadius]);
+    }
+  } else {
+    points.push([sector.cx, sector.cy]);
+  }
+
+  return points;
+}
+
+/**
+ * Draw a text element, resolving alignment and rotation
+ * @param doc PDF document
+ * @param element Text element
+ * @param x Anchor X (mm)
+ * @param y Anchor Y (mm)
+ * @param scale Millimetres per scene unit
+ * @param fontFamily Font family
+ */
+function drawSceneText(
+  doc: PDFDocument,
+  element: Extract<SceneElement, { kind: 'text' }>,
+  x: number,
+  y: number,
+  scale: number,
+  fontFamily: string
+): void {
+  const fontSize = element.fontSize * scale;
+  const color = flattenColor(parseColor(element.color));
+
+  // Intl number formats separate groups with narrow no-break spaces, which the standard fonts lack
+  const text = element.text.replace(/\u202f/g, '\u00a0');
+
+  doc.setFont(fontFamily, element.bold ? 'bold' : 'normal');
+  doc.setFontSize(fontSize * doc.internal.scaleFactor);
+  doc.setTextColor(color.r, color.g, color.b);
+
+  const width = doc.getTextWidth(text);
+  const along = element.align === 'center' ? -width / 2 : element.align === 'right' ? -width : 0;
+  const across = element.baseline === 'top' ? fontSize * 0.75 : element.baseline === 'middle' ? fontSize * 0.35 : -fontSize * 0.2;
+
+  // Move from the anchor to the baseline start in the rotated text frame
+  const radians = ((element.rotation || 0) * Math.PI) / 180;
+  const startX = x + Math.cos(radians) * along + Math.sin(radians) * across;
+  const startY = y - Math.sin(radians) * along + Math.cos(radians) * across;
+
+  doc.text(text, startX, startY, element.rotation ? { angle: element.rotation } : undefined);
+}
+
+/**
+ * Render a chart to a PNG data URL with Chart.js when a DOM canvas is available
+ * @param config Chart configuration
+ * @param width Width in px
+ * @param height Height in px
+ * @param pixelRatio Device pixels per CSS pixel
+ * @returns PNG data URL, or null when no canvas is available
+ */
+async function rasterizeChart(
+  config: ChartConfig,
+  width: number,
+  height: number,
+  pixelRatio: number
+): Promise<string | null> {
+  if (typeof document === 'undefined') {
+    return null;
+  }
+
+  const { default: Chart } = await import('chart.js/auto');
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+
+  const chartJsConfig = toChartJsConfig(config);
+  const chart = new Chart(canvas, {
+    ...chartJsConfig,
+    options: {
+      ...chartJsConfig.options,
+      animation: false,
+      devicePixelRatio: pixelRatio,
+      responsive: false,
+      maintainAspectRatio: false
+    }
+  });
+
+  const image = canvas.toDataURL('image/png');
+  chart.destroy();
+
+  return image;
+}
@@ -0,0 +1,272 @@
+/**
+ * Cover page and executive summary for the PDF exporter
+ */
+
+import { ReportConfig, ReportSection, SummaryContent } from '../types/report';
+import { formatNumber, formatPercentage } from '../utils/currency';
+import { formatDate } from '../utils/date';
+import {
+  PdfLayout,
+  addAnchor,
+  ensureSpace,
+  moveDown,
+  getContentWidth,
+  getContentBottom,
+  getLineHeight
+} from './pdf-layout';
+import { PlacedImage } from './pdf-images';
+import { setDrawColor, setFillColor, setTextColor } from './pdf-theme';
+
+/** Fraction of the page height where the cover title starts */
+const COVER_TITLE_POSITION = 0.35;
+
+/** Space between the cover logo and the title (mm) */
+const COVER_LOGO_GAP = 15;
+
+/** Height of an executive summary row (mm) */
+const SUMMARY_ROW_HEIGHT = 7;
+
+/** Width and height of a change arrow (mm) */
+const ARROW_SIZE = 2.4;
+
+/** Table of contents key of the executive summary */
+export const EXECUTIVE_SUMMARY_KEY = 'executive-summary';
+
+/**
+ * Draw the cover page on the current page
+ * @param layout Layout state
+ * @param report Report configuration
+ * @param logo Company logo, or null for none
+ */
+export function drawCoverPage(layout: PdfLayout, report: ReportConfig, logo: PlacedImage | null): void {
+  const { doc, theme } = layout;
+  const cover = report.cover || { enabled: true };
+  const width = getContentWidth(layout);
+  const centerX = layout.margins.left + width / 2;
+
+  // Logo at the top, title block a third of the way down
+  if (logo) {
+    doc.addImage(logo.data, logo.format, centerX - logo.width / 2, layout.y, logo.width, logo.height);
+    moveDown(layout, logo.height + COVER_LOGO_GAP);
+  }
+  layout.y = Math.max(layout.y, layout.pageHeight * COVER_TITLE_POSITION);
+
+  doc.setFont(theme.fontFamily, 'bold');
+  setTextColor(doc, theme.primaryColor);
+  drawCenteredText(layout, report.title, 26, centerX, width);
+  doc.setFont(theme.fontFamily, 'normal');
+
+  if (report.subtitle) {
+    setTextColor(doc, theme.secondaryColor);
+    drawCenteredText(layout, report.subtitle, 16, centerX, width);
+  }
+
+  // Accent rule between the title and the details
+  moveDown(layout, 4);
+  setDrawColor(doc, theme.accentColor);
+  doc.setLineWidth(0.8);
+  doc.line(centerX - 30, layout.y, centerX + 30, layout.y);
+  doc.setLineWidth(0.2);
+  moveDown(layout, 8);
+
+  setTextColor(doc, theme.textColor);
+  if (report.dateRange) {
+    const dateText = `Period: ${formatDate(report.dateRange.startDate)} - ${formatDate(report.dateRange.endDate)}`;
+    drawCenteredText(layout, dateText, 12, centerX, width);
+  }
+
+  if (report.company) {
+    moveDown(layout, 4);
+    drawCenteredText(layout, report.company.name, 14, centerX, width);
+
+    if (report.company.address) {
+      setTextColor(doc, theme.secondaryColor);
+      drawCenteredText(layout, report.company.address, 10, centerX, width);
+      setTextColor(doc, theme.textColor);
+    }
+  }
+
+  drawSignatoryBlock(layout, [
+    ...(cover.preparedBy ? [['Prepared by', cover.preparedBy] as [string, string]] : []),
+    ...(cover.approvedBy ? [['Approved by', cover.approvedBy] as [string, string]] : []),
+    ['Date', formatDate(cover.date || new Date())]
+  ]);
+
+  doc.setFontSize(12);
+}
+
+/**
+ * Draw the executive summary: every item of the summary sections, with change arrows
+ * @param layout Layout state
+ * @param title Heading text
+ * @param sections Summary sections
+ */
+export function drawExecutiveSummary(layout: PdfLayout, title: string, sections: ReportSection[]): void {
+  const { doc, theme } = layout;
+
+  doc.setFontSize(14);
+  doc.setFont(theme.fontFamily, 'bold');
+  setTextColor(doc, theme.primaryColor);
+  ensureSpace(layout, getLineHeight(doc));
+  addAnchor(layout, title, 0, EXECUTIVE_SUMMARY_KEY);
+  doc.text(title, layout.margins.left, layout.y + getLineHeight(doc) * 0.8);
+  moveDown(layout, getLineHeight(doc) + 4);
+
+  sections.forEach((section, index) => {
+    if (index > 0) {
+      moveDown(layout, 6);
+    }
+    drawSummaryGroup(layout, section.title, section.content as SummaryContent);
+  });
+
+  setTextColor(doc, theme.textColor);
+  doc.setFont(theme.fontFamily, 'normal');
+  doc.setFontSize(12);
+}
+
+/**
+ * Draw the items of one summary section as rows
+ * @param layout Layout state
+ * @param heading Section title
+ * @param content Summary content
+ */
+function drawSummaryGroup(layout: PdfLayout, heading: string, content: SummaryContent): void {
+  const { doc, theme } = layout;
+  const left = layout.margins.left;
+  const width = getContentWidth(layout);
+  const valueRight = left + width * 0.6;
+  const comparisonRight = left + width * 0.8;
+  const changeRight = left + width - 2;
+
+  // Heading and column labels, kept with the first row
+  doc.setFontSize(11);
+  doc.setFont(theme.fontFamily, 'bold');
+  const headingHeight = getLineHeight(doc);
+  ensureSpace(layout, headingHeight + SUMMARY_ROW_HEIGHT * 2);
+  setTextColor(doc, theme.primaryColor);
+  doc.text(heading, left, layout.y + headingHeight * 0.8);
+  moveDown(layout, headingHeight + 1);
+
+  doc.setFontSize(9);
+  setTextColor(doc, theme.secondaryColor);
+  const labelBaseline = layout.y + SUMMARY_ROW_HEIGHT * 0.65;
+  doc.text('Value', valueRight, labelBaseline, { align: 'right' });
+  doc.text('Comparison', comparisonRight, labelBaseline, { align: 'right' });
+  doc.text('Change', changeRight, labelBaseline, { align: 'right' });
+  moveDown(layout, SUMMARY_ROW_HEIGHT);
+  doc.setFont(theme.fontFamily, 'normal');
+
+  doc.setFontSize(10);
+  content.items.forEach((item, index) => {
+    ensureSpace(layout, SUMMARY_ROW_HEIGHT);
+    const baseline = layout.y + SUMMARY_ROW_HEIGHT * 0.65;
+
+    const fill = index % 2 === 0 ? theme.table.rowAltBackgroundColor : theme.table.rowBackgroundColor;
+    if (fill) {
+      setFillColor(doc, fill);
+      doc.rect(left, layout.y, width, SUMMARY_ROW_HEIGHT, 'F');
+    }
+
+    setTextColor(doc, theme.textColor);
+    doc.text(item.label, left + 2, baseline);
+    doc.text(formatSummaryValue(item.value), valueRight, baseline, { align: 'right' });
+
+    if (item.comparison !== undefined) {
+      setTextColor(doc, theme.secondaryColor);
+      doc.text(formatSummaryValue(item.comparison), comparisonRight, baseline, { align: 'right' });
+    }
+
+    if (item.changePercentage !== undefined) {
+      drawChange(layout, item.changePercentage, changeRight, baseline);
+    }
+
+    moveDown(layout, SUMMARY_ROW_HEIGHT);
+  });
+}
+
+/**
+ * Draw a percentage change with an up or down arrow in the positive or negative color
+ * @param layout Layout state
+ * @param change Percentage change
+ * @param right Right edge of the text (mm)
+ * @param baseline Text baseline (mm)
+ */
+function drawChange(layout: PdfLayout, change: number, right: number, baseline: number): void {
+  const { doc, theme } = layout;
+  const text = change > 0 ? `+${formatPercentage(change)}` : formatPercentage(change);
+
+  if (change === 0) {
+    setTextColor(doc, theme.secondaryColor);
+    doc.text(text, right, baseline, { align: 'right' });
+    return;
+  }
+
+  const color = change > 0 ? theme.positiveColor : theme.negativeColor;
+  setTextColor(doc, color);
+  doc.text(text, right, baseline, { align: 'right' });
+
+  // Arrow to the left of the text, drawn as a triangle since the standard fonts have no arrow glyphs
+  const x = right - doc.getTextWidth(text) - ARROW_SIZE - 1.5;
+  const bottom = baseline - 0.3;
+  const top = bottom - ARROW_SIZE;
+  setFillColor(doc, color);
+  if (change > 0) {
+    doc.triangle(x, bottom, x + ARROW_SIZE, bottom, x + ARROW_SIZE / 2, top, 'F');
+  } else {
+    doc.triangle(x, top, x + ARROW_SIZE, top, x + ARROW_SIZE / 2, bottom, 'F');
+  }
+}
+
+/**
+ * Draw label/value rows for the people who signed off the report, at the bottom of the page
+ * @param layout Layout state
+ * @param rows Label and value pairs
+ */
+function drawSignatoryBlock(layout: PdfLayout, rows: [string, string][]): void {
+  const { doc, theme } = layout;
+  const left = layout.margins.left;
+
+  doc.setFontSize(10);
+  const lineHeight = getLineHeight(doc) + 2;
+  const top = getContentBottom(layout) - rows.length * lineHeight;
+
+  setDrawColor(doc, theme.separatorColor);
+  doc.line(left, top - 4, left + getContentWidth(layout), top - 4);
+
+  rows.forEach(([label, value], index) => {
+    const baseline = top + index * lineHeight + lineHeight * 0.75;
+    setTextColor(doc, theme.secondaryColor);
+    doc.text(label, left, baseline);
+    setTextColor(doc, theme.textColor);
+    doc.text(value, left + 35, baseline);
+  });
+}
+
+/**
+ * Add centred text, wrapping it to the available width, and advance the cursor
+ * @param layout Layout state
+ * @param text Text to draw
+ * @param fontSize Font size
+ * @param centerX Horizontal centre
+ * @param width Available width
+ */
+function drawCenteredText(layout: PdfLayout, text: string, fontSize: number, centerX: number, width: number): void {
+  const { doc } = layout;
+  doc.setFontSize(fontSize);
+  const lineHeight = getLineHeight(doc);
+
+  (doc.splitTextToSize(text, width) as string[]).forEach(line => {
+    doc.text(line, centerX, layout.y + lineHeight * 0.8, { align: 'center' });
+    moveDown(layout, lineHeight);
+  });
+  moveDown(layout, 2);
+}
+
+/**
+ * Format a summary value or comparison
+ * @param value Value
+ * @returns Display text
+ */
+function formatSummaryValue(value: number | string): string {
+  return typeof value === 'number' ? formatNumber(value) : String(value);
+}
@@ -0,0 +1,213 @@
+/**
+ * TrueType font registration and Unicode fallback for the PDF exporter
+ *
+ * The standard PDF fonts only cover the Windows-1252 character set. Registered
+ * TrueType fonts are embedded with Identity-H encoding so any glyph they contain
+ * can be drawn, and text the current font cannot render is drawn with the
+ * fallback font registered for its script.
+ */
+
+import { bytesToBase64 } from '../utils/binary';
+import { PDFDocument } from './pdf-layout';
+
+/**
+ * TrueType font data: base64, a data URL or the raw file contents
+ */
+export type PdfFontSource = string | ArrayBuffer | Uint8Array;
+
+/**
+ * Font files for one family. Missing variants reuse the regular font.
+ */
+export interface PdfFontFiles {
+  regular: PdfFontSource;
+  bold?: PdfFontSource;
+  italic?: PdfFontSource;
+  boldItalic?: PdfFontSource;
+}
+
+/**
+ * Writing systems that can have their own fallback font
+ */
+export type FontScript =
+  | 'latin'
+  | 'greek'
+  | 'cyrillic'
+  | 'hebrew'
+  | 'arabic'
+  | 'devanagari'
+  | 'thai'
+  | 'hangul'
+  | 'cjk'
+  | 'other';
+
+/**
+ * Fonts available to the PDF exporter
+ */
+export interface PdfFontRegistry {
+  /** Font families by name, selected with ThemeConfig.fontFamily */
+  families?: Record<string, PdfFontFiles>;
+  /**
+   * Registered family used for text in each script the current font cannot render.
+   * The fallback applies to the whole string being drawn, so a line mixing scripts
+   * is drawn entirely in the fallback font, which should also cover Latin text.
+   */
+  fallbacks?: Partial<Record<FontScript, string>>;
+}
+
+/**
+ * Part of a jsPDF font used to check glyph coverage
+ */
+interface FontCoverage {
+  /** Parsed TrueType file; the standard fonts have none */
+  metadata?: {
+    cmap?: {
+      unicode?: {
+        /** Glyph IDs by code point */
+        codeMap?: Record<number, number>;
+      };
+    };
+  };
+}
+
+/** jsPDF style names for each variant */
+const FONT_STYLES: [keyof PdfFontFiles, string][] = [
+  ['regular', 'normal'],
+  ['bold', 'bold'],
+  ['italic', 'italic'],
+  ['boldItalic', 'bolditalic']
+];
+
+/** Characters outside Latin-1 that the standard fonts support through WinAnsiEncoding */
+const WIN_ANSI_EXTRAS = '\u20ac\u201a\u0192\u201e\u2026\u2020\u2021\u02c6\u2030\u0160\u2039\u0152\u017d\u2018\u2019\u201c\u201d\u2022\u2013\u2014\u02dc\u2122\u0161\u203a\u0153\u017e\u0178';
+
+/** Unicode ranges of each script, checked in order */
+const SCRIPT_RANGES: [FontScript, RegExp][] = [
+  ['latin', /[\u0000-\u024f\u1e00-\u1eff\u2000-\u206f\u20a0-\u20cf]/],
+  ['greek', /[\u0370-\u03ff\u1f00-\u1fff]/],
+  ['cyrillic', /[\u0400-\u052f\u2de0-\u2dff\ua640-\ua69f]/],
+  ['hebrew', /[\u0590-\u05ff\ufb1d-\ufb4f]/],
+  ['arabic', /[\u0600-\u06ff\u0750-\u077f\ufb50-\ufdff\ufe70-\ufeff]/],
+  ['devanagari', /[\u0900-\u097f]/],
+  ['thai', /[\u0e00-\u0e7f]/],
+  ['hangul', /[\u1100-\u11ff\u3130-\u318f\uac00-\ud7af]/],
+  ['cjk', /[\u2e80-\u2fdf\u3000-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uf900-\ufaff\uff00-\uffef]/]
+];
+
+/**
+ * Embed the registered font families in a document
+ * @param doc PDF document
+ * @param registry Font registry
+ * @returns Names of the registered families
+ */
+export function registerFonts(doc: PDFDocument, registry: PdfFontRegistry = {}): string[] {
+  const families = Object.entries(registry.families || {});
+
+  families.forEach(([family, files]) => {
+    FONT_STYLES.forEach(([variant, style]) => {
+      // Fall back to the bold or regular file for missing variants
+      const source = files[variant] || (variant === 'boldItalic' ? files.bold || files.italic : undefined) || files.regular;
+      const fileName = `${family}-${style}.ttf`;
+
+      doc.addFileToVFS(fileName, toBase64(source));
+      doc.addFont(fileName, family, style, 'Identity-H');
+    });
+  });
+
+  return families.map(([family]) => family);
+}
+
+/**
+ * Draw and measure text with the fallback font for its script whenever the
+ * current font is missing glyphs. The font is chosen per string rather than per
+ * run of characters, so strings keep one width calculation and alignment.
+ * @param doc PDF document
+ * @param fallbacks Fallback families by script
+ */
+export function installFontFallback(doc: PDFDocument, fallbacks: Partial<Record<FontScript, string>> = {}): void {
+  if (Object.keys(fallbacks).length === 0) return;
+
+  const wrap = (method: 'text' | 'getTextWidth' | 'splitTextToSize') => {
+    const original = doc[method];
+    doc[method] = function (text: string | string[], ...args: unknown[]) {
+      return withFallbackFont(doc, text, fallbacks, () => original.call(doc, text, ...args));
+    };
+  };
+
+  wrap('text');
+  wrap('getTextWidth');
+  wrap('splitTextToSize');
+}
+
+/**
+ * Run a text operation with a fallback font selected when needed
+ * @param doc PDF document
+ * @param text Text being drawn or measured
+ * @param fallbacks Fallback families by script
+ * @param operation Text operation
+ * @returns Result of the operation
+ */
+function withFallbackFont<T>(
+  doc: PDFDocument,
+  text: string | string[],
+  fallbacks: Partial<Record<FontScript, string>>,
+  operation: () => T
+): T {
+  const value = Array.isArray(text) ? text.join('') : String(text ?? '');
+  const missing = findMissingCharacter(doc.getFont(), value);
+  const family = missing ? fallbacks[getScript(missing)] : undefined;
+
+  if (!family) return operation();
+
+  const { fontName, fontStyle } = doc.getFont();
+  doc.setFont(family, fontStyle);
+  try {
+    return operation();
+  } finally {
+    doc.setFont(fontName, fontStyle);
+  }
+}
+
+/**
+ * Find the first character a font cannot render
+ * @param font jsPDF font
+ * @param text Text to check
+ * @returns Missing character, or null when the font covers the text
+ */
+function findMissingCharacter(font: FontCoverage, text: string): string | null {
+  const codeMap = font.metadata?.cmap?.unicode?.codeMap;
+
+  for (const char of text) {
+    const code = char.codePointAt(0) as number;
+    if (code < 0x20) continue;
+
+    const covered = codeMap
+      ? Boolean(codeMap[code])
+      : code <= 0xff || WIN_ANSI_EXTRAS.includes(char);
+    if (!covered) return char;
+  }
+
+  return null;
+}
+
+/**
+ * Detect the script of a character
+ * @param char Character
+ * @returns Script
+ */
+export function getScript(char: string): FontScript {
+  const match = SCRIPT_RANGES.find(([, range]) => range.test(char));
+  return match ? match[0] : 'other';
+}
+
+/**
+ * Convert font data to the base64 string jsPDF stores in its virtual file system
+ * @param source Font data
+ * @returns Base64 string
+ */
+function toBase64(source: PdfFontSource): string {
+  if (typeof source === 'string') {
+    return source.replace(/^data:[^,]*,/, '');
+  }
+
+  return bytesToBase64(source instanceof Uint8Array ? source : new Uint8Array(source));
+}
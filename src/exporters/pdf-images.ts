@@ -0,0 +1,339 @@
+/**
+ * Image handling for the PDF exporter
+ */
+
+import { bytesToBase64 } from '../utils/binary';
+import { PDFDocument } from './pdf-layout';
+
+/**
+ * Output quality of a PDF export
+ */
+export type PdfQuality = 'low' | 'medium' | 'high';
+
+/**
+ * Image and raster settings for a quality level. They take effect where a DOM canvas is available.
+ */
+export interface QualitySettings {
+  /** Pixel ratio used when rasterising charts */
+  chartPixelRatio: number;
+  /** Resolution images are downsampled to (dots per inch) */
+  imageDpi: number;
+  /** JPEG quality used when re-encoding downsampled photos (0-1) */
+  jpegQuality: number;
+}
+
+/** Settings for each quality level */
+const QUALITY_SETTINGS: Record<PdfQuality, QualitySettings> = {
+  low: { chartPixelRatio: 1, imageDpi: 96, jpegQuality: 0.6 },
+  medium: { chartPixelRatio: 2, imageDpi: 150, jpegQuality: 0.8 },
+  high: { chartPixelRatio: 3, imageDpi: 300, jpegQuality: 0.92 }
+};
+
+/** Millimetres per inch */
+const MM_PER_INCH = 25.4;
+
+/** Formats of each image MIME type */
+const MIME_FORMATS: Record<string, ImageFormat> = {
+  'image/png': 'PNG',
+  'image/jpeg': 'JPEG',
+  'image/jpg': 'JPEG',
+  'image/svg+xml': 'SVG'
+};
+
+/** Start of the base64 encoding of each format's file signature */
+const BASE64_SIGNATURES: [string, ImageFormat][] = [
+  ['iVBORw0KGgo', 'PNG'],
+  ['/9j/', 'JPEG'],
+  ['PHN2Zy', 'SVG'],
+  ['PD94bWwg', 'SVG']
+];
+
+/** Size browsers give SVG images without dimensions (px) */
+const DEFAULT_SVG_SIZE = { width: 300, height: 150 };
+
+/**
+ * Image formats accepted for logos and other pictures
+ */
+export type ImageFormat = 'PNG' | 'JPEG' | 'SVG';
+
+/**
+ * Image decoded far enough to place it on a page
+ */
+export interface PdfImage {
+  /** Image data URL */
+  data: string;
+  format: ImageFormat;
+  /** Intrinsic width (px) */
+  width: number;
+  /** Intrinsic height (px) */
+  height: number;
+}
+
+/**
+ * Image ready to embed, with its printed size
+ */
+export interface PlacedImage {
+  /** Image data URL */
+  data: string;
+  format: 'PNG' | 'JPEG';
+  /** Printed width (mm) */
+  width: number;
+  /** Printed height (mm) */
+  height: number;
+}
+
+/**
+ * Get the image settings for a quality level
+ * @param quality Quality level (default: 'medium')
+ * @returns Quality settings
+ */
+export function getQualitySettings(quality: PdfQuality = 'medium'): QualitySettings {
+  return QUALITY_SETTINGS[quality] || QUALITY_SETTINGS.medium;
+}
+
+/**
+ * Downsample an image to the resolution needed for its printed size.
+ * Needs a DOM canvas; without one the image is returned unchanged.
+ * @param image Image data URL
+ * @param width Printed width (mm)
+ * @param height Printed height (mm)
+ * @param settings Quality settings
+ * @returns Image data URL
+ */
+export async function downsampleImage(
+  image: string,
+  width: number,
+  height: number,
+  settings: QualitySettings
+): Promise<string> {
+  if (typeof document === 'undefined' || !image.startsWith('data:image/')) {
+    return image;
+  }
+
+  const element = await loadImage(image);
+  if (!element) return image;
+
+  const targetWidth = Math.ceil((width / MM_PER_INCH) * settings.imageDpi);
+  const targetHeight = Math.ceil((height / MM_PER_INCH) * settings.imageDpi);
+
+  // Never upscale
+  if (element.naturalWidth <= targetWidth && element.naturalHeight <= targetHeight) {
+    return image;
+  }
+
+  const canvas = document.createElement('canvas');
+  canvas.width = targetWidth;
+  canvas.height = targetHeight;
+  const context = canvas.getContext('2d');
+  if (!context) return image;
+
+  context.drawImage(element, 0, 0, targetWidth, targetHeight);
+
+  // Keep PNG for images that may be transparent
+  return image.startsWith('data:image/jpeg')
+    ? canvas.toDataURL('image/jpeg', settings.jpegQuality)
+    : canvas.toDataURL('image/png');
+}
+
+/**
+ * Detect the format of an image from its data URL, base64 data or SVG markup
+ * @param source Image source
+ * @returns Image format, or null if it is not a supported image
+ */
+export function detectImageFormat(source: string): ImageFormat | null {
+  const value = source.trim();
+
+  if (value.startsWith('<')) {
+    return /<svg[\s>]/i.test(value) ? 'SVG' : null;
+  }
+
+  const dataUrl = value.match(/^data:([^;,]*)[^,]*,(.*)$/s);
+  if (dataUrl && MIME_FORMATS[dataUrl[1].toLowerCase()]) {
+    return MIME_FORMATS[dataUrl[1].toLowerCase()];
+  }
+
+  // Fall back to the file signature for bare base64 and generic MIME types
+  const payload = dataUrl ? dataUrl[2] : value;
+  const signature = BASE64_SIGNATURES.find(([prefix]) => payload.startsWith(prefix));
+  return signature ? signature[1] : null;
+}
+
+/**
+ * Load an image from a data URL, base64 data, SVG markup or URL and read its size
+ * @param doc PDF document
+ * @param source Image source
+ * @returns Decoded image
+ */
+export async function loadImageData(doc: PDFDocument, source: string): Promise<PdfImage> {
+  // Base64 JPEG data starts with a slash, so only treat unrecognised sources as URLs
+  const inline = source.trim();
+  const value = !detectImageFormat(inline) && isImageUrl(inline) ? await fetchImage(inline) : inline;
+  const format = detectImageFormat(value);
+
+  if (!format) {
+    throw new Error('Unsupported image format; use PNG, JPEG or SVG');
+  }
+
+  const data = toDataUrl(value, format);
+  if (format === 'SVG') {
+    return { data, format, ...getSvgSize(decodeDataUrl(data)) };
+  }
+
+  const properties = doc.getImageProperties(data);
+  return { data, format, width: properties.width, height: properties.height };
+}
+
+/**
+ * Scale an image to fit a box while keeping its aspect ratio
+ * @param image Image
+ * @param maxWidth Maximum width (mm)
+ * @param maxHeight Maximum height (mm)
+ * @returns Printed size (mm)
+ */
+export function fitImage(image: PdfImage, maxWidth: number, maxHeight: number): { width: number; height: number } {
+  const scale = Math.min(maxWidth / image.width, maxHeight / image.height);
+  return { width: image.width * scale, height: image.height * scale };
+}
+
+/**
+ * Convert an image into a format jsPDF can embed at the resolution needed for its printed size.
+ * SVG images are rasterised, which needs a DOM canvas.
+ * @param image Image
+ * @param width Printed width (mm)
+ * @param height Printed height (mm)
+ * @param settings Quality settings
+ * @returns Image data URL and jsPDF format
+ */
+export async function prepareImage(
+  image: PdfImage,
+  width: number,
+  height: number,
+  settings: QualitySettings
+): Promise<{ data: string; format: 'PNG' | 'JPEG' }> {
+  if (image.format !== 'SVG') {
+    return { data: await downsampleImage(image.data, width, height, settings), format: image.format };
+  }
+
+  if (typeof document === 'undefined') {
+    throw new Error('SVG images need a DOM canvas to be rasterised');
+  }
+
+  const element = await loadImage(image.data);
+  if (!element) {
+    throw new Error('SVG image could not be decoded');
+  }
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.ceil((width / MM_PER_INCH) * settings.imageDpi);
+  canvas.height = Math.ceil((height / MM_PER_INCH) * settings.imageDpi);
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('SVG image could not be rasterised');
+  }
+
+  context.drawImage(element, 0, 0, canvas.width, canvas.height);
+  return { data: canvas.toDataURL('image/png'), format: 'PNG' };
+}
+
+/**
+ * Check whether an image source is a URL to fetch rather than inline data
+ * @param source Image source
+ * @returns True for http(s), blob and path URLs
+ */
+function isImageUrl(source: string): boolean {
+  return /^(https?:|blob:|\/|\.\.?\/)/i.test(source);
+}
+
+/**
+ * Fetch an image and encode it as a data URL
+ * @param url Image URL
+ * @returns Image data URL
+ */
+async function fetchImage(url: string): Promise<string> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Image request failed with status ${response.status}: ${url}`);
+  }
+
+  const type = (response.headers.get('content-type') || 'application/octet-stream').split(';')[0];
+  const bytes = new Uint8Array(await response.arrayBuffer());
+  return `data:${type};base64,${bytesToBase64(bytes)}`;
+}
+
+/**
+ * Normalise an image source to a data URL
+ * @param source Data URL, base64 data or SVG markup
+ * @param format Image format
+ * @returns Data URL
+ */
+function toDataUrl(source: string, format: ImageFormat): string {
+  const mimeType = format === 'SVG' ? 'image/svg+xml' : `image/${format.toLowerCase()}`;
+
+  if (source.startsWith('<')) {
+    return `data:${mimeType};base64,${bytesToBase64(new TextEncoder().encode(source))}`;
+  }
+
+  // Replace generic MIME types so jsPDF and browsers recognise the image
+  const payload = source.startsWith('data:') ? source.slice(source.indexOf(',') + 1) : source;
+  const encoding = source.startsWith('data:') && !/^data:[^,]*;base64,/.test(source) ? '' : ';base64';
+  return `data:${mimeType}${encoding},${payload}`;
+}
+
+/**
+ * Decode the text of a data URL
+ * @param dataUrl Data URL
+ * @returns Decoded text
+ */
+function decodeDataUrl(dataUrl: string): string {
+  const payload = dataUrl.slice(dataUrl.indexOf(',') + 1);
+
+  if (!/^data:[^,]*;base64,/.test(dataUrl)) {
+    return decodeURIComponent(payload);
+  }
+
+  const binary = atob(payload);
+  return new TextDecoder().decode(Uint8Array.from(binary, char => char.charCodeAt(0)));
+}
+
+/**
+ * Read the intrinsic size of an SVG image from its width, height and viewBox attributes
+ * @param svg SVG markup
+ * @returns Size (px)
+ */
+function getSvgSize(svg: string): { width: number; height: number } {
+  const root = svg.match(/<svg\b[^>]*>/i)?.[0] || '';
+  const attribute = (name: string) => root.match(new RegExp(`\\s${name}\\s*=\\s*["']([^"']*)["']`, 'i'))?.[1];
+
+  // Percentages and other relative lengths carry no intrinsic size
+  const length = (value?: string) => (value && /^\s*[\d.]+\s*(px)?\s*$/.test(value) ? parseFloat(value) : NaN);
+  const viewBox = (attribute('viewBox') || '').split(/[\s,]+/).map(Number);
+  const ratio = viewBox.length === 4 && viewBox[2] > 0 && viewBox[3] > 0 ? viewBox[2] / viewBox[3] : NaN;
+
+  let width = length(attribute('width'));
+  let height = length(attribute('height'));
+
+  if (isNaN(width) && isNaN(height)) {
+    width = isNaN(ratio) ? DEFAULT_SVG_SIZE.width : viewBox[2];
+    height = isNaN(ratio) ? DEFAULT_SVG_SIZE.height : viewBox[3];
+  } else if (isNaN(width)) {
+    width = isNaN(ratio) ? DEFAULT_SVG_SIZE.width : height * ratio;
+  } else if (isNaN(height)) {
+    height = isNaN(ratio) ? DEFAULT_SVG_SIZE.height : width / ratio;
+  }
+
+  return { width, height };
+}
+
+/**
+ * Load an image element from a data URL
+ * @param source Image data URL
+ * @returns Loaded image, or null if it cannot be decoded
+ */
+function loadImage(source: string): Promise<HTMLImageElement | null> {
+  return new Promise(resolve => {
+    const element = new Image();
+    element.onload = () => resolve(element);
+    element.onerror = () => resolve(null);
+    element.src = source;
+  });
+}
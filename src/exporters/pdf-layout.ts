@@ -0,0 +1,261 @@
+/**
+ * Flowing layout engine for the PDF exporter
+ */
+
+import { PdfTheme, resolvePdfTheme, setFillColor } from './pdf-theme';
+
+// Use any type to bypass TypeScript issues with jsPDF
+// This is necessary because the jsPDF types don't match the actual API
+export type PDFDocument = any;
+
+/**
+ * Page margins in millimetres
+ */
+export interface LayoutMargins {
+  top: number;
+  right: number;
+  bottom: number;
+  left: number;
+}
+
+/**
+ * Size and orientation of a page
+ */
+export interface LayoutPageFormat {
+  size: string;
+  orientation: 'portrait' | 'landscape';
+}
+
+/**
+ * Position of a heading, used for bookmarks and the table of contents
+ */
+export interface LayoutAnchor {
+  /** Heading text */
+  title: string;
+  /** Nesting level (0 for sections) */
+  level: number;
+  /** Page the heading is on */
+  pageNumber: number;
+  /** Top of the heading (mm) */
+  y: number;
+  /** Key of the table of contents entry the heading fills */
+  key?: string;
+}
+
+/**
+ * Layout state shared by all section renderers
+ */
+export interface PdfLayout {
+  /** PDF document */
+  doc: PDFDocument;
+  /** Current vertical cursor position (mm from the top of the page) */
+  y: number;
+  /** Page margins */
+  margins: LayoutMargins;
+  /** Width of the current page */
+  pageWidth: number;
+  /** Height of the current page */
+  pageHeight: number;
+  /** Resolved theme */
+  theme: PdfTheme;
+  /** Headings drawn so far */
+  anchors: LayoutAnchor[];
+}
+
+/**
+ * Default margins used when the report does not define any
+ */
+export const DEFAULT_MARGINS: LayoutMargins = {
+  top: 15,
+  right: 15,
+  bottom: 10,
+  left: 15
+};
+
+/**
+ * Create a layout positioned at the top of the current page
+ * @param doc PDF document
+ * @param margins Page margins
+ * @param theme Resolved theme
+ * @returns Layout state
+ */
+export function createLayout(
+  doc: PDFDocument,
+  margins: Partial<LayoutMargins> = {},
+  theme: PdfTheme = resolvePdfTheme()
+): PdfLayout {
+  const resolvedMargins = { ...DEFAULT_MARGINS, ...margins };
+  const layout = {
+    doc,
+    y: resolvedMargins.top,
+    margins: resolvedMargins,
+    pageWidth: doc.internal.pageSize.getWidth(),
+    pageHeight: doc.internal.pageSize.getHeight(),
+    theme,
+    anchors: []
+  };
+
+  fillPageBackground(layout);
+  return layout;
+}
+
+/**
+ * Get the usable width between the left and right margins
+ * @param layout Layout state
+ * @returns Content width in mm
+ */
+export function getContentWidth(layout: PdfLayout): number {
+  return layout.pageWidth - layout.margins.left - layout.margins.right;
+}
+
+/**
+ * Get the lowest Y position content may reach on the current page
+ * @param layout Layout state
+ * @returns Bottom limit in mm
+ */
+export function getContentBottom(layout: PdfLayout): number {
+  return layout.pageHeight - layout.margins.bottom;
+}
+
+/**
+ * Get the vertical space left on the current page
+ * @param layout Layout state
+ * @returns Remaining height in mm
+ */
+export function getRemainingHeight(layout: PdfLayout): number {
+  return getContentBottom(layout) - layout.y;
+}
+
+/**
+ * Move to the next page and the top margin. A page is added unless a column
+ * drawn beside this one already created the next page.
+ * @param layout Layout state
+ * @param format Page size and orientation of an added page (default: same as the previous page)
+ */
+export function addLayoutPage(layout: PdfLayout, format?: LayoutPageFormat): void {
+  const { doc } = layout;
+  const nextPage = doc.getCurrentPageInfo().pageNumber + 1;
+  const isNewPage = nextPage > doc.getNumberOfPages();
+
+  if (isNewPage) {
+    doc.addPage(format?.size, format?.orientation);
+  } else {
+    doc.setPage(nextPage);
+  }
+
+  layout.pageWidth = doc.internal.pageSize.getWidth();
+  layout.pageHeight = doc.internal.pageSize.getHeight();
+  layout.y = layout.margins.top;
+
+  if (isNewPage) {
+    fillPageBackground(layout);
+  }
+}
+
+/**
+ * Create a layout for a column of the current layout. It starts at the same
+ * position and shares the document and headings, but is narrower.
+ * @param layout Layout state
+ * @param x Left edge of the column (mm)
+ * @param width Column width (mm)
+ * @returns Column layout state
+ */
+export function createColumnLayout(layout: PdfLayout, x: number, width: number): PdfLayout {
+  return {
+    ...layout,
+    margins: { ...layout.margins, left: x, right: layout.pageWidth - x - width }
+  };
+}
+
+/**
+ * Paint the theme background on the current page
+ * @param layout Layout state
+ */
+function fillPageBackground(layout: PdfLayout): void {
+  const { backgroundColor } = layout.theme;
+  if (!backgroundColor) return;
+
+  setFillColor(layout.doc, backgroundColor);
+  layout.doc.rect(0, 0, layout.pageWidth, layout.pageHeight, 'F');
+}
+
+/**
+ * Make sure a block of the given height fits on the current page,
+ * adding a page when it would cross the bottom margin
+ * @param layout Layout state
+ * @param height Height of the block in mm
+ * @returns True if a new page was added
+ */
+export function ensureSpace(layout: PdfLayout, height: number): boolean {
+  // A block taller than a full page can never fit, so only break when
+  // we are not already at the top of a fresh page
+  if (layout.y + height > getContentBottom(layout) && layout.y > layout.margins.top) {
+    addLayoutPage(layout);
+    return true;
+  }
+
+  return false;
+}
+
+/**
+ * Move the cursor down
+ * @param layout Layout state
+ * @param height Distance in mm
+ */
+export function moveDown(layout: PdfLayout, height: number): void {
+  layout.y += height;
+}
+
+/**
+ * Record a heading at the cursor position
+ * @param layout Layout state
+ * @param title Heading text
+ * @param level Nesting level (0 for sections)
+ * @param key Key of the table of contents entry the heading fills
+ */
+export function addAnchor(layout: PdfLayout, title: string, level: number, key?: string): void {
+  layout.anchors.push({
+    title,
+    level,
+    pageNumber: layout.doc.getCurrentPageInfo().pageNumber,
+    y: layout.y,
+    ...(key !== undefined ? { key } : {})
+  });
+}
+
+/**
+ * Get the height of one line of text at the current font size
+ * @param doc PDF document
+ * @returns Line height in mm
+ */
+export function getLineHeight(doc: PDFDocument): number {
+  return (doc.getFontSize() * doc.getLineHeightFactor()) / doc.internal.scaleFactor;
+}
+
+/**
+ * Draw wrapped text line by line, breaking pages as needed
+ * @param layout Layout state
+ * @param text Text to draw
+ * @param x Left position
+ * @param maxWidth Maximum line width
+ * @returns Number of lines drawn
+ */
+export function drawFlowingText(
+  layout: PdfLayout,
+  text: string,
+  x: number,
+  maxWidth: number
+): number {
+  const { doc } = layout;
+  const lines: string[] = doc.splitTextToSize(text, maxWidth);
+  const lineHeight = getLineHeight(doc);
+
+  lines.forEach(line => {
+    ensureSpace(layout, lineHeight);
+    // jsPDF positions text by its baseline, so offset by the font ascent
+    doc.text(line, x, layout.y + lineHeight * 0.8);
+    moveDown(layout, lineHeight);
+  });
+
+  return lines.length;
+}
@@ -0,0 +1,140 @@
+/**
+ * Table of contents and outline bookmarks for the PDF exporter
+ */
+
+import {
+  PDFDocument,
+  PdfLayout,
+  LayoutAnchor,
+  ensureSpace,
+  moveDown,
+  getContentWidth,
+  getLineHeight
+} from './pdf-layout';
+import { setDrawColor, setTextColor } from './pdf-theme';
+import { truncateText } from './pdf-table';
+import { encryptOutlineTitles } from './pdf-security';
+
+/** Font size of table of contents entries */
+const TOC_FONT_SIZE = 11;
+
+/** Extra space between table of contents entries (mm) */
+const TOC_ROW_SPACING = 2;
+
+/** Space kept between an entry title and its page number (mm) */
+const PAGE_NUMBER_WIDTH = 15;
+
+/**
+ * Space reserved for one table of contents entry
+ */
+interface TocRow {
+  /** Key of the heading that fills the row */
+  key: string;
+  pageNumber: number;
+  y: number;
+}
+
+/**
+ * Table of contents laid out before the sections it lists
+ */
+export interface TocPlaceholder {
+  rows: TocRow[];
+  rowHeight: number;
+}
+
+/**
+ * Draw the table of contents heading and reserve a row for each entry.
+ * The rows are filled in once the headings with the same keys have been drawn.
+ * @param layout Layout state
+ * @param title Heading text
+ * @param keys Keys of the entries, in order
+ * @returns Reserved rows
+ */
+export function reserveTableOfContents(layout: PdfLayout, title: string, keys: string[]): TocPlaceholder {
+  const { doc, theme } = layout;
+
+  doc.setFontSize(14);
+  doc.setFont(theme.fontFamily, 'bold');
+  setTextColor(doc, theme.primaryColor);
+  const headingHeight = getLineHeight(doc);
+  ensureSpace(layout, headingHeight * 3);
+  doc.text(title, layout.margins.left, layout.y + headingHeight * 0.8);
+  setTextColor(doc, theme.textColor);
+  doc.setFont(theme.fontFamily, 'normal');
+  moveDown(layout, headingHeight + 4);
+
+  doc.setFontSize(TOC_FONT_SIZE);
+  const rowHeight = getLineHeight(doc) + TOC_ROW_SPACING;
+  const rows: TocRow[] = [];
+
+  keys.forEach(key => {
+    ensureSpace(layout, rowHeight);
+    rows.push({ key, pageNumber: layout.doc.getCurrentPageInfo().pageNumber, y: layout.y });
+    moveDown(layout, rowHeight);
+  });
+
+  return { rows, rowHeight };
+}
+
+/**
+ * Fill the reserved table of contents rows with section titles, page numbers and links
+ * @param layout Layout state
+ * @param placeholder Reserved rows
+ * @param anchors Recorded headings
+ */
+export function drawTableOfContents(layout: PdfLayout, placeholder: TocPlaceholder, anchors: LayoutAnchor[]): void {
+  const { doc, theme } = layout;
+  const currentPage = doc.getCurrentPageInfo().pageNumber;
+  const left = layout.margins.left;
+  const right = left + getContentWidth(layout);
+
+  doc.setFontSize(TOC_FONT_SIZE);
+  doc.setFont(theme.fontFamily, 'normal');
+  const lineHeight = getLineHeight(doc);
+
+  placeholder.rows.forEach(row => {
+    const anchor = anchors.find(item => item.key === row.key);
+    if (!anchor) return;
+
+    doc.setPage(row.pageNumber);
+    const baseline = row.y + lineHeight * 0.8;
+    const title = truncateText(doc, anchor.title, right - left - PAGE_NUMBER_WIDTH);
+    const pageLabel = String(anchor.pageNumber);
+
+    setTextColor(doc, theme.textColor);
+    doc.text(title, left, baseline);
+    doc.text(pageLabel, right, baseline, { align: 'right' });
+
+    // Dotted leader between the title and the page number
+    const leaderStart = left + doc.getTextWidth(title) + 2;
+    const leaderEnd = right - doc.getTextWidth(pageLabel) - 2;
+    if (leaderEnd > leaderStart) {
+      setDrawColor(doc, theme.separatorColor);
+      doc.setLineDashPattern([0.4, 1], 0);
+      doc.line(leaderStart, baseline, leaderEnd, baseline);
+      doc.setLineDashPattern([], 0);
+    }
+
+    doc.link(left, row.y, right - left, placeholder.rowHeight, { pageNumber: anchor.pageNumber, top: anchor.y });
+  });
+
+  doc.setPage(currentPage);
+}
+
+/**
+ * Add outline bookmarks for the recorded headings
+ * @param doc PDF document
+ * @param anchors Headings in document order
+ */
+export function addOutline(doc: PDFDocument, anchors: LayoutAnchor[]): void {
+  const parents: any[] = [];
+
+  encryptOutlineTitles(doc);
+
+  anchors.forEach(anchor => {
+    // Nest under the closest preceding heading of a lower level
+    const parent = anchor.level > 0 ? parents[anchor.level - 1] ?? null : null;
+    parents[anchor.level] = doc.outline.add(parent, anchor.title, { pageNumber: anchor.pageNumber });
+    parents.length = anchor.level + 1;
+  });
+}
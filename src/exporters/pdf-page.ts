@@ -0,0 +1,248 @@
+/**
+ * Running headers, footers and page margins for the PDF exporter
+ */
+
+import { ReportConfig, ReportSection, PageRegionConfig } from '../types/report';
+import { formatDate } from '../utils/date';
+import { PDFDocument, LayoutMargins, LayoutPageFormat, DEFAULT_MARGINS } from './pdf-layout';
+import { PdfRegionStyle, PdfTheme, setDrawColor, setFillColor, setTextColor } from './pdf-theme';
+
+/** Default height of the header and footer regions (mm) */
+const DEFAULT_REGION_HEIGHT = 10;
+
+/** Gap between a region and the content area (mm) */
+const REGION_GAP = 3;
+
+/** Footer slots used when the report does not configure a footer */
+const DEFAULT_FOOTER = {
+  left: 'Generated on {datetime}',
+  right: 'Page {page} of {pages}'
+};
+
+/**
+ * Header or footer with its slots resolved
+ */
+interface ResolvedRegion {
+  height: number;
+  left?: string;
+  center?: string;
+  right?: string;
+}
+
+/**
+ * Values substituted for tokens in header and footer texts
+ */
+type PageTokens = {
+  page: number;
+  pages: number;
+  title: string;
+  subtitle: string;
+  company: string;
+  date: string;
+  datetime: string;
+};
+
+/**
+ * Get the page margins configured for a report
+ * @param report Report configuration
+ * @returns Page margins
+ */
+export function getPageMargins(report: ReportConfig): LayoutMargins {
+  return { ...DEFAULT_MARGINS, ...report.pageConfig?.margins };
+}
+
+/**
+ * Get the page size and orientation of a report or one of its sections
+ * @param report Report configuration
+ * @param section Section whose page override applies
+ * @returns Page format
+ */
+export function getPageFormat(report: ReportConfig, section?: ReportSection): LayoutPageFormat {
+  return {
+    size: section?.page?.size || report.pageConfig?.size || 'A4',
+    orientation: section?.page?.orientation || report.pageConfig?.orientation || 'portrait'
+  };
+}
+
+/**
+ * Get the margins of the content area, leaving room for the header and footer
+ * @param report Report configuration
+ * @returns Content margins
+ */
+export function getContentMargins(report: ReportConfig): LayoutMargins {
+  const margins = getPageMargins(report);
+  const header = resolveHeader(report);
+  const footer = resolveFooter(report);
+
+  return {
+    ...margins,
+    top: margins.top + (header ? header.height + REGION_GAP : 0),
+    bottom: margins.bottom + (footer ? footer.height + REGION_GAP : 0)
+  };
+}
+
+/**
+ * Draw the running header and footer on every page except the cover
+ * @param doc PDF document
+ * @param report Report configuration
+ * @param theme Resolved theme
+ */
+export function drawPageRegions(doc: PDFDocument, report: ReportConfig, theme: PdfTheme): void {
+  const header = resolveHeader(report);
+  const footer = resolveFooter(report);
+  if (!header && !footer) return;
+
+  const margins = getPageMargins(report);
+  const pageCount = doc.getNumberOfPages();
+  const now = new Date();
+
+  // The cover page has no running header or footer
+  const firstPage = report.cover?.enabled ? 2 : 1;
+
+  for (let i = firstPage; i <= pageCount; i++) {
+    doc.setPage(i);
+
+    const tokens: PageTokens = {
+      page: i,
+      pages: pageCount,
+      title: report.title,
+      subtitle: report.subtitle || '',
+      company: report.company?.name || '',
+      date: formatDate(now),
+      datetime: formatDate(now, 'YYYY-MM-DD HH:mm')
+    };
+    const pageWidth = doc.internal.pageSize.getWidth();
+    const pageHeight = doc.internal.pageSize.getHeight();
+
+    doc.setFontSize(9);
+    doc.setFont(theme.fontFamily, 'normal');
+
+    if (header) {
+      const bottom = margins.top + header.height;
+      applyRegionStyle(doc, theme.header, margins.left, margins.top, pageWidth - margins.left - margins.right, header.height);
+      drawSlots(doc, header, tokens, margins, pageWidth, margins.top + header.height / 2 + 1);
+      doc.line(margins.left, bottom, pageWidth - margins.right, bottom);
+    }
+
+    if (footer) {
+      const top = pageHeight - margins.bottom - footer.height;
+      applyRegionStyle(doc, theme.footer, margins.left, top, pageWidth - margins.left - margins.right, footer.height);
+      doc.line(margins.left, top, pageWidth - margins.right, top);
+      drawSlots(doc, footer, tokens, margins, pageWidth, top + footer.height / 2 + 1);
+    }
+  }
+
+  setTextColor(doc, theme.textColor);
+}
+
+/**
+ * Fill a region band and select its text and border colors
+ * @param doc PDF document
+ * @param style Region style
+ * @param x Left position
+ * @param y Top position
+ * @param width Band width
+ * @param height Band height
+ */
+function applyRegionStyle(doc: PDFDocument, style: PdfRegionStyle, x: number, y: number, width: number, height: number): void {
+  if (style.backgroundColor) {
+    setFillColor(doc, style.backgroundColor);
+    doc.rect(x, y, width, height, 'F');
+  }
+
+  setTextColor(doc, style.textColor);
+  setDrawColor(doc, style.borderColor);
+}
+
+/**
+ * Draw the left, centre and right texts of a region
+ * @param doc PDF document
+ * @param region Resolved region
+ * @param tokens Token values for the page
+ * @param margins Page margins
+ * @param pageWidth Page width
+ * @param baseline Text baseline
+ */
+function drawSlots(
+  doc: PDFDocument,
+  region: ResolvedRegion,
+  tokens: PageTokens,
+  margins: LayoutMargins,
+  pageWidth: number,
+  baseline: number
+): void {
+  if (region.left) {
+    doc.text(replaceTokens(region.left, tokens), margins.left, baseline);
+  }
+  if (region.center) {
+    doc.text(replaceTokens(region.center, tokens), (margins.left + pageWidth - margins.right) / 2, baseline, { align: 'center' });
+  }
+  if (region.right) {
+    doc.text(replaceTokens(region.right, tokens), pageWidth - margins.right, baseline, { align: 'right' });
+  }
+}
+
+/**
+ * Replace {token} placeholders
+ * @param text Text with placeholders
+ * @param tokens Token values
+ * @returns Text with tokens replaced
+ */
+export function replaceTokens(text: string, tokens: Record<string, string | number>): string {
+  return text.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    name in tokens ? String(tokens[name]) : placeholder
+  );
+}
+
+/**
+ * Resolve the header configuration
+ * @param report Report configuration
+ * @returns Resolved header, or null when disabled
+ */
+function resolveHeader(report: ReportConfig): ResolvedRegion | null {
+  const header = report.pageConfig?.header;
+  if (!header?.enabled) return null;
+
+  const hasSlots = header.left || header.center || header.right || header.content;
+
+  return {
+    ...resolveSlots(header),
+    // Show the report title and company when nothing else is configured
+    ...(hasSlots ? {} : { left: '{title}', right: '{company}' })
+  };
+}
+
+/**
+ * Resolve the footer configuration
+ * @param report Report configuration
+ * @returns Resolved footer, or null when disabled
+ */
+function resolveFooter(report: ReportConfig): ResolvedRegion | null {
+  const footer = report.pageConfig?.footer;
+
+  if (!footer) {
+    return { height: DEFAULT_REGION_HEIGHT, ...DEFAULT_FOOTER };
+  }
+  if (!footer.enabled) return null;
+
+  const resolved = resolveSlots(footer);
+  if (footer.showPageNumber !== false && resolved.right === undefined) {
+    resolved.right = DEFAULT_FOOTER.right;
+  }
+
+  return resolved;
+}
+
+/**
+ * Resolve the slots of a region
+ * @param region Region configuration
+ * @returns Resolved region
+ */
+function resolveSlots(region: PageRegionConfig): ResolvedRegion {
+  return {
+    height: region.height ?? DEFAULT_REGION_HEIGHT,
+    left: region.left,
+    center: region.center ?? region.content?.text,
+    right: region.right
+  };
+}
@@ -0,0 +1,190 @@
+/**
+ * Reconciliation statement rendering for the PDF exporter
+ */
+
+import { ReconciliationData, Transaction } from '../types/reconciliation';
+import { processReconciliation } from '../reconciliation/matcher';
+import { formatCurrency, formatPercentage } from '../utils/currency';
+import { formatDate } from '../utils/date';
+import {
+  PdfLayout,
+  addAnchor,
+  ensureSpace,
+  moveDown,
+  getContentWidth,
+  getLineHeight
+} from './pdf-layout';
+import { drawTable, truncateText } from './pdf-table';
+import { setFillColor, setTextColor } from './pdf-theme';
+
+/** Gap between the longest label and the values in key/value rows (mm) */
+const VALUE_GAP = 6;
+
+/**
+ * Draw an auditor-ready reconciliation statement
+ * @param layout Layout state
+ * @param data Reconciliation data
+ * @param title Section title
+ * @param level Outline level of the sub-parts, one below the section title (default: 1)
+ */
+export function drawReconciliation(layout: PdfLayout, data: ReconciliationData, title: string, level: number = 1): void {
+  const results = data.matchResults || processReconciliation(data);
+  const { account, period } = data;
+  const { summary } = results;
+  const money = (amount: number) => formatCurrency(amount, account.currency);
+
+  // Account header
+  drawSubheading(layout, 'Account', level);
+  drawKeyValueRows(layout, [
+    ['Account name', account.name],
+    ['Account number', account.number],
+    ...(account.bank ? [['Bank', account.bank] as [string, string]] : []),
+    ['Currency', account.currency],
+    ['Statement period', `${formatDate(period.startDate)} - ${formatDate(period.endDate)}`]
+  ]);
+
+  // Balances and results
+  moveDown(layout, 4);
+  drawSubheading(layout, 'Reconciliation Summary', level, summary.status);
+  drawKeyValueRows(layout, [
+    ['Opening balance', money(account.openingBalance)],
+    ['Closing balance', money(account.closingBalance)],
+    ['Matched transactions', String(results.matched.length)],
+    ['Matched amount', money(summary.matchedAmount)],
+    ['Unmatched bank amount', money(summary.unmatchedBankAmount)],
+    ['Unmatched book amount', money(summary.unmatchedBookAmount)],
+    ['Discrepancy', money(summary.discrepancy)],
+    ['Match percentage', formatPercentage(summary.matchPercentage)]
+  ]);
+
+  // Unmatched listings
+  moveDown(layout, 4);
+  drawTransactionListing(layout, 'Unmatched Bank Transactions', results.unmatchedBank, money, title, level);
+
+  moveDown(layout, 4);
+  drawTransactionListing(layout, 'Unmatched Book Transactions', results.unmatchedBook, money, title, level);
+}
+
+/**
+ * Draw a sub-heading, optionally followed by a status badge
+ * @param layout Layout state
+ * @param text Heading text
+ * @param level Outline level
+ * @param status Reconciliation status shown as a badge
+ */
+function drawSubheading(layout: PdfLayout, text: string, level: number, status?: 'balanced' | 'unbalanced'): void {
+  const { doc, theme } = layout;
+
+  doc.setFontSize(11);
+  doc.setFont(theme.fontFamily, 'bold');
+  setTextColor(doc, theme.primaryColor);
+  const lineHeight = getLineHeight(doc);
+
+  // Keep the heading with at least a couple of lines of content
+  ensureSpace(layout, lineHeight * 3);
+  addAnchor(layout, text, level);
+  doc.text(text, layout.margins.left, layout.y + lineHeight * 0.8);
+  setTextColor(doc, theme.textColor);
+
+  if (status) {
+    const label = status.toUpperCase();
+    doc.setFontSize(8);
+    const badgeWidth = doc.getTextWidth(label) + 6;
+    const badgeX = layout.margins.left + getContentWidth(layout) - badgeWidth;
+
+    // Positive color for balanced, negative for unbalanced
+    setFillColor(doc, status === 'balanced' ? theme.positiveColor : theme.negativeColor);
+    doc.roundedRect(badgeX, layout.y, badgeWidth, lineHeight, 1.5, 1.5, 'F');
+    setTextColor(doc, theme.statusTextColor);
+    doc.text(label, badgeX + badgeWidth / 2, layout.y + lineHeight * 0.7, { align: 'center' });
+    setTextColor(doc, theme.textColor);
+  }
+
+  doc.setFont(theme.fontFamily, 'normal');
+  moveDown(layout, lineHeight + 2);
+}
+
+/**
+ * Draw label/value pairs, one per line
+ * @param layout Layout state
+ * @param rows Label and value pairs
+ */
+function drawKeyValueRows(layout: PdfLayout, rows: [string, string][]): void {
+  const { doc, theme } = layout;
+  const left = layout.margins.left;
+  const width = getContentWidth(layout);
+
+  doc.setFontSize(10);
+  const lineHeight = getLineHeight(doc) + 1;
+
+  // Values start past the longest label, but keep at least half the width in narrow columns
+  const labelWidth = Math.max(...rows.map(([label]) => doc.getTextWidth(label)));
+  const valueOffset = Math.min(labelWidth + VALUE_GAP, width / 2);
+
+  rows.forEach(([label, value]) => {
+    const lines: string[] = doc.splitTextToSize(value, width - valueOffset);
+    ensureSpace(layout, lineHeight * lines.length);
+    const baseline = layout.y + lineHeight * 0.75;
+
+    setTextColor(doc, theme.secondaryColor);
+    doc.text(truncateText(doc, label, valueOffset - VALUE_GAP / 2), left, baseline);
+    setTextColor(doc, theme.textColor);
+    lines.forEach((line, index) => {
+      doc.text(line, left + valueOffset, baseline + lineHeight * index);
+    });
+
+    moveDown(layout, lineHeight * lines.length);
+  });
+}
+
+/**
+ * Draw a listing of transactions with a total row
+ * @param layout Layout state
+ * @param heading Listing heading
+ * @param transactions Transactions to list
+ * @param money Currency formatter
+ * @param title Section title, used for continuation markers
+ * @param level Outline level of the heading
+ */
+function drawTransactionListing(
+  layout: PdfLayout,
+  heading: string,
+  transactions: Transaction[],
+  money: (amount: number) => string,
+  title: string,
+  level: number
+): void {
+  const { doc, theme } = layout;
+
+  drawSubheading(layout, heading, level);
+
+  if (transactions.length === 0) {
+    doc.setFontSize(10);
+    setTextColor(doc, theme.secondaryColor);
+    doc.text('No unmatched transactions', layout.margins.left, layout.y + 4);
+    setTextColor(doc, theme.textColor);
+    moveDown(layout, 6);
+    return;
+  }
+
+  const total = transactions.reduce((sum, tx) => sum + tx.amount, 0);
+
+  drawTable(layout, {
+    headers: ['Date', 'Reference', 'Description', 'Type', 'Amount'],
+    rows: transactions.map(tx => [
+      formatDate(tx.date),
+      tx.reference || '',
+      tx.description,
+      tx.type,
+      money(tx.amount)
+    ]),
+    summary: ['Total', '', `${transactions.length} transaction${transactions.length === 1 ? '' : 's'}`, '', money(total)],
+    columns: [
+      { width: 1.2 },
+      { width: 1.2, overflow: 'truncate' },
+      { width: 3 },
+      { width: 0.8 },
+      { width: 1.4, align: 'right' }
+    ]
+  }, `${title} - ${heading}`);
+}
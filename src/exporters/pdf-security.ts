@@ -0,0 +1,98 @@
+/**
+ * Password protection for the PDF exporter
+ */
+
+import { PDFDocument } from './pdf-layout';
+
+/**
+ * Password protection and permissions.
+ * jsPDF only supports the standard security handler with 40-bit RC4, which
+ * deters casual copying and printing but can be broken quickly; do not rely
+ * on it to keep confidential figures secret.
+ */
+export interface PdfSecurityOptions {
+  /** Password required to open the document */
+  userPassword?: string;
+  /** Password that lifts the permission restrictions (random when omitted) */
+  ownerPassword?: string;
+  /** Actions allowed without the owner password (all allowed by default) */
+  permissions?: {
+    print?: boolean;
+    copy?: boolean;
+    modify?: boolean;
+  };
+}
+
+/**
+ * jsPDF encryption settings
+ */
+export interface PdfEncryptionOptions {
+  userPassword: string;
+  ownerPassword: string;
+  userPermissions: ('print' | 'modify' | 'copy' | 'annot-forms')[];
+}
+
+/**
+ * Translate security options into jsPDF encryption settings
+ * @param security Security options
+ * @returns Encryption settings, or undefined when the document is not protected
+ */
+export function getEncryptionOptions(security?: PdfSecurityOptions): PdfEncryptionOptions | undefined {
+  if (!security) return undefined;
+
+  const permissions = security.permissions || {};
+  const userPermissions = [
+    ...(permissions.print !== false ? ['print'] : []),
+    ...(permissions.modify !== false ? ['modify', 'annot-forms'] : []),
+    ...(permissions.copy !== false ? ['copy'] : [])
+  ] as PdfEncryptionOptions['userPermissions'];
+  const restricted = userPermissions.length < 4;
+
+  if (!security.userPassword && !security.ownerPassword && !restricted) {
+    return undefined;
+  }
+
+  return {
+    userPassword: security.userPassword || '',
+    // Without an owner password anyone could lift the restrictions, so use a random one
+    ownerPassword: security.ownerPassword || generatePassword(),
+    userPermissions
+  };
+}
+
+/**
+ * Generate a random password with the Web Crypto API (browsers and Node 20+)
+ * @returns Password of 32 hex characters
+ * @throws If no cryptographically secure random source is available
+ */
+function generatePassword(): string {
+  const random = globalThis.crypto;
+  if (!random?.getRandomValues) {
+    throw new Error('Cannot generate an owner password: crypto.getRandomValues is not available. Pass security.ownerPassword instead.');
+  }
+
+  const bytes = random.getRandomValues(new Uint8Array(16));
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Make jsPDF encrypt outline titles like every other string. It writes them
+ * in plain text, which viewers then decrypt into garbage in protected documents.
+ *
+ * This patches jsPDF internals: outline.objStart and outline.makeString of the
+ * outline plugin as shipped in jsPDF 3.0.0. Check it still applies when
+ * upgrading jsPDF; the security tests fail if titles leak as plain text.
+ * @param doc PDF document
+ */
+export function encryptOutlineTitles(doc: PDFDocument): void {
+  const { outline } = doc;
+  const objStart = outline.objStart;
+  let objectId = 0;
+
+  outline.objStart = function (node: { id: number }) {
+    objectId = node.id;
+    return objStart.call(outline, node);
+  };
+  outline.makeString = (value: string) =>
+    `(${doc.internal.pdfEscape(doc.internal.getEncryptor(objectId)(value))})`;
+}
@@ -0,0 +1,163 @@
+/**
+ * Sign-off block rendering for the PDF exporter
+ */
+
+import { SignoffContent, Signatory } from '../types/report';
+import { formatDate } from '../utils/date';
+import {
+  PDFDocument,
+  PdfLayout,
+  ensureSpace,
+  moveDown,
+  getContentWidth,
+  getLineHeight
+} from './pdf-layout';
+import { PlacedImage, QualitySettings, fitImage, loadImageData, prepareImage } from './pdf-images';
+import { truncateText } from './pdf-table';
+import { setDrawColor, setTextColor } from './pdf-theme';
+
+/** Signatories drawn side by side */
+const MAX_COLUMNS = 3;
+
+/** Horizontal gap between signatories (mm) */
+const COLUMN_GAP = 10;
+
+/** Vertical gap between rows of signatories (mm) */
+const ROW_GAP = 8;
+
+/** Space above the signature line for a signature (mm) */
+const SIGNATURE_HEIGHT = 15;
+
+/** Width of the blank line left for a handwritten date (mm) */
+const DATE_LINE_WIDTH = 25;
+
+/**
+ * Draw a sign-off block with a signature line for each signatory
+ * @param layout Layout state
+ * @param content Sign-off content
+ * @param quality Image quality settings
+ */
+export async function drawSignoff(layout: PdfLayout, content: SignoffContent, quality: QualitySettings): Promise<void> {
+  const { doc } = layout;
+  const { signatories } = content;
+  const columns = Math.min(MAX_COLUMNS, signatories.length);
+  const width = (getContentWidth(layout) - COLUMN_GAP * (columns - 1)) / columns;
+
+  // Load every signature first so a failure does not leave a half-drawn block
+  const signatures = await Promise.all(
+    signatories.map(signatory => (signatory.signature ? loadSignature(doc, signatory, width, quality, content.onError) : null))
+  );
+
+  doc.setFontSize(9);
+  const smallLineHeight = getLineHeight(doc);
+  doc.setFontSize(10);
+  const nameLineHeight = getLineHeight(doc);
+  const blockHeight = smallLineHeight + SIGNATURE_HEIGHT + 1 + nameLineHeight + smallLineHeight;
+
+  for (let start = 0; start < signatories.length; start += columns) {
+    if (start > 0) {
+      moveDown(layout, ROW_GAP);
+    }
+    ensureSpace(layout, blockHeight);
+
+    signatories.slice(start, start + columns).forEach((signatory, column) => {
+      const x = layout.margins.left + column * (width + COLUMN_GAP);
+      drawSignatory(layout, signatory, signatures[start + column], x, width);
+    });
+
+    moveDown(layout, blockHeight);
+  }
+}
+
+/**
+ * Draw one signatory: role, signature, signature line, name and date
+ * @param layout Layout state
+ * @param signatory Signatory
+ * @param signature Signature image, or null to leave the line blank
+ * @param x Left position (mm)
+ * @param width Block width (mm)
+ */
+function drawSignatory(
+  layout: PdfLayout,
+  signatory: Signatory,
+  signature: PlacedImage | null,
+  x: number,
+  width: number
+): void {
+  const { doc, theme } = layout;
+  let y = layout.y;
+
+  // Role
+  doc.setFontSize(9);
+  doc.setFont(theme.fontFamily, 'normal');
+  const smallLineHeight = getLineHeight(doc);
+  setTextColor(doc, theme.secondaryColor);
+  doc.text(truncateText(doc, signatory.role, width), x, y + smallLineHeight * 0.8);
+  y += smallLineHeight;
+
+  // Signature resting on the line
+  const lineY = y + SIGNATURE_HEIGHT;
+  if (signature) {
+    doc.addImage(signature.data, signature.format, x, lineY - signature.height - 0.5, signature.width, signature.height);
+  }
+  setDrawColor(doc, theme.textColor);
+  doc.line(x, lineY, x + width, lineY);
+  y = lineY + 1;
+
+  // Name
+  doc.setFontSize(10);
+  doc.setFont(theme.fontFamily, 'bold');
+  const nameLineHeight = getLineHeight(doc);
+  setTextColor(doc, theme.textColor);
+  doc.text(truncateText(doc, signatory.name, width), x, y + nameLineHeight * 0.8);
+  doc.setFont(theme.fontFamily, 'normal');
+  y += nameLineHeight;
+
+  // Date, or a blank line to write it on
+  doc.setFontSize(9);
+  setTextColor(doc, theme.secondaryColor);
+  const dateBaseline = y + smallLineHeight * 0.8;
+  if (signatory.date) {
+    doc.text(`Date: ${formatDate(signatory.date)}`, x, dateBaseline);
+  } else {
+    doc.text('Date:', x, dateBaseline);
+    const lineStart = x + doc.getTextWidth('Date:') + 2;
+    setDrawColor(doc, theme.separatorColor);
+    doc.line(lineStart, dateBaseline, Math.min(lineStart + DATE_LINE_WIDTH, x + width), dateBaseline);
+  }
+
+  setTextColor(doc, theme.textColor);
+}
+
+/**
+ * Load a signature image and size it to the signature area
+ * @param doc PDF document
+ * @param signatory Signatory with a signature image
+ * @param width Signature area width (mm)
+ * @param quality Image quality settings
+ * @param onError What to do when the signature cannot be loaded
+ * @returns Signature ready to draw, or null when it is skipped
+ * @throws If the signature cannot be loaded and onError is not 'skip'
+ */
+async function loadSignature(
+  doc: PDFDocument,
+  signatory: Signatory,
+  width: number,
+  quality: QualitySettings,
+  onError: SignoffContent['onError']
+): Promise<PlacedImage | null> {
+  try {
+    const image = await loadImageData(doc, signatory.signature as string);
+    const size = fitImage(image, width, SIGNATURE_HEIGHT - 1);
+    const prepared = await prepareImage(image, size.width, size.height, quality);
+
+    return { ...prepared, ...size };
+  } catch (error) {
+    if (onError === 'skip') {
+      return null;
+    }
+
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new Error(`Could not add signature of ${signatory.name} to PDF: ${reason}`, { cause: error });
+  }
+}
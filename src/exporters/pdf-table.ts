@@ -0,0 +1,315 @@
+/**
+ * Table rendering for the PDF exporter
+ */
+
+import { TableContent, TableColumn } from '../types/report';
+import {
+  PDFDocument,
+  PdfLayout,
+  addLayoutPage,
+  getContentBottom,
+  getContentWidth,
+  getLineHeight,
+  moveDown
+} from './pdf-layout';
+import { setDrawColor, setFillColor, setTextColor } from './pdf-theme';
+
+/** Horizontal padding inside each cell (mm) */
+const CELL_PADDING_X = 2;
+
+/** Vertical padding inside each cell (mm) */
+const CELL_PADDING_Y = 1.5;
+
+/** Font size used for table cells */
+const TABLE_FONT_SIZE = 9;
+
+/**
+ * Matches formatted numbers such as 1,200.50, $1,200, -3.5%, (450.00), € 12, 1.200,00 € or 1 200 kr,
+ * but not labels such as Q1 or FY2024
+ */
+const NUMERIC_PATTERN = /^[-+(]?\s*[^\w\s-]{0,3}\s?-?[\d.,\s]*\d[\d.,]*\s?(?:%|[^\w\s()-]{1,3}|\p{L}{1,3})?\)?$/u;
+
+/**
+ * Resolved column geometry and formatting
+ */
+interface ResolvedColumn {
+  x: number;
+  width: number;
+  align: 'left' | 'center' | 'right';
+  overflow: 'wrap' | 'truncate';
+}
+
+/**
+ * Draw a table that flows across pages, repeating the header row on each page
+ * @param layout Layout state
+ * @param content Table content
+ * @param title Table title, used for the continuation marker
+ */
+export function drawTable(layout: PdfLayout, content: TableContent, title?: string): void {
+  const { doc, theme } = layout;
+
+  if (content.headers.length === 0) {
+    return;
+  }
+
+  const columns = resolveColumns(layout, content);
+  const repeatHeader = content.repeatHeader ?? true;
+
+  doc.setFontSize(TABLE_FONT_SIZE);
+  const lineHeight = getLineHeight(doc);
+
+  // Keep the header together with at least the first row
+  const headerHeight = measureRow(doc, content.headers, columns, lineHeight);
+  const firstRowHeight = content.rows.length > 0
+    ? measureRow(doc, content.rows[0], columns, lineHeight)
+    : 0;
+  if (layout.y + headerHeight + firstRowHeight > getContentBottom(layout) && layout.y > layout.margins.top) {
+    addLayoutPage(layout);
+  }
+
+  drawHeaderRow(layout, content.headers, columns, lineHeight);
+
+  content.rows.forEach((row, rowIndex) => {
+    const rowHeight = measureRow(doc, row, columns, lineHeight);
+
+    if (layout.y + rowHeight > getContentBottom(layout)) {
+      breakTablePage(layout, content, columns, lineHeight, repeatHeader, title);
+    }
+
+    // Alternate row background
+    const rowFill = rowIndex % 2 === 1 ? theme.table.rowAltBackgroundColor : theme.table.rowBackgroundColor;
+    if (rowFill) {
+      setFillColor(doc, rowFill);
+      doc.rect(columns[0].x, layout.y, getTableWidth(columns), rowHeight, 'F');
+    }
+
+    setTextColor(doc, theme.table.rowTextColor);
+    drawRowCells(doc, row, columns, layout.y, lineHeight);
+    moveDown(layout, rowHeight);
+  });
+
+  // Draw summary row once, after the last data row
+  if (content.summary) {
+    const summaryHeight = measureRow(doc, content.summary, columns, lineHeight);
+
+    if (layout.y + summaryHeight > getContentBottom(layout)) {
+      breakTablePage(layout, content, columns, lineHeight, repeatHeader, title);
+    }
+
+    setDrawColor(doc, theme.table.borderColor);
+    doc.line(columns[0].x, layout.y, columns[0].x + getTableWidth(columns), layout.y);
+
+    setTextColor(doc, theme.table.rowTextColor);
+    doc.setFont(theme.fontFamily, 'bold');
+    drawRowCells(doc, content.summary, columns, layout.y, lineHeight);
+    doc.setFont(theme.fontFamily, 'normal');
+    moveDown(layout, summaryHeight);
+  }
+
+  setTextColor(doc, theme.textColor);
+}
+
+/**
+ * Move the table onto a new page, marking the continuation
+ * @param layout Layout state
+ * @param content Table content
+ * @param columns Resolved columns
+ * @param lineHeight Line height
+ * @param repeatHeader Whether to repeat the header row
+ * @param title Table title
+ */
+function breakTablePage(
+  layout: PdfLayout,
+  content: TableContent,
+  columns: ResolvedColumn[],
+  lineHeight: number,
+  repeatHeader: boolean,
+  title?: string
+): void {
+  const { doc, theme } = layout;
+
+  addLayoutPage(layout);
+
+  // Add continuation marker
+  doc.setFont(theme.fontFamily, 'italic');
+  setTextColor(doc, theme.secondaryColor);
+  doc.text(title ? `${title} (continued)` : '(continued)', columns[0].x, layout.y + lineHeight * 0.8);
+  doc.setFont(theme.fontFamily, 'normal');
+  moveDown(layout, lineHeight + 2);
+
+  if (repeatHeader) {
+    drawHeaderRow(layout, content.headers, columns, lineHeight);
+  }
+}
+
+/**
+ * Draw the header row
+ * @param layout Layout state
+ * @param headers Header labels
+ * @param columns Resolved columns
+ * @param lineHeight Line height
+ */
+function drawHeaderRow(
+  layout: PdfLayout,
+  headers: string[],
+  columns: ResolvedColumn[],
+  lineHeight: number
+): void {
+  const { doc, theme } = layout;
+
+  doc.setFont(theme.fontFamily, 'bold');
+  const headerHeight = measureRow(doc, headers, columns, lineHeight);
+
+  setFillColor(doc, theme.table.headerBackgroundColor);
+  doc.rect(columns[0].x, layout.y, getTableWidth(columns), headerHeight, 'F');
+
+  setTextColor(doc, theme.table.headerTextColor);
+  drawRowCells(doc, headers, columns, layout.y, lineHeight);
+  doc.setFont(theme.fontFamily, 'normal');
+  moveDown(layout, headerHeight);
+}
+
+/**
+ * Draw the cells of one row
+ * @param doc PDF document
+ * @param row Row values
+ * @param columns Resolved columns
+ * @param y Top of the row
+ * @param lineHeight Line height
+ */
+function drawRowCells(
+  doc: PDFDocument,
+  row: (string | number)[],
+  columns: ResolvedColumn[],
+  y: number,
+  lineHeight: number
+): void {
+  columns.forEach((column, colIndex) => {
+    const lines = getCellLines(doc, row[colIndex], column);
+
+    let x = column.x + CELL_PADDING_X;
+    if (column.align === 'right') {
+      x = column.x + column.width - CELL_PADDING_X;
+    } else if (column.align === 'center') {
+      x = column.x + column.width / 2;
+    }
+
+    lines.forEach((line, lineIndex) => {
+      const baseline = y + CELL_PADDING_Y + lineHeight * (lineIndex + 0.8);
+      doc.text(line, x, baseline, { align: column.align });
+    });
+  });
+}
+
+/**
+ * Measure the height of a row
+ * @param doc PDF document
+ * @param row Row values
+ * @param columns Resolved columns
+ * @param lineHeight Line height
+ * @returns Row height in mm
+ */
+function measureRow(
+  doc: PDFDocument,
+  row: (string | number)[],
+  columns: ResolvedColumn[],
+  lineHeight: number
+): number {
+  const lineCount = columns.reduce(
+    (max, column, colIndex) => Math.max(max, getCellLines(doc, row[colIndex], column).length),
+    1
+  );
+
+  return lineCount * lineHeight + CELL_PADDING_Y * 2;
+}
+
+/**
+ * Split a cell value into the lines to draw
+ * @param doc PDF document
+ * @param value Cell value
+ * @param column Resolved column
+ * @returns Lines of text
+ */
+function getCellLines(doc: PDFDocument, value: string | number | undefined, column: ResolvedColumn): string[] {
+  const text = value === undefined || value === null ? '' : String(value);
+  const maxWidth = column.width - CELL_PADDING_X * 2;
+
+  if (column.overflow === 'truncate') {
+    return [truncateText(doc, text, maxWidth)];
+  }
+
+  return doc.splitTextToSize(text, maxWidth);
+}
+
+/**
+ * Truncate text with an ellipsis so it fits the given width
+ * @param doc PDF document
+ * @param text Text to truncate
+ * @param maxWidth Maximum width
+ * @returns Truncated text
+ */
+export function truncateText(doc: PDFDocument, text: string, maxWidth: number): string {
+  if (doc.getTextWidth(text) <= maxWidth) {
+    return text;
+  }
+
+  const ellipsis = '…';
+  let truncated = text;
+  while (truncated.length > 0 && doc.getTextWidth(truncated + ellipsis) > maxWidth) {
+    truncated = truncated.slice(0, -1);
+  }
+
+  return truncated.trimEnd() + ellipsis;
+}
+
+/**
+ * Resolve column positions, widths and formatting
+ * @param layout Layout state
+ * @param content Table content
+ * @returns Resolved columns
+ */
+function resolveColumns(layout: PdfLayout, content: TableContent): ResolvedColumn[] {
+  const settings: TableColumn[] = content.headers.map((_, index) => content.columns?.[index] || {});
+  const totalWeight = settings.reduce((sum, column) => sum + (column.width ?? 1), 0);
+  const tableWidth = getContentWidth(layout);
+
+  let x = layout.margins.left;
+
+  return settings.map((column, index) => {
+    const width = tableWidth * ((column.width ?? 1) / totalWeight);
+    const resolved: ResolvedColumn = {
+      x,
+      width,
+      align: column.align || (isNumericColumn(content.rows, index) ? 'right' : 'left'),
+      overflow: column.overflow || 'wrap'
+    };
+
+    x += width;
+    return resolved;
+  });
+}
+
+/**
+ * Check whether every non-empty value in a column is numeric
+ * @param rows Table rows
+ * @param index Column index
+ * @returns True if the column holds numbers
+ */
+function isNumericColumn(rows: (string | number)[][], index: number): boolean {
+  const values = rows
+    .map(row => row[index])
+    .filter(value => value !== undefined && value !== null && value !== '');
+
+  return values.length > 0 && values.every(value =>
+    typeof value === 'number' || NUMERIC_PATTERN.test(String(value).trim())
+  );
+}
+
+/**
+ * Get the total width of the table
+ * @param columns Resolved columns
+ * @returns Width in mm
+ */
+function getTableWidth(columns: ResolvedColumn[]): number {
+  return columns.reduce((sum, column) => sum + column.width, 0);
+}
@@ -0,0 +1,278 @@
+/**
+ * Formatted text rendering for the PDF exporter
+ */
+
+import { TextContent } from '../types/report';
+import { InlineSpan, TextBlock, parseHtml, parseMarkdown } from './rich-text';
+import {
+  PDFDocument,
+  PdfLayout,
+  ensureSpace,
+  moveDown,
+  getContentWidth,
+  getLineHeight
+} from './pdf-layout';
+import { drawTable } from './pdf-table';
+import { setDrawColor, setFillColor, setTextColor } from './pdf-theme';
+
+/** Heading font sizes by level */
+const HEADING_FONT_SIZES = [16, 14, 12.5, 11.5, 11, 11];
+
+/** Indentation of list items (mm) */
+const LIST_INDENT = 7;
+
+/** Space after each block (mm) */
+const BLOCK_SPACING = 2.5;
+
+/**
+ * Word or space measured for line breaking
+ */
+interface InlineRun {
+  text: string;
+  span: InlineSpan;
+  width: number;
+}
+
+/**
+ * Draw text content, formatting markdown and HTML
+ * @param layout Layout state
+ * @param content Text content
+ */
+export function drawTextContent(layout: PdfLayout, content: TextContent): void {
+  if (content.format === 'markdown' || content.format === 'html') {
+    const blocks = content.format === 'markdown' ? parseMarkdown(content.text) : parseHtml(content.text);
+    blocks.forEach(block => drawBlock(layout, block));
+    return;
+  }
+
+  // Plain text keeps its line breaks as they are
+  content.text.split('\n').forEach(line => {
+    drawInlineSpans(layout, [{ text: line }], layout.margins.left, getContentWidth(layout), layout.theme.fontSize);
+  });
+  setSpanFont(layout.doc, {}, layout.theme.fontFamily);
+}
+
+/**
+ * Draw a single block
+ * @param layout Layout state
+ * @param block Text block
+ */
+function drawBlock(layout: PdfLayout, block: TextBlock): void {
+  const { doc, theme } = layout;
+  const left = layout.margins.left;
+  const width = getContentWidth(layout);
+
+  switch (block.type) {
+    case 'heading': {
+      const fontSize = HEADING_FONT_SIZES[Math.min(block.level, 6) - 1];
+      moveDown(layout, 1.5);
+      // Keep headings with the first lines of the following block
+      doc.setFontSize(fontSize);
+      ensureSpace(layout, getLineHeight(doc) * 3);
+      drawInlineSpans(layout, block.spans.map(span => ({ ...span, bold: true })), left, width, fontSize);
+      moveDown(layout, 1);
+      break;
+    }
+    case 'paragraph':
+      drawInlineSpans(layout, block.spans, left, width, theme.fontSize);
+      moveDown(layout, BLOCK_SPACING);
+      break;
+    case 'list':
+      block.items.forEach((item, index) => {
+        doc.setFontSize(theme.fontSize);
+        const lineHeight = getLineHeight(doc);
+        ensureSpace(layout, lineHeight);
+
+        // Draw the bullet or number in the indentation
+        setSpanFont(doc, {}, theme.fontFamily);
+        const marker = block.ordered ? `${index + 1}.` : '•';
+        doc.text(marker, left + LIST_INDENT - 2, layout.y + lineHeight * 0.8, { align: 'right' });
+
+        drawInlineSpans(layout, item, left + LIST_INDENT, width - LIST_INDENT, theme.fontSize);
+        moveDown(layout, 0.5);
+      });
+      moveDown(layout, BLOCK_SPACING);
+      break;
+    case 'table':
+      drawTable(layout, { headers: block.headers, rows: block.rows });
+      moveDown(layout, BLOCK_SPACING + 1);
+      break;
+    case 'rule':
+      ensureSpace(layout, 4);
+      moveDown(layout, 2);
+      setDrawColor(doc, theme.separatorColor);
+      doc.line(left, layout.y, left + width, layout.y);
+      moveDown(layout, 2 + BLOCK_SPACING);
+      break;
+  }
+
+  setSpanFont(doc, {}, theme.fontFamily);
+}
+
+/**
+ * Draw inline spans, wrapping words across lines and pages
+ * @param layout Layout state
+ * @param spans Inline spans
+ * @param x Left position
+ * @param maxWidth Maximum line width
+ * @param fontSize Font size
+ */
+function drawInlineSpans(layout: PdfLayout, spans: InlineSpan[], x: number, maxWidth: number, fontSize: number): void {
+  const { doc, theme } = layout;
+
+  doc.setFontSize(fontSize);
+  const lineHeight = getLineHeight(doc);
+  const lines = breakLines(doc, spans, maxWidth, theme.fontFamily);
+
+  lines.forEach(line => {
+    ensureSpace(layout, lineHeight);
+    const baseline = layout.y + lineHeight * 0.8;
+    let cursor = x;
+
+    line.forEach(run => {
+      setSpanFont(doc, run.span, theme.fontFamily);
+
+      if (run.span.code) {
+        setFillColor(doc, theme.codeBackgroundColor);
+        doc.rect(cursor, layout.y + lineHeight * 0.1, run.width, lineHeight * 0.85, 'F');
+      }
+
+      if (run.span.link) {
+        setTextColor(doc, theme.accentColor);
+        doc.text(run.text, cursor, baseline);
+        if (run.text.trim()) {
+          setDrawColor(doc, theme.accentColor);
+          doc.setLineWidth(0.15);
+          doc.line(cursor, baseline + 0.6, cursor + run.width, baseline + 0.6);
+          doc.link(cursor, layout.y, run.width, lineHeight, { url: run.span.link });
+        }
+        setTextColor(doc, theme.textColor);
+      } else {
+        doc.text(run.text, cursor, baseline);
+      }
+
+      cursor += run.width;
+    });
+
+    moveDown(layout, lineHeight);
+  });
+
+  doc.setLineWidth(0.2);
+}
+
+/**
+ * Break spans into lines that fit the given width
+ * @param doc PDF document
+ * @param spans Inline spans
+ * @param maxWidth Maximum line width
+ * @param fontFamily Font family
+ * @returns Lines of measured runs
+ */
+function breakLines(doc: PDFDocument, spans: InlineSpan[], maxWidth: number, fontFamily: string): InlineRun[][] {
+  const lines: InlineRun[][] = [[]];
+  let lineWidth = 0;
+
+  spans.forEach(span => {
+    setSpanFont(doc, span, fontFamily);
+    const spaceWidth = doc.getTextWidth(' ');
+
+    const addRun = (text: string, width: number, isSpace: boolean) => {
+      let line = lines[lines.length - 1];
+
+      // Wrap before a word that does not fit
+      if (!isSpace && line.length > 0 && lineWidth + width > maxWidth) {
+        trimTrailingSpace(line, spaceWidth);
+        line = [];
+        lines.push(line);
+        lineWidth = 0;
+      }
+
+      // Drop spaces at the start of a line
+      if (isSpace && line.length === 0) return;
+
+      // Merge with the previous run when the formatting is the same
+      const previous = line[line.length - 1];
+      if (previous && previous.span === span) {
+        previous.text += text;
+        previous.width += width;
+      } else {
+        line.push({ text, span, width });
+      }
+      lineWidth += width;
+    };
+
+    span.text.split(/(\s+)/).forEach(part => {
+      if (part === '') return;
+
+      if (/^\s+$/.test(part)) {
+        addRun(' ', spaceWidth, true);
+        return;
+      }
+
+      // Break words wider than a line by character, like splitTextToSize
+      const pieces = doc.getTextWidth(part) > maxWidth ? splitWord(doc, part, maxWidth) : [part];
+      pieces.forEach(piece => addRun(piece, doc.getTextWidth(piece), false));
+    });
+  });
+
+  return lines.filter((line, index) => line.length > 0 || index === 0);
+}
+
+/**
+ * Split a word into pieces that each fit the given width
+ * @param doc PDF document
+ * @param word Word in the current font
+ * @param maxWidth Maximum piece width
+ * @returns Pieces, each at least one character long
+ */
+function splitWord(doc: PDFDocument, word: string, maxWidth: number): string[] {
+  const pieces: string[] = [];
+  let piece = '';
+
+  Array.from(word).forEach(character => {
+    if (piece && doc.getTextWidth(piece + character) > maxWidth) {
+      pieces.push(piece);
+      piece = '';
+    }
+    piece += character;
+  });
+
+  if (piece) pieces.push(piece);
+  return pieces;
+}
+
+/**
+ * Remove a trailing space from the last run of a line
+ * @param line Line of runs
+ * @param spaceWidth Width of a space in the run's font
+ */
+function trimTrailingSpace(line: InlineRun[], spaceWidth: number): void {
+  const last = line[line.length - 1];
+  if (last && last.text.endsWith(' ')) {
+    last.text = last.text.slice(0, -1);
+    last.width -= spaceWidth;
+    if (last.text === '') line.pop();
+  }
+}
+
+/**
+ * Select the font for a span
+ * @param doc PDF document
+ * @param span Inline span
+ * @param fontFamily Font family for non-code text
+ */
+function setSpanFont(doc: PDFDocument, span: Partial<InlineSpan>, fontFamily: string): void {
+  if (span.code) {
+    doc.setFont('courier', 'normal');
+    return;
+  }
+
+  const style = span.bold && span.italic
+    ? 'bolditalic'
+    : span.bold
+      ? 'bold'
+      : span.italic
+        ? 'italic'
+        : 'normal';
+  doc.setFont(fontFamily, style);
+}
@@ -0,0 +1,258 @@
+/**
+ * Theme resolution for the PDF exporter
+ */
+
+import { BuiltInThemeName, ThemeConfig } from '../types/config';
+import { ChartConfig } from '../types/chart';
+import { getTheme } from '../core/themes';
+import { SERIES_COLORS } from '../charts/palette';
+import { RgbaColor, parseColor, flattenColor } from '../utils/color';
+import { PDFDocument } from './pdf-layout';
+
+/** Fonts built into every PDF viewer */
+const STANDARD_FONTS: Record<string, string> = {
+  helvetica: 'helvetica',
+  arial: 'helvetica',
+  'sans-serif': 'helvetica',
+  times: 'times',
+  'times new roman': 'times',
+  serif: 'times',
+  courier: 'courier',
+  'courier new': 'courier',
+  monospace: 'courier'
+};
+
+/** Opaque black */
+const BLACK: RgbaColor = { r: 0, g: 0, b: 0, a: 1 };
+
+/** Opaque white */
+const WHITE: RgbaColor = { r: 255, g: 255, b: 255, a: 1 };
+
+/** Points per CSS pixel; ThemeConfig.fontSize is in pixels */
+const PT_PER_PX = 0.75;
+
+/** Chart types colored per item rather than per dataset */
+const PER_ITEM_COLOR_TYPES = ['pie', 'doughnut', 'polarArea'];
+
+/**
+ * Colors of a running header or footer
+ */
+export interface PdfRegionStyle {
+  /** Band fill, or null for none */
+  backgroundColor: RgbaColor | null;
+  textColor: RgbaColor;
+  borderColor: RgbaColor;
+}
+
+/**
+ * Theme with every value resolved to something jsPDF can use
+ */
+export interface PdfTheme {
+  /** jsPDF font family */
+  fontFamily: string;
+  /** Body text size (pt) */
+  fontSize: number;
+  /** Report and section titles */
+  primaryColor: RgbaColor;
+  /** Labels and secondary text */
+  secondaryColor: RgbaColor;
+  /** Links */
+  accentColor: RgbaColor;
+  /** Page fill, or null to leave pages white */
+  backgroundColor: RgbaColor | null;
+  /** Body text */
+  textColor: RgbaColor;
+  /** Positive changes and balanced status */
+  positiveColor: RgbaColor;
+  /** Negative changes and unbalanced status */
+  negativeColor: RgbaColor;
+  /** Separator lines */
+  separatorColor: RgbaColor;
+  /** Summary card fill */
+  cardColor: RgbaColor;
+  /** Summary card border, or null for none */
+  cardBorderColor: RgbaColor | null;
+  /** Fill behind inline code */
+  codeBackgroundColor: RgbaColor;
+  /** Text on positive and negative status badges */
+  statusTextColor: RgbaColor;
+  header: PdfRegionStyle;
+  footer: PdfRegionStyle;
+  table: {
+    headerBackgroundColor: RgbaColor;
+    headerTextColor: RgbaColor;
+    /** Fill of odd rows, or null for none */
+    rowBackgroundColor: RgbaColor | null;
+    /** Fill of even rows, or null for none */
+    rowAltBackgroundColor: RgbaColor | null;
+    rowTextColor: RgbaColor;
+    borderColor: RgbaColor;
+  };
+  /** Chart palette */
+  chartColors?: string[];
+}
+
+/**
+ * Resolve a theme for PDF rendering
+ * @param theme Theme name or configuration
+ * @param fontFamilies Names of the font families registered with the document
+ * @returns Resolved theme
+ */
+export function resolvePdfTheme(theme?: BuiltInThemeName | ThemeConfig, fontFamilies: string[] = []): PdfTheme {
+  const config = getTheme(theme);
+  const color = (value: string | undefined, fallback: RgbaColor) => flattenColor(parseColor(value, fallback));
+  const optionalColor = (value: string | undefined, fallback: RgbaColor | null) =>
+    value ? color(value, fallback || WHITE) : fallback;
+
+  const textColor = color(config.textColor, BLACK);
+  const secondaryColor = color(config.secondaryColor, grey(100));
+  const tableStyles = config.tableStyles || {};
+
+  return {
+    fontFamily: resolveFontFamily(config.fontFamily, fontFamilies),
+    fontSize: config.fontSize ? config.fontSize * PT_PER_PX : 11,
+    primaryColor: color(config.primaryColor, textColor),
+    secondaryColor,
+    accentColor: color(config.accentColor, { r: 0, g: 82, b: 204, a: 1 }),
+    backgroundColor: optionalColor(config.backgroundColor, null),
+    textColor,
+    positiveColor: color(config.positiveColor, { r: 0, g: 150, b: 0, a: 1 }),
+    negativeColor: color(config.negativeColor, { r: 200, g: 0, b: 0, a: 1 }),
+    separatorColor: color(config.headerStyles?.borderColor, grey(200)),
+    cardColor: color(tableStyles.rowAltBackgroundColor, grey(250)),
+    cardBorderColor: optionalColor(tableStyles.borderColor, null),
+    codeBackgroundColor: color(tableStyles.rowAltBackgroundColor, grey(240)),
+    statusTextColor: color(config.backgroundColor, WHITE),
+    header: {
+      backgroundColor: optionalColor(config.headerStyles?.backgroundColor, null),
+      textColor: color(config.headerStyles?.textColor, secondaryColor),
+      borderColor: color(config.headerStyles?.borderColor, grey(200))
+    },
+    footer: {
+      backgroundColor: optionalColor(config.footerStyles?.backgroundColor, null),
+      textColor: color(config.footerStyles?.textColor, secondaryColor),
+      borderColor: color(config.footerStyles?.borderColor, grey(200))
+    },
+    table: {
+      headerBackgroundColor: color(tableStyles.headerBackgroundColor, grey(230)),
+      headerTextColor: color(tableStyles.headerTextColor, textColor),
+      rowBackgroundColor: optionalColor(tableStyles.rowBackgroundColor, null),
+      rowAltBackgroundColor: optionalColor(tableStyles.rowAltBackgroundColor, grey(245)),
+      rowTextColor: color(tableStyles.rowTextColor, textColor),
+      borderColor: color(tableStyles.borderColor, grey(150))
+    },
+    chartColors: config.chartColors && config.chartColors.length > 0 ? config.chartColors : undefined
+  };
+}
+
+/**
+ * Map a CSS font family list to a registered or standard PDF font
+ * @param fontFamily Font family, e.g. 'Arial, sans-serif'
+ * @param registered Names of the registered font families
+ * @returns jsPDF font name
+ */
+function resolveFontFamily(fontFamily: string | undefined, registered: string[]): string {
+  const families = (fontFamily || '').split(',').map(family => family.trim().replace(/^['"]|['"]$/g, '').toLowerCase());
+
+  for (const family of families) {
+    const custom = registered.find(name => name.toLowerCase() === family);
+    if (custom) return custom;
+    if (STANDARD_FONTS[family]) return STANDARD_FONTS[family];
+  }
+
+  return 'helvetica';
+}
+
+/**
+ * Create an opaque grey
+ * @param level Grey level (0-255)
+ * @returns Color
+ */
+function grey(level: number): RgbaColor {
+  return { r: level, g: level, b: level, a: 1 };
+}
+
+/**
+ * Set the fill color
+ * @param doc PDF document
+ * @param color Color
+ */
+export function setFillColor(doc: PDFDocument, color: RgbaColor): void {
+  doc.setFillColor(color.r, color.g, color.b);
+}
+
+/**
+ * Set the stroke color
+ * @param doc PDF document
+ * @param color Color
+ */
+export function setDrawColor(doc: PDFDocument, color: RgbaColor): void {
+  doc.setDrawColor(color.r, color.g, color.b);
+}
+
+/**
+ * Set the text color
+ * @param doc PDF document
+ * @param color Color
+ */
+export function setTextColor(doc: PDFDocument, color: RgbaColor): void {
+  doc.setTextColor(color.r, color.g, color.b);
+}
+
+/**
+ * Apply the theme palette to a chart. Datasets without colors and colors
+ * taken from the default palette are replaced; custom colors are kept.
+ * @param config Chart configuration
+ * @param palette Theme chart colors
+ * @returns Chart configuration with colors applied
+ */
+export function applyChartPalette(config: ChartConfig, palette?: string[]): ChartConfig {
+  if (!palette) return config;
+
+  const perItem = PER_ITEM_COLOR_TYPES.includes(config.type);
+  const paletteColor = (index: number) => palette[index % palette.length];
+
+  return {
+    ...config,
+    data: {
+      ...config.data,
+      datasets: config.data.datasets.map((dataset, index) => {
+        if (!dataset.backgroundColor && !dataset.borderColor) {
+          return perItem
+            ? { ...dataset, backgroundColor: config.data.labels.map((_, item) => paletteColor(item)) }
+            : { ...dataset, backgroundColor: paletteColor(index), borderColor: paletteColor(index) };
+        }
+
+        return {
+          ...dataset,
+          backgroundColor: replaceDefaultColor(dataset.backgroundColor, paletteColor),
+          borderColor: replaceDefaultColor(dataset.borderColor, paletteColor)
+        };
+      })
+    }
+  };
+}
+
+/**
+ * Swap colors from the default palette for the theme color at the same position,
+ * keeping their transparency
+ * @param color Color or per-item colors
+ * @param paletteColor Theme color lookup
+ * @returns Themed color
+ */
+function replaceDefaultColor<T extends string | string[] | undefined>(color: T, paletteColor: (index: number) => string): T {
+  if (Array.isArray(color)) {
+    return color.map(item => replaceDefaultColor(item, paletteColor)) as T;
+  }
+  if (!color) return color;
+
+  const parsed = parseColor(color as string);
+  const index = SERIES_COLORS.findIndex(entry => {
+    const base = parseColor(entry);
+    return base.r === parsed.r && base.g === parsed.g && base.b === parsed.b;
+  });
+  if (index === -1) return color;
+
+  const themed = parseColor(paletteColor(index));
+  return `rgba(${themed.r}, ${themed.g}, ${themed.b}, ${themed.a * parsed.a})` as T;
+}
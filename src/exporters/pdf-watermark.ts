@@ -0,0 +1,181 @@
+/**
+ * Watermarks and status stamps for the PDF exporter
+ */
+
+import { ReportConfig } from '../types/report';
+import { parseColor } from '../utils/color';
+import { PDFDocument } from './pdf-layout';
+
+/**
+ * Preset stamp
+ */
+export type WatermarkPreset = 'draft' | 'confidential' | 'unaudited';
+
+/**
+ * Text or image drawn across pages
+ */
+export interface PdfWatermark {
+  /** Text to draw */
+  text?: string;
+  /** Image data URL, used instead of text */
+  image?: string;
+  /** Image width (mm, default: half the page width) */
+  width?: number;
+  /** Image height (mm, default: keeps the aspect ratio) */
+  height?: number;
+  /** Opacity between 0 and 1 (default: 0.15) */
+  opacity?: number;
+  /** Rotation in degrees, counter-clockwise (default: 45) */
+  rotation?: number;
+  /** Text color (default: grey) */
+  color?: string;
+  /** Font size (default: 72) */
+  fontSize?: number;
+  /** Pages to mark, as 1-based page numbers or an inclusive range (default: every page) */
+  pages?: number[] | { from?: number; to?: number };
+  /** What to do when the image cannot be added: 'throw' rejects the export, 'skip' leaves it out (default: 'throw') */
+  onError?: 'throw' | 'skip';
+}
+
+/** Stamps for each preset */
+const PRESETS: Record<WatermarkPreset, PdfWatermark> = {
+  draft: { text: 'DRAFT', color: '#c62828', opacity: 0.18 },
+  confidential: { text: 'CONFIDENTIAL', color: '#c62828', opacity: 0.15, fontSize: 56 },
+  unaudited: { text: 'UNAUDITED', color: '#555555', opacity: 0.15, fontSize: 60 }
+};
+
+/**
+ * Pick the watermark for a report: the explicit option, or the stamp for the report status
+ * @param report Report configuration
+ * @param watermark Watermark option; false disables the status stamp
+ * @returns Watermark to draw, or null for none
+ */
+export function resolveWatermark(
+  report: ReportConfig,
+  watermark?: PdfWatermark | WatermarkPreset | false
+): PdfWatermark | null {
+  if (watermark === false) return null;
+  if (typeof watermark === 'string') return PRESETS[watermark] || null;
+  if (watermark) return watermark;
+
+  return report.status && report.status !== 'final' ? PRESETS[report.status] : null;
+}
+
+/**
+ * Draw a watermark on the selected pages
+ * @param doc PDF document
+ * @param watermark Watermark
+ * @param fontFamily Font family for text watermarks
+ */
+export function drawWatermark(doc: PDFDocument, watermark: PdfWatermark, fontFamily: string = 'helvetica'): void {
+  if (!watermark.text && !watermark.image) return;
+
+  const pageCount = doc.getNumberOfPages();
+  const rotation = watermark.rotation ?? 45;
+  const radians = (rotation * Math.PI) / 180;
+
+  for (let page = 1; page <= pageCount; page++) {
+    if (!isPageSelected(page, watermark.pages)) continue;
+
+    doc.setPage(page);
+    const centerX = doc.internal.pageSize.getWidth() / 2;
+    const centerY = doc.internal.pageSize.getHeight() / 2;
+
+    doc.saveGraphicsState();
+    doc.setGState(new doc.GState({ opacity: watermark.opacity ?? 0.15 }));
+
+    if (watermark.image) {
+      drawWatermarkImage(doc, watermark, centerX, centerY, radians);
+    } else {
+      drawWatermarkText(doc, watermark, centerX, centerY, radians, fontFamily);
+    }
+
+    doc.restoreGraphicsState();
+  }
+}
+
+/**
+ * Draw watermark text centred on a point
+ * @param doc PDF document
+ * @param watermark Watermark
+ * @param centerX Centre X (mm)
+ * @param centerY Centre Y (mm)
+ * @param radians Rotation in radians
+ * @param fontFamily Font family
+ */
+function drawWatermarkText(
+  doc: PDFDocument,
+  watermark: PdfWatermark,
+  centerX: number,
+  centerY: number,
+  radians: number,
+  fontFamily: string
+): void {
+  const text = watermark.text as string;
+  const color = parseColor(watermark.color, { r: 150, g: 150, b: 150, a: 1 });
+
+  doc.setFont(fontFamily, 'bold');
+  doc.setFontSize(watermark.fontSize ?? 72);
+  doc.setTextColor(color.r, color.g, color.b);
+
+  // jsPDF rotates text around its baseline start, so offset from the centre
+  const width = doc.getTextWidth(text);
+  const rise = (doc.getFontSize() / doc.internal.scaleFactor) * 0.35;
+  const x = centerX - Math.cos(radians) * (width / 2) + Math.sin(radians) * rise;
+  const y = centerY + Math.sin(radians) * (width / 2) + Math.cos(radians) * rise;
+
+  doc.text(text, x, y, { angle: radians * (180 / Math.PI) });
+  doc.setTextColor(0, 0, 0);
+}
+
+/**
+ * Draw a watermark image centred on a point
+ * @param doc PDF document
+ * @param watermark Watermark
+ * @param centerX Centre X (mm)
+ * @param centerY Centre Y (mm)
+ * @param radians Rotation in radians
+ * @throws If the image cannot be added and watermark.onError is not 'skip'
+ */
+function drawWatermarkImage(doc: PDFDocument, watermark: PdfWatermark, centerX: number, centerY: number, radians: number): void {
+  const image = watermark.image as string;
+
+  try {
+    const properties = doc.getImageProperties(image);
+    const width = watermark.width ?? doc.internal.pageSize.getWidth() / 2;
+    const height = watermark.height ?? width * (properties.height / properties.width);
+
+    // jsPDF rotates images around their bottom-left corner, so offset from the centre
+    const x = centerX - (Math.cos(radians) * width - Math.sin(radians) * height) / 2;
+    const bottom = centerY + (Math.sin(radians) * width + Math.cos(radians) * height) / 2;
+
+    doc.addImage({
+      imageData: image,
+      x,
+      y: bottom - height,
+      width,
+      height,
+      rotation: radians * (180 / Math.PI)
+    });
+  } catch (error) {
+    if (watermark.onError === 'skip') {
+      return;
+    }
+
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new Error(`Could not add watermark image to PDF: ${reason}`, { cause: error });
+  }
+}
+
+/**
+ * Check whether a page is in the watermark's page selection
+ * @param page 1-based page number
+ * @param pages Page selection
+ * @returns True if the page should be marked
+ */
+function isPageSelected(page: number, pages: PdfWatermark['pages']): boolean {
+  if (!pages) return true;
+  if (Array.isArray(pages)) return pages.includes(page);
+
+  return page >= (pages.from ?? 1) && page <= (pages.to ?? Infinity);
+}
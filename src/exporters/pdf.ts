@@ -4,13 +4,80 @@
 
 import { jsPDF } from 'jspdf';
 import { ChartConfig } from '../types/chart';
-import { ReportConfig, ReportSection, TableContent, SummaryContent, TextContent } from '../types/report';
+import { ReconciliationData } from '../types/reconciliation';
+import { BuiltInThemeName, ThemeConfig } from '../types/config';
+import {
+  ReportConfig,
+  ReportSection,
+  TableContent,
+  SummaryContent,
+  TextContent,
+  SignoffContent,
+  LayoutContent
+} from '../types/report';
 import { formatCurrency, formatNumber, formatPercentage } from '../utils/currency';
 import { formatDate } from '../utils/date';
+import { flattenSections } from '../core/report';
+import {
+  PDFDocument,
+  PdfLayout,
+  LayoutPageFormat,
+  addAnchor,
+  createLayout,
+  createColumnLayout,
+  addLayoutPage,
+  ensureSpace,
+  moveDown,
+  getContentWidth,
+  getRemainingHeight,
+  getLineHeight,
+  drawFlowingText
+} from './pdf-layout';
+import { drawTable } from './pdf-table';
+import { drawChart } from './pdf-chart';
+import { drawReconciliation } from './pdf-reconciliation';
+import { drawTextContent } from './pdf-text';
+import { drawPageRegions, getContentMargins, getPageFormat } from './pdf-page';
+import { resolvePdfTheme, setDrawColor, setFillColor, setTextColor } from './pdf-theme';
+import { PdfFontRegistry, installFontFallback, registerFonts } from './pdf-fonts';
+import { addOutline, drawTableOfContents, reserveTableOfContents } from './pdf-navigation';
+import { EXECUTIVE_SUMMARY_KEY, drawCoverPage, drawExecutiveSummary } from './pdf-cover';
+import { drawSignoff } from './pdf-signoff';
+import { PdfAttachment, addAttachments } from './pdf-attachments';
+import { PdfQuality, PlacedImage, QualitySettings, fitImage, getQualitySettings, loadImageData, prepareImage } from './pdf-images';
+import { PdfWatermark, WatermarkPreset, drawWatermark, resolveWatermark } from './pdf-watermark';
+import { PdfSecurityOptions, getEncryptionOptions } from './pdf-security';
 
-// Use any type to bypass TypeScript issues with jsPDF
-// This is necessary because the jsPDF types don't match the actual API
-type PDFDocument = any;
+export type { PdfFontRegistry, PdfFontFiles, PdfFontSource, FontScript } from './pdf-fonts';
+export type { PdfQuality, ImageFormat } from './pdf-images';
+export type { PdfWatermark, WatermarkPreset } from './pdf-watermark';
+export type { PdfSecurityOptions } from './pdf-security';
+export type { PdfAttachment, ReportAttachmentOptions } from './pdf-attachments';
+export { createReportAttachments } from './pdf-attachments';
+
+/** Vertical gap between consecutive sections (mm) */
+const SECTION_SPACING = 10;
+
+/** Minimum space a section needs below its title to start on the current page (mm) */
+const SECTION_MIN_HEIGHT = 40;
+
+/** Default gap between the columns and rows of a layout section (mm) */
+const LAYOUT_GAP = 6;
+
+/** Minimum width of a summary card (mm) */
+const MIN_CARD_WIDTH = 70;
+
+/** Default maximum logo width (mm) */
+const DEFAULT_LOGO_MAX_WIDTH = 40;
+
+/** Default maximum logo height (mm) */
+const DEFAULT_LOGO_MAX_HEIGHT = 20;
+
+/** Space between the logo and the header text (mm) */
+const LOGO_GAP = 5;
+
+/** Application recorded as the creator of exported documents */
+const DEFAULT_CREATOR = 'financial-pdf';
 
 /**
  * Export a financial report to PDF
@@ -24,50 +91,149 @@ export async function exportReportToPdf(
 ): Promise<Blob> {
   // Create PDF document
   const doc = createPdfDocument(report, options);
+  const fontFamilies = registerFonts(doc, options.fonts);
+  installFontFallback(doc, options.fonts?.fallbacks);
+  const theme = resolvePdfTheme(options.theme, fontFamilies);
+  const quality = getQualitySettings(options.quality);
+  const layout = createLayout(doc, getContentMargins(report), theme);
+  
+  // Collect the summary sections for the executive summary
+  const summarySections = report.executiveSummary?.enabled
+    ? flattenSections(report.sections).filter(section => section.type === 'summary')
+    : [];
   
-  // Add header
-  addReportHeader(doc, report);
+  // The contents and executive summary use the report page format; the first section may override it
+  const opensWithSection = !options.tableOfContents && summarySections.length === 0;
+  const firstSectionFormat = getPageFormat(report, report.sections[0]);
+  let pageFormat = getPageFormat(report);
+  
+  // Add cover page or header
+  const logoOptions = options.logo || {};
+  const logo = report.company?.logo
+    ? await loadLogo(doc, report.company.logo, logoOptions, quality)
+    : null;
+  if (report.cover?.enabled) {
+    drawCoverPage(layout, report, logo);
+    if (opensWithSection) {
+      pageFormat = firstSectionFormat;
+    }
+    addLayoutPage(layout, pageFormat);
+  } else {
+    addReportHeader(layout, report, logo, logoOptions.position || 'left');
+  }
+  
+  // Reserve the table of contents; it is filled in once page numbers are known.
+  // Entries are keyed by section position, so untitled sections do not shift later entries.
+  const toc = options.tableOfContents
+    ? reserveTableOfContents(layout, getTableOfContentsTitle(options.tableOfContents), [
+      ...(summarySections.length > 0 ? [EXECUTIVE_SUMMARY_KEY] : []),
+      ...report.sections.flatMap((section, index) => (section.title ? [getSectionKey(index)] : []))
+    ])
+    : null;
+  
+  // Add the executive summary on its own page before the detailed sections
+  if (summarySections.length > 0) {
+    if (toc) {
+      addLayoutPage(layout, getPageFormat(report));
+    }
+    drawExecutiveSummary(layout, report.executiveSummary?.title || 'Executive Summary', summarySections);
+  }
+  
+  if (!opensWithSection) {
+    pageFormat = firstSectionFormat;
+    addLayoutPage(layout, pageFormat);
+  }
   
   // Process each section
   for (let i = 0; i < report.sections.length; i++) {
     const section = report.sections[i];
+    const sectionFormat = getPageFormat(report, section);
     
-    // Add section title
-    addSectionTitle(doc, section.title);
-    
-    // Process section based on type
-    switch (section.type) {
-      case 'summary':
-        addSummarySection(doc, section.content as SummaryContent);
-        break;
-      case 'chart':
-        await addChartSection(doc, section.content as ChartConfig);
-        break;
-      case 'table':
-        addTableSection(doc, section.content as TableContent);
-        break;
-      case 'text':
-        addTextSection(doc, section.content as TextContent);
-        break;
-      case 'reconciliation':
-        // TODO: Add reconciliation section
-        addTextSection(doc, { text: 'Reconciliation report will be implemented in a future version' });
-        break;
+    // Sections with their own page geometry start on a new page, and so does the section after them
+    if (!isSamePageFormat(sectionFormat, pageFormat) || (section.page && layout.y > layout.margins.top)) {
+      addLayoutPage(layout, sectionFormat);
+      pageFormat = sectionFormat;
+    } else if (i > 0) {
+      // Separate from the previous section
+      startSection(layout, options.sectionPageBreak || 'auto');
     }
     
-    // Add page break if not the last section
-    if (i < report.sections.length - 1) {
-      doc.addPage();
-    }
+    await drawSection(layout, section, options, quality, 0, getSectionKey(i));
   }
   
-  // Add footer
-  addReportFooter(doc, report);
+  // Add navigation
+  if (toc) {
+    drawTableOfContents(layout, toc, layout.anchors);
+  }
+  if (options.outline ?? true) {
+    addOutline(doc, layout.anchors);
+  }
+  
+  // Add running header and footer
+  drawPageRegions(doc, report, theme);
+  
+  // Stamp pages last so the watermark sits above the content
+  const watermark = resolveWatermark(report, options.watermark);
+  if (watermark) {
+    drawWatermark(doc, watermark, theme.fontFamily);
+  }
+  
+  // Embed source data
+  addAttachments(doc, options.attachments || []);
   
   // Return as blob
   return doc.output('blob');
 }
 
+/**
+ * Draw a section with its title
+ * @param layout Layout state
+ * @param section Report section
+ * @param options PDF export options
+ * @param quality Image quality settings
+ * @param level Nesting level (0 for report sections, 1 and deeper inside layouts)
+ * @param key Table of contents key of the section title
+ */
+async function drawSection(
+  layout: PdfLayout,
+  section: ReportSection,
+  options: PdfExportOptions,
+  quality: QualitySettings,
+  level: number,
+  key?: string
+): Promise<void> {
+  // Add section title
+  if (section.title) {
+    addSectionTitle(layout, section.title, level, key);
+  }
+  
+  // Process section based on type
+  switch (section.type) {
+    case 'summary':
+      addSummarySection(layout, section.content as SummaryContent);
+      break;
+    case 'chart':
+      await addChartSection(layout, section.content as ChartConfig, options, quality);
+      break;
+    case 'table':
+      addTableSection(layout, section.content as TableContent, section.title);
+      break;
+    case 'text':
+      addTextSection(layout, section.content as TextContent);
+      break;
+    case 'reconciliation':
+      // Sub-parts nest under the section title, or take its place when there is none
+      addReconciliationSection(layout, section.content as ReconciliationData, section.title, section.title ? level + 1 : level);
+      break;
+    case 'signoff':
+      await addSignoffSection(layout, section.content as SignoffContent, quality);
+      break;
+    case 'layout':
+      await addLayoutSection(layout, section.content as LayoutContent, options, quality, level);
+      break;
+  }
+}
+
 /**
  * Create a new PDF document
  * @param report Report configuration
@@ -82,120 +248,278 @@ function createPdfDocument(report: ReportConfig, options: PdfExportOptions): PDF
   const format = report.pageConfig?.size || 'A4';
   
   // Create PDF document
-  return new jsPDF({
+  const doc = new jsPDF({
     orientation: orientation,
     unit: 'mm',
     format: format,
     compress: options.compress ?? true,
+    encryption: getEncryptionOptions(options.security),
   });
+  
+  // Write metadata to the info dictionary
+  doc.setDocumentProperties(getDocumentProperties(report, options));
+  
+  return doc;
+}
+
+/**
+ * Get the document properties, filling gaps from the report
+ * @param report Report configuration
+ * @param options PDF export options
+ * @returns Document properties
+ */
+function getDocumentProperties(report: ReportConfig, options: PdfExportOptions): Required<PdfDocumentProperties> {
+  const properties = options.documentProperties || {};
+  
+  return {
+    title: properties.title || report.title,
+    subject: properties.subject || report.subtitle || '',
+    author: properties.author || report.company?.name || '',
+    keywords: properties.keywords || '',
+    creator: properties.creator || DEFAULT_CREATOR
+  };
+}
+
+/**
+ * Position the cursor for the next section according to the page break mode
+ * @param layout Layout state
+ * @param mode Section page break mode
+ */
+function startSection(layout: PdfLayout, mode: SectionPageBreak): void {
+  if (mode === 'always') {
+    addLayoutPage(layout);
+    return;
+  }
+  
+  moveDown(layout, SECTION_SPACING);
+  
+  // Keep the title together with the start of its content
+  if (mode === 'auto' && getRemainingHeight(layout) < SECTION_MIN_HEIGHT) {
+    addLayoutPage(layout);
+  }
+}
+
+/**
+ * Check whether two page formats have the same size and orientation
+ * @param a First page format
+ * @param b Second page format
+ * @returns True if they match
+ */
+function isSamePageFormat(a: LayoutPageFormat, b: LayoutPageFormat): boolean {
+  return a.size === b.size && a.orientation === b.orientation;
+}
+
+/**
+ * Get the table of contents key of a report section
+ * @param index Section position in the report
+ * @returns Key
+ */
+function getSectionKey(index: number): string {
+  return `section-${index}`;
+}
+
+/**
+ * Get the heading of the table of contents
+ * @param option Table of contents option
+ * @returns Heading text
+ */
+function getTableOfContentsTitle(option: boolean | { title?: string }): string {
+  return typeof option === 'object' && option.title ? option.title : 'Contents';
 }
 
 /**
  * Add report header to PDF
- * @param doc PDF document
+ * @param layout Layout state
  * @param report Report configuration
+ * @param logo Company logo, or null for none
+ * @param position Logo position
  */
-function addReportHeader(doc: PDFDocument, report: ReportConfig): void {
-  const pageWidth = doc.internal.pageSize.getWidth();
+function addReportHeader(
+  layout: PdfLayout,
+  report: ReportConfig,
+  logo: PlacedImage | null,
+  position: 'left' | 'center' | 'right'
+): void {
+  const { doc, theme } = layout;
+  const top = layout.y;
+  let left = layout.margins.left;
+  let width = getContentWidth(layout);
+  
+  // The header text flows beside a left or right logo and below a centred one
+  if (logo) {
+    if (position === 'center') {
+      doc.addImage(logo.data, logo.format, left + (width - logo.width) / 2, top, logo.width, logo.height);
+      moveDown(layout, logo.height + LOGO_GAP);
+    } else {
+      const x = position === 'right' ? left + width - logo.width : left;
+      doc.addImage(logo.data, logo.format, x, top, logo.width, logo.height);
+      width -= logo.width + LOGO_GAP;
+      if (position === 'left') {
+        left += logo.width + LOGO_GAP;
+      }
+    }
+  }
+  
+  const centerX = left + width / 2;
   
   // Add title
-  doc.setFontSize(18);
-  doc.text(report.title, pageWidth / 2, 15, { align: 'center' });
+  doc.setFont(theme.fontFamily, 'normal');
+  setTextColor(doc, theme.primaryColor);
+  addCenteredLine(layout, report.title, 18, centerX, width);
+  setTextColor(doc, theme.textColor);
   
   // Add subtitle if present
   if (report.subtitle) {
-    doc.setFontSize(14);
-    doc.text(report.subtitle, pageWidth / 2, 25, { align: 'center' });
+    addCenteredLine(layout, report.subtitle, 14, centerX, width);
   }
   
   // Add date range if present
   if (report.dateRange) {
-    doc.setFontSize(10);
     const dateText = `Period: ${formatDate(report.dateRange.startDate)} - ${formatDate(report.dateRange.endDate)}`;
-    doc.text(dateText, pageWidth / 2, 35, { align: 'center' });
+    addCenteredLine(layout, dateText, 10, centerX, width);
   }
   
   // Add company information if present
   if (report.company) {
-    doc.setFontSize(12);
-    doc.text(report.company.name, pageWidth / 2, 45, { align: 'center' });
+    addCenteredLine(layout, report.company.name, 12, centerX, width);
     
     if (report.company.address) {
-      doc.setFontSize(10);
-      doc.text(report.company.address, pageWidth / 2, 52, { align: 'center' });
-    }
-    
-    // Add company logo if present
-    if (report.company.logo) {
-      try {
-        doc.addImage(report.company.logo, 'PNG', 15, 15, 30, 30);
-      } catch (error) {
-        console.error('Error adding logo to PDF:', error);
-      }
+      addCenteredLine(layout, report.company.address, 10, centerX, width);
     }
   }
   
+  // Keep the separator below a logo taller than the text beside it
+  if (logo && position !== 'center') {
+    layout.y = Math.max(layout.y, top + logo.height);
+  }
+  
   // Add separator line
-  doc.setDrawColor(200, 200, 200);
-  doc.line(15, 60, pageWidth - 15, 60);
+  moveDown(layout, 3);
+  setDrawColor(doc, theme.separatorColor);
+  doc.line(layout.margins.left, layout.y, layout.pageWidth - layout.margins.right, layout.y);
+  moveDown(layout, SECTION_SPACING);
   
-  // Set starting position for content
+  // Set starting font for content
   doc.setFontSize(12);
-  // Position cursor at 70mm from top
-  // We're not using setY since it may not be supported in all jsPDF versions
 }
 
 /**
- * Add section title to PDF
+ * Load the company logo and size it to the maximum dimensions
  * @param doc PDF document
+ * @param source Logo data URL, base64 data, SVG markup or URL
+ * @param options Logo options
+ * @param quality Image quality settings
+ * @returns Logo ready to draw, or null when it is skipped
+ */
+async function loadLogo(
+  doc: PDFDocument,
+  source: string,
+  options: PdfLogoOptions,
+  quality: QualitySettings
+): Promise<PlacedImage | null> {
+  try {
+    const image = await loadImageData(doc, source);
+    const size = fitImage(image, options.maxWidth ?? DEFAULT_LOGO_MAX_WIDTH, options.maxHeight ?? DEFAULT_LOGO_MAX_HEIGHT);
+    const prepared = await prepareImage(image, size.width, size.height, quality);
+    
+    return { ...prepared, ...size };
+  } catch (error) {
+    if (options.onError === 'skip') {
+      return null;
+    }
+    
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new Error(`Could not add logo to PDF: ${reason}`, { cause: error });
+  }
+}
+
+/**
+ * Add a centred line of text, wrapping it to the available width, and advance the cursor
+ * @param layout Layout state
+ * @param text Text to draw
+ * @param fontSize Font size
+ * @param centerX Horizontal centre
+ * @param width Available width
+ */
+function addCenteredLine(layout: PdfLayout, text: string, fontSize: number, centerX: number, width: number): void {
+  const { doc } = layout;
+  doc.setFontSize(fontSize);
+  const lineHeight = getLineHeight(doc);
+  
+  (doc.splitTextToSize(text, width) as string[]).forEach(line => {
+    ensureSpace(layout, lineHeight);
+    doc.text(line, centerX, layout.y + lineHeight * 0.8, { align: 'center' });
+    moveDown(layout, lineHeight);
+  });
+  moveDown(layout, 1);
+}
+
+/**
+ * Add section title to PDF
+ * @param layout Layout state
  * @param title Section title
+ * @param level Nesting level; sections inside layouts get smaller titles
+ * @param key Table of contents key
  */
-function addSectionTitle(doc: PDFDocument, title: string): void {
-  // Get current Y position or use a default value
-  let currentY = 70;
-  
-  doc.setFontSize(14);
-  doc.setFont('helvetica', 'bold');
-  doc.text(title, 15, currentY + 10);
-  doc.setFont('helvetica', 'normal');
+function addSectionTitle(layout: PdfLayout, title: string, level: number = 0, key?: string): void {
+  const { doc, theme } = layout;
+  
+  doc.setFontSize(level === 0 ? 14 : 12);
+  doc.setFont(theme.fontFamily, 'bold');
+  setTextColor(doc, theme.primaryColor);
+  ensureSpace(layout, getLineHeight(doc));
+  addAnchor(layout, title, level, key);
+  drawFlowingText(layout, title, layout.margins.left, getContentWidth(layout));
+  moveDown(layout, 4);
+  setTextColor(doc, theme.textColor);
+  doc.setFont(theme.fontFamily, 'normal');
   doc.setFontSize(12);
 }
 
 /**
  * Add summary section to PDF
- * @param doc PDF document
+ * @param layout Layout state
  * @param content Summary content
  */
-function addSummarySection(doc: PDFDocument, content: SummaryContent): void {
-  // Use a default Y position
-  const currentY = 90;
-  const pageWidth = doc.internal.pageSize.getWidth();
-  
-  const itemWidth = (pageWidth - 30) / 2;
-  let x = 15;
-  let y = currentY;
+function addSummarySection(layout: PdfLayout, content: SummaryContent): void {
+  const { doc, theme } = layout;
+  const itemHeight = 25;
+  const gap = 10;
+  // As many cards per row as fit, so narrow layout columns stack them
+  const columns = Math.max(1, Math.floor((getContentWidth(layout) + gap) / (MIN_CARD_WIDTH + gap)));
+  const itemWidth = (getContentWidth(layout) - gap * (columns - 1)) / columns;
+  let x = layout.margins.left;
   
   // Add each summary item in a grid layout
   content.items.forEach((item, index) => {
-    // Start a new row every two items
-    if (index > 0 && index % 2 === 0) {
-      x = 15;
-      y += 30;
+    // Start a new row once the row is full
+    if (index % columns === 0) {
+      if (index > 0) {
+        moveDown(layout, itemHeight + 5);
+      }
+      ensureSpace(layout, itemHeight);
+      x = layout.margins.left;
     }
     
+    const y = layout.y;
+    
     // Draw item box
-    doc.setDrawColor(230, 230, 230);
-    doc.setFillColor(250, 250, 250);
-    doc.roundedRect(x, y, itemWidth, 25, 2, 2, 'F');
+    setFillColor(doc, theme.cardColor);
+    if (theme.cardBorderColor) {
+      setDrawColor(doc, theme.cardBorderColor);
+      doc.roundedRect(x, y, itemWidth, itemHeight, 2, 2, 'FD');
+    } else {
+      doc.roundedRect(x, y, itemWidth, itemHeight, 2, 2, 'F');
+    }
     
     // Add label
     doc.setFontSize(10);
-    doc.setTextColor(100, 100, 100);
+    setTextColor(doc, theme.secondaryColor);
     doc.text(item.label, x + 5, y + 8);
     
     // Add value
     doc.setFontSize(14);
-    doc.setTextColor(0, 0, 0);
+    setTextColor(doc, theme.textColor);
     let valueText = typeof item.value === 'number' 
       ? formatNumber(item.value) 
       : String(item.value);
@@ -207,166 +531,180 @@ function addSummarySection(doc: PDFDocument, content: SummaryContent): void {
       const changeText = formatPercentage(item.changePercentage);
       const textWidth = doc.getTextWidth(changeText);
       
-      // Green for positive, red for negative
+      // Positive and negative colors from the theme
       if (item.changePercentage >= 0) {
-        doc.setTextColor(0, 150, 0);
+        setTextColor(doc, theme.positiveColor);
         doc.text(`+${changeText}`, x + itemWidth - textWidth - 5, y + 18);
       } else {
-        doc.setTextColor(200, 0, 0);
+        setTextColor(doc, theme.negativeColor);
         doc.text(changeText, x + itemWidth - textWidth - 5, y + 18);
       }
     }
     
     // Move to next column
-    x += itemWidth + 10;
+    x += itemWidth + gap;
   });
   
-  doc.setTextColor(0, 0, 0);
+  if (content.items.length > 0) {
+    moveDown(layout, itemHeight);
+  }
+  
+  setTextColor(doc, theme.textColor);
 }
 
 /**
  * Add chart section to PDF
- * @param doc PDF document
+ * @param layout Layout state
  * @param content Chart configuration
+ * @param options PDF export options
+ * @param quality Image quality settings
  */
-async function addChartSection(doc: PDFDocument, content: ChartConfig): Promise<void> {
-  // Use a default Y position
-  const currentY = 120;
-  const pageWidth = doc.internal.pageSize.getWidth();
-  
-  // Placeholder for chart
-  doc.setDrawColor(200, 200, 200);
-  doc.setFillColor(245, 245, 245);
-  doc.roundedRect(15, currentY, pageWidth - 30, 100, 3, 3, 'FD');
-  
-  doc.setFontSize(12);
-  doc.text('Chart visualization will be rendered here', pageWidth / 2, currentY + 50, { align: 'center' });
+async function addChartSection(
+  layout: PdfLayout,
+  content: ChartConfig,
+  options: PdfExportOptions,
+  quality: QualitySettings
+): Promise<void> {
+  await drawChart(layout, content, options.chartRenderMode, quality.chartPixelRatio);
+  layout.doc.setFontSize(12);
 }
 
 /**
  * Add table section to PDF
- * @param doc PDF document
+ * @param layout Layout state
  * @param content Table content
+ * @param title Section title
  */
-function addTableSection(doc: PDFDocument, content: TableContent): void {
-  // Use a default Y position
-  const currentY = 120;
-  const pageWidth = doc.internal.pageSize.getWidth();
-  
-  // Calculate column widths
-  const numColumns = content.headers.length;
-  const colWidth = (pageWidth - 30) / numColumns;
-  
-  // Draw headers
-  doc.setFillColor(230, 230, 230);
-  doc.rect(15, currentY, pageWidth - 30, 10, 'F');
-  
-  doc.setFontSize(10);
-  doc.setFont('helvetica', 'bold');
-  
-  content.headers.forEach((header, index) => {
-    const x = 15 + index * colWidth;
-    doc.text(header, x + 5, currentY + 7);
-  });
-  
-  doc.setFont('helvetica', 'normal');
-  
-  // Draw rows
-  let rowY = currentY + 10;
+function addTableSection(layout: PdfLayout, content: TableContent, title: string): void {
+  drawTable(layout, content, title);
+  layout.doc.setFontSize(12);
+}
+
+/**
+ * Add reconciliation section to PDF
+ * @param layout Layout state
+ * @param content Reconciliation data
+ * @param title Section title
+ * @param level Outline level of the reconciliation sub-parts
+ */
+function addReconciliationSection(layout: PdfLayout, content: ReconciliationData, title: string, level: number): void {
+  drawReconciliation(layout, content, title, level);
+  layout.doc.setFontSize(12);
+}
+
+/**
+ * Add sign-off section to PDF
+ * @param layout Layout state
+ * @param content Sign-off content
+ * @param quality Image quality settings
+ */
+async function addSignoffSection(layout: PdfLayout, content: SignoffContent, quality: QualitySettings): Promise<void> {
+  await drawSignoff(layout, content, quality);
+  layout.doc.setFontSize(12);
+}
+
+/**
+ * Add layout section to PDF: each row's sections are drawn side by side and
+ * the next row starts below the tallest of them
+ * @param layout Layout state
+ * @param content Layout content
+ * @param options PDF export options
+ * @param quality Image quality settings
+ * @param level Nesting level of the layout section
+ */
+async function addLayoutSection(
+  layout: PdfLayout,
+  content: LayoutContent,
+  options: PdfExportOptions,
+  quality: QualitySettings,
+  level: number
+): Promise<void> {
+  const { doc } = layout;
+  const gap = content.gap ?? LAYOUT_GAP;
   
-  content.rows.forEach((row, rowIndex) => {
-    // Alternate row background
-    if (rowIndex % 2 === 1) {
-      doc.setFillColor(245, 245, 245);
-      doc.rect(15, rowY, pageWidth - 30, 8, 'F');
+  for (let rowIndex = 0; rowIndex < content.rows.length; rowIndex++) {
+    const row = content.rows[rowIndex];
+    if (rowIndex > 0) {
+      moveDown(layout, gap);
     }
     
-    row.forEach((cell, colIndex) => {
-      const x = 15 + colIndex * colWidth;
-      doc.text(String(cell), x + 5, rowY + 6);
-    });
+    // Keep the start of the row together
+    ensureSpace(layout, SECTION_MIN_HEIGHT);
+    const startPage = doc.getCurrentPageInfo().pageNumber;
+    const widths = row.sections.map((_, index) => row.widths?.[index] ?? 1);
+    const totalWidth = widths.reduce((sum, width) => sum + width, 0);
+    const availableWidth = getContentWidth(layout) - gap * (row.sections.length - 1);
+    let x = layout.margins.left;
+    let end = { pageNumber: startPage, y: layout.y };
     
-    rowY += 8;
-  });
-  
-  // Draw summary row if present
-  if (content.summary) {
-    doc.setDrawColor(150, 150, 150);
-    doc.line(15, rowY, pageWidth - 15, rowY);
-    
-    doc.setFont('helvetica', 'bold');
-    
-    content.summary.forEach((cell, colIndex) => {
-      const x = 15 + colIndex * colWidth;
-      doc.text(String(cell), x + 5, rowY + 6);
-    });
+    for (let index = 0; index < row.sections.length; index++) {
+      const width = (availableWidth * widths[index]) / totalWidth;
+      const column = createColumnLayout(layout, x, width);
+      
+      // Every column starts where the row starts, even if the previous one broke onto new pages
+      doc.setPage(startPage);
+      await drawSection(column, row.sections[index], options, quality, level + 1);
+      
+      const pageNumber = doc.getCurrentPageInfo().pageNumber;
+      if (pageNumber > end.pageNumber || (pageNumber === end.pageNumber && column.y > end.y)) {
+        end = { pageNumber, y: column.y };
+      }
+      x += width + gap;
+    }
     
-    doc.setFont('helvetica', 'normal');
-    rowY += 8;
+    // Continue below the tallest column
+    doc.setPage(end.pageNumber);
+    layout.y = end.y;
   }
+  
+  doc.setFontSize(12);
 }
 
 /**
  * Add text section to PDF
- * @param doc PDF document
+ * @param layout Layout state
  * @param content Text content
  */
-function addTextSection(doc: PDFDocument, content: TextContent): void {
-  // Use a default Y position
-  const currentY = 120;
-  const pageWidth = doc.internal.pageSize.getWidth();
-  
-  // Handle different formats
-  if (content.format === 'markdown' || content.format === 'html') {
-    // For now, treat as plain text (future: parse markdown/html)
-    doc.setFontSize(11);
-    doc.text(content.text, 15, currentY, { 
-      maxWidth: pageWidth - 30,
-      align: 'left' 
-    });
-  } else {
-    // Plain text
-    doc.setFontSize(11);
-    doc.text(content.text, 15, currentY, { 
-      maxWidth: pageWidth - 30,
-      align: 'left' 
-    });
-  }
-  
-  // Calculate text height (approximate)
-  const textLines = doc.splitTextToSize(content.text, pageWidth - 30);
-  const textHeight = textLines.length * 5; // 5mm per line (approx)
+function addTextSection(layout: PdfLayout, content: TextContent): void {
+  drawTextContent(layout, content);
+  layout.doc.setFontSize(12);
 }
 
 /**
- * Add report footer to PDF
- * @param doc PDF document
- * @param report Report configuration
+ * Section page break mode
+ * - always: every section after the first starts on a new page
+ * - never: sections follow each other and only break when content overflows
+ * - auto: start a new page only when the title would be left without room for content
  */
-function addReportFooter(doc: PDFDocument, report: ReportConfig): void {
-  const pageWidth = doc.internal.pageSize.getWidth();
-  const pageHeight = doc.internal.pageSize.getHeight();
-  
-  // Add separator line
-  doc.setDrawColor(200, 200, 200);
-  doc.line(15, pageHeight - 15, pageWidth - 15, pageHeight - 15);
-  
-  // Add page number
-  const pageCount = doc.getNumberOfPages();
-  
-  for (let i = 1; i <= pageCount; i++) {
-    doc.setPage(i);
-    
-    doc.setFontSize(9);
-    doc.setTextColor(100, 100, 100);
-    
-    const pageText = `Page ${i} of ${pageCount}`;
-    doc.text(pageText, pageWidth - 20, pageHeight - 10, { align: 'right' });
-    
-    // Add generation date
-    const dateText = `Generated on ${formatDate(new Date(), 'YYYY-MM-DD HH:mm')}`;
-    doc.text(dateText, 20, pageHeight - 10);
-  }
+export type SectionPageBreak = 'always' | 'never' | 'auto';
+
+/**
+ * Properties written to the PDF info dictionary
+ */
+export interface PdfDocumentProperties {
+  title?: string;
+  author?: string;
+  subject?: string;
+  keywords?: string;
+  creator?: string;
+}
+
+/**
+ * Placement of the company logo in the report header
+ */
+export interface PdfLogoOptions {
+  /** Horizontal position; the header text flows beside a left or right logo and below a centred one (default: 'left') */
+  position?: 'left' | 'center' | 'right';
+  /** Maximum width (mm, default: 40); the aspect ratio is kept */
+  maxWidth?: number;
+  /** Maximum height (mm, default: 20); the aspect ratio is kept */
+  maxHeight?: number;
+  /**
+   * What to do when the logo cannot be loaded: 'throw' rejects the export, 'skip' leaves it out
+   * (default: 'throw'). SVG logos need a DOM canvas, so server-side exports (e.g. in Node) can
+   * only draw PNG and JPEG logos; use 'skip' to export without an SVG logo there
+   */
+  onError?: 'throw' | 'skip';
 }
 
 /**
@@ -375,16 +713,38 @@ function addReportFooter(doc: PDFDocument, report: ReportConfig): void {
 export interface PdfExportOptions {
   /** Enable compression */
   compress?: boolean;
-  /** PDF quality */
-  quality?: 'low' | 'medium' | 'high';
-  /** PDF document properties */
-  documentProperties?: {
-    title?: string;
-    author?: string;
-    subject?: string;
-    keywords?: string;
-    creator?: string;
-  };
-  /** Chart rendering mode */
+  /**
+   * Image downsampling and chart rasterisation quality (default: 'medium'). Only applies in
+   * browsers: both need a DOM canvas, so server-side exports embed images unchanged and draw
+   * charts as vector graphics
+   */
+  quality?: PdfQuality;
+  /** PDF document properties; title, subject and author default to the report title, subtitle and company */
+  documentProperties?: PdfDocumentProperties;
+  /**
+   * Chart rendering mode. 'svg' draws charts as vector graphics and works without a DOM;
+   * 'canvas' rasterises them with Chart.js in the browser and falls back to vector drawing on the server
+   */
   chartRenderMode?: 'svg' | 'canvas';
+  /** Page break behaviour between sections (default: 'auto') */
+  sectionPageBreak?: SectionPageBreak;
+  /** Theme applied to titles, tables, cards, separators and charts (built-in name or custom theme) */
+  theme?: BuiltInThemeName | ThemeConfig;
+  /** TrueType fonts to embed; select a family with ThemeConfig.fontFamily */
+  fonts?: PdfFontRegistry;
+  /** Add a table of contents with clickable entries after the report header */
+  tableOfContents?: boolean | { title?: string };
+  /** Add outline bookmarks for sections and reconciliation sub-parts (default: true) */
+  outline?: boolean;
+  /**
+   * Watermark drawn across pages, or a preset stamp. Defaults to the stamp for the
+   * report status; false disables it
+   */
+  watermark?: PdfWatermark | WatermarkPreset | false;
+  /** Password protection and permissions; jsPDF only encrypts with 40-bit RC4 */
+  security?: PdfSecurityOptions;
+  /** Placement and size of the company logo */
+  logo?: PdfLogoOptions;
+  /** Files embedded in the PDF, e.g. the source data from createReportAttachments */
+  attachments?: PdfAttachment[];
 } 
\ No newline at end of file
@@ -0,0 +1,402 @@
+/**
+ * Markdown and HTML parsing for formatted text content
+ *
+ * Both formats are reduced to the same small block model so exporters
+ * only need to know how to draw headings, paragraphs, lists, tables and rules.
+ */
+
+/**
+ * Run of text sharing the same inline formatting
+ */
+export interface InlineSpan {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+  code?: boolean;
+  /** Link target */
+  link?: string;
+}
+
+/**
+ * Block-level element
+ */
+export type TextBlock =
+  | { type: 'heading'; level: number; spans: InlineSpan[] }
+  | { type: 'paragraph'; spans: InlineSpan[] }
+  | { type: 'list'; ordered: boolean; items: InlineSpan[][] }
+  | { type: 'table'; headers: string[]; rows: string[][] }
+  | { type: 'rule' };
+
+/**
+ * Parse markdown into text blocks
+ * @param markdown Markdown source
+ * @returns Text blocks
+ */
+export function parseMarkdown(markdown: string): TextBlock[] {
+  const lines = markdown.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: TextBlock[] = [];
+  let paragraph: string[] = [];
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) {
+      blocks.push({ type: 'paragraph', spans: parseMarkdownInline(paragraph.join(' ')) });
+      paragraph = [];
+    }
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+
+    if (line === '') {
+      flushParagraph();
+      continue;
+    }
+
+    // Headings
+    const heading = line.match(/^(#{1,6})\s+(.*?)\s*#*$/);
+    if (heading) {
+      flushParagraph();
+      blocks.push({ type: 'heading', level: heading[1].length, spans: parseMarkdownInline(heading[2]) });
+      continue;
+    }
+
+    // Horizontal rules
+    if (/^([-*_])(\s*\1){2,}$/.test(line)) {
+      flushParagraph();
+      blocks.push({ type: 'rule' });
+      continue;
+    }
+
+    // Tables: a pipe row followed by a separator row
+    if (line.startsWith('|') && i + 1 < lines.length && /^\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?$/.test(lines[i + 1].trim())) {
+      flushParagraph();
+      const headers = splitTableRow(line);
+      const rows: string[][] = [];
+      i += 2;
+      while (i < lines.length && lines[i].trim().startsWith('|')) {
+        rows.push(splitTableRow(lines[i].trim()));
+        i++;
+      }
+      i--;
+      blocks.push({ type: 'table', headers, rows });
+      continue;
+    }
+
+    // Lists
+    const listItem = matchListItem(line);
+    if (listItem) {
+      flushParagraph();
+      const items: InlineSpan[][] = [];
+      while (i < lines.length) {
+        const item = matchListItem(lines[i].trim());
+        if (!item || item.ordered !== listItem.ordered) break;
+        items.push(parseMarkdownInline(item.text));
+        i++;
+      }
+      i--;
+      blocks.push({ type: 'list', ordered: listItem.ordered, items });
+      continue;
+    }
+
+    paragraph.push(line);
+  }
+
+  flushParagraph();
+  return blocks;
+}
+
+/**
+ * Match a bullet or numbered list item
+ * @param line Trimmed line
+ * @returns List item details, or null
+ */
+function matchListItem(line: string): { ordered: boolean; text: string } | null {
+  const bullet = line.match(/^[-*+]\s+(.*)$/);
+  if (bullet) return { ordered: false, text: bullet[1] };
+
+  const numbered = line.match(/^\d+[.)]\s+(.*)$/);
+  if (numbered) return { ordered: true, text: numbered[1] };
+
+  return null;
+}
+
+/**
+ * Split a markdown table row into cells
+ * @param line Table row
+ * @returns Cell texts with inline formatting removed
+ */
+function splitTableRow(line: string): string[] {
+  return line
+    .replace(/^\|/, '')
+    .replace(/\|$/, '')
+    .split('|')
+    .map(cell => spansToText(parseMarkdownInline(cell.trim())));
+}
+
+/**
+ * Parse inline markdown formatting
+ * @param text Markdown text
+ * @returns Inline spans
+ */
+export function parseMarkdownInline(text: string): InlineSpan[] {
+  const spans: InlineSpan[] = [];
+  const pattern = /(`[^`]+`)|(\[[^\]]+\]\([^)\s]+\))|(\*\*[^*]+\*\*|__[^_]+__)|(\*[^*]+\*|_[^_]+_)/g;
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(text)) !== null) {
+    if (match.index > lastIndex) {
+      spans.push({ text: text.slice(lastIndex, match.index) });
+    }
+
+    const token = match[0];
+    if (match[1]) {
+      spans.push({ text: token.slice(1, -1), code: true });
+    } else if (match[2]) {
+      const link = token.match(/^\[([^\]]+)\]\(([^)\s]+)\)$/);
+      if (link) {
+        spans.push(...parseMarkdownInline(link[1]).map(span => ({ ...span, link: link[2] })));
+      }
+    } else if (match[3]) {
+      spans.push(...parseMarkdownInline(token.slice(2, -2)).map(span => ({ ...span, bold: true })));
+    } else if (match[4]) {
+      spans.push(...parseMarkdownInline(token.slice(1, -1)).map(span => ({ ...span, italic: true })));
+    }
+
+    lastIndex = match.index + token.length;
+  }
+
+  if (lastIndex < text.length) {
+    spans.push({ text: text.slice(lastIndex) });
+  }
+
+  return spans;
+}
+
+/**
+ * Parse a subset of HTML into text blocks
+ * @param html HTML source
+ * @returns Text blocks
+ */
+export function parseHtml(html: string): TextBlock[] {
+  const blocks: TextBlock[] = [];
+  const tokens = html.match(/<!--[\s\S]*?-->|<\/?[a-zA-Z][^>]*>|[^<]+|</g) || [];
+
+  // Inline state
+  let spans: InlineSpan[] = [];
+  let bold = 0;
+  let italic = 0;
+  let code = 0;
+  const links: string[] = [];
+
+  // Block state
+  let heading = 0;
+  let list: { ordered: boolean; items: InlineSpan[][] } | null = null;
+  let table: { rows: string[][]; headerRows: number } | null = null;
+  let row: string[] | null = null;
+  let rowIsHeader = false;
+
+  const flush = () => {
+    const trimmed = trimSpans(spans);
+    spans = [];
+    if (trimmed.length === 0) return;
+
+    if (row) {
+      row.push(spansToText(trimmed));
+    } else if (list) {
+      list.items.push(trimmed);
+    } else if (heading) {
+      blocks.push({ type: 'heading', level: heading, spans: trimmed });
+    } else {
+      blocks.push({ type: 'paragraph', spans: trimmed });
+    }
+  };
+
+  for (const token of tokens) {
+    if (token.startsWith('<!--')) continue;
+
+    const tag = token.match(/^<(\/?)([a-zA-Z0-9]+)([^>]*)>$/);
+    if (!tag) {
+      // Collapse whitespace like a browser would
+      const text = decodeEntities(token.replace(/\s+/g, ' '));
+      if (text) {
+        spans.push({
+          text,
+          ...(bold > 0 ? { bold: true } : {}),
+          ...(italic > 0 ? { italic: true } : {}),
+          ...(code > 0 ? { code: true } : {}),
+          ...(links.length > 0 ? { link: links[links.length - 1] } : {})
+        });
+      }
+      continue;
+    }
+
+    const closing = tag[1] === '/';
+    const name = tag[2].toLowerCase();
+
+    switch (name) {
+      case 'b':
+      case 'strong':
+        bold += closing ? -1 : 1;
+        break;
+      case 'i':
+      case 'em':
+        italic += closing ? -1 : 1;
+        break;
+      case 'code':
+        code += closing ? -1 : 1;
+        break;
+      case 'a':
+        if (closing) {
+          links.pop();
+        } else {
+          const href = tag[3].match(/href\s*=\s*("([^"]*)"|'([^']*)'|([^\s>]+))/i);
+          links.push(href ? decodeEntities(href[2] ?? href[3] ?? href[4] ?? '') : '');
+        }
+        break;
+      case 'br':
+        spans.push({ text: ' ' });
+        break;
+      case 'h1':
+      case 'h2':
+      case 'h3':
+      case 'h4':
+      case 'h5':
+      case 'h6':
+        flush();
+        heading = closing ? 0 : Number(name.slice(1));
+        break;
+      case 'p':
+      case 'div':
+      case 'li':
+        flush();
+        break;
+      case 'ul':
+      case 'ol':
+        flush();
+        if (closing) {
+          if (list && list.items.length > 0) {
+            blocks.push({ type: 'list', ordered: list.ordered, items: list.items });
+          }
+          list = null;
+        } else {
+          list = { ordered: name === 'ol', items: [] };
+        }
+        break;
+      case 'hr':
+        flush();
+        blocks.push({ type: 'rule' });
+        break;
+      case 'table':
+        flush();
+        if (closing) {
+          if (table && table.rows.length > 0) {
+            const headerCount = Math.max(table.headerRows, 1);
+            blocks.push({ type: 'table', headers: table.rows[headerCount - 1], rows: table.rows.slice(headerCount) });
+          }
+          table = null;
+        } else {
+          table = { rows: [], headerRows: 0 };
+        }
+        break;
+      case 'tr':
+        if (!table) break;
+        if (closing) {
+          flush();
+          if (row) {
+            table.rows.push(row);
+            if (rowIsHeader && table.rows.length === table.headerRows + 1) table.headerRows++;
+          }
+          row = null;
+        } else {
+          row = [];
+          rowIsHeader = false;
+        }
+        break;
+      case 'th':
+      case 'td':
+        if (!row) break;
+        if (closing) {
+          const before = row.length;
+          flush();
+          // Keep empty cells so columns stay aligned
+          if (row.length === before) row.push('');
+        } else {
+          spans = [];
+          if (name === 'th') rowIsHeader = true;
+        }
+        break;
+    }
+  }
+
+  flush();
+
+  // Close unterminated lists
+  if (list && list.items.length > 0) {
+    blocks.push({ type: 'list', ordered: list.ordered, items: list.items });
+  }
+
+  return blocks;
+}
+
+/**
+ * Decode the most common HTML entities
+ * @param text Text with entities
+ * @returns Decoded text
+ */
+function decodeEntities(text: string): string {
+  const named: Record<string, string> = {
+    amp: '&',
+    lt: '<',
+    gt: '>',
+    quot: '"',
+    apos: "'",
+    nbsp: ' ',
+    euro: '€',
+    pound: '£',
+    yen: '¥',
+    copy: '©',
+    mdash: '—',
+    ndash: '–',
+    hellip: '…'
+  };
+
+  return text.replace(/&(#x?[0-9a-f]+|[a-z]+);/gi, (entity, code: string) => {
+    if (!code.startsWith('#')) return named[code.toLowerCase()] ?? entity;
+
+    // Out of range or malformed references become the replacement character rather than failing the export
+    const hex = code[1] === 'x' || code[1] === 'X';
+    const digits = code.slice(hex ? 2 : 1);
+    const codePoint = hex ? parseInt(digits, 16) : /^\d+$/.test(digits) ? parseInt(digits, 10) : NaN;
+    return Number.isInteger(codePoint) && codePoint >= 0 && codePoint <= 0x10ffff
+      ? String.fromCodePoint(codePoint)
+      : '\ufffd';
+  });
+}
+
+/**
+ * Trim leading and trailing whitespace from a run of spans
+ * @param spans Inline spans
+ * @returns Trimmed spans without empty entries
+ */
+function trimSpans(spans: InlineSpan[]): InlineSpan[] {
+  const result = spans.map(span => ({ ...span }));
+
+  while (result.length > 0 && (result[0].text = result[0].text.replace(/^\s+/, '')) === '') {
+    result.shift();
+  }
+  while (result.length > 0 && (result[result.length - 1].text = result[result.length - 1].text.replace(/\s+$/, '')) === '') {
+    result.pop();
+  }
+
+  return result.filter(span => span.text.length > 0);
+}
+
+/**
+ * Join spans into plain text
+ * @param spans Inline spans
+ * @returns Plain text
+ */
+export function spansToText(spans: InlineSpan[]): string {
+  return spans.map(span => span.text).join('');
+}
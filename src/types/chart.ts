@@ -22,7 +22,17 @@ export interface ChartConfig {
 /**
  * Chart types
  */
-export type ChartType = 'bar' | 'line' | 'pie' | 'doughnut' | 'radar' | 'polarArea' | 'scatter' | 'bubble';
+export type ChartType =
+  | 'bar'
+  | 'line'
+  | 'pie'
+  | 'doughnut'
+  | 'radar'
+  | 'polarArea'
+  | 'scatter'
+  | 'bubble'
+  | 'candlestick'
+  | 'ohlc';
 
 /**
  * Chart data
@@ -40,8 +50,11 @@ export interface ChartData {
 export interface ChartDataset {
   /** Dataset label */
   label: string;
-  /** Dataset data */
-  data: number[];
+  /**
+   * Dataset data: values per label, floating [start, end] ranges for bars,
+   * points for scatter and bubble charts, or prices for candlestick and OHLC charts
+   */
+  data: (number | ChartRange | ChartPoint | ChartOhlc)[];
   /** Background color */
   backgroundColor?: string | string[];
   /** Border color */
@@ -56,6 +69,274 @@ export interface ChartDataset {
   pointStyle?: string | string[];
   /** Dataset type (for mixed charts) */
   type?: ChartType;
+  /** ID of the value axis the dataset is plotted against */
+  yAxisID?: string;
+  /** Join lines across missing values, or the largest gap to join in ms on time scales */
+  spanGaps?: boolean | number;
+}
+
+/**
+ * Floating bar from a start value to an end value
+ */
+export type ChartRange = [number, number];
+
+/**
+ * Data point of a scatter or bubble chart
+ */
+export interface ChartPoint {
+  /** X value */
+  x: number;
+  /** Y value */
+  y: number;
+  /** Bubble radius in px */
+  r?: number;
+}
+
+/**
+ * Open, high, low and close prices of one period in a candlestick or OHLC chart
+ */
+export interface ChartOhlc {
+  /** Open */
+  o: number;
+  /** High */
+  h: number;
+  /** Low */
+  l: number;
+  /** Close */
+  c: number;
+}
+
+/**
+ * Price record of one period
+ */
+export interface OhlcRecord {
+  /** Period date */
+  date: Date | string;
+  /** Opening price */
+  open: number;
+  /** Highest price */
+  high: number;
+  /** Lowest price */
+  low: number;
+  /** Closing price */
+  close: number;
+  /** Traded volume */
+  volume?: number;
+}
+
+/**
+ * Options for candlestick and OHLC charts
+ */
+export interface CandlestickChartOptions extends Partial<ChartOptions> {
+  /** Draw candlesticks or OHLC bars (default: candlestick) */
+  style?: 'candlestick' | 'ohlc';
+  /** Price series label (default: 'Price') */
+  label?: string;
+  /** Date format of the labels (default: 'YYYY-MM-DD') */
+  dateFormat?: string;
+  /** Show the volume of records that have one below the prices (default: true) */
+  volume?: boolean;
+  /** Colors */
+  colors?: {
+    /** Color of periods closing at or above their open */
+    up?: string;
+    /** Color of periods closing below their open */
+    down?: string;
+    /** Color of volume bars */
+    volume?: string;
+  };
+}
+
+/**
+ * Time unit of a time scale's ticks
+ */
+export type TimeUnit = 'day' | 'week' | 'month' | 'quarter' | 'year';
+
+/**
+ * Time scale settings
+ */
+export interface TimeScaleOptions {
+  /** Tick unit (default: picked from the date range) */
+  unit?: TimeUnit;
+  /** Tick label format for formatDate (default: depends on the unit) */
+  displayFormat?: string;
+  /** Date format of tooltips (default: 'YYYY-MM-DD') */
+  tooltipFormat?: string;
+}
+
+/**
+ * Value of a time series on one date
+ */
+export interface TimeSeriesPoint {
+  /** Date */
+  date: Date;
+  /** Value, or null for a gap */
+  value: number | null;
+}
+
+/**
+ * Options for time series charts
+ */
+export interface TimeSeriesChartOptions extends Partial<ChartOptions> {
+  /** Labels for the series */
+  datasetLabels?: string[];
+  /** Tick unit (default: picked from the date range) */
+  unit?: TimeUnit;
+  /** Tick label format for formatDate (default: depends on the unit) */
+  displayFormat?: string;
+  /** Largest gap between dates, in days, that lines still join (default: join every gap) */
+  maxGap?: number;
+}
+
+/**
+ * Options for waterfall charts
+ */
+export interface WaterfallChartOptions extends Partial<ChartOptions> {
+  /** Indexes of bars drawn as subtotals: the running total including their delta */
+  subtotals?: number[];
+  /** Label of a total bar appended after the last delta (default: none) */
+  totalLabel?: string;
+  /** Bar colors */
+  colors?: {
+    /** Color of increases */
+    increase?: string;
+    /** Color of decreases */
+    decrease?: string;
+    /** Color of subtotals and the total */
+    total?: string;
+  };
+}
+
+/**
+ * Position on a chart axis: a category label or index, a date or timestamp on time scales, or a number
+ */
+export type ChartAxisValue = number | string | Date;
+
+/**
+ * Line across the chart at an axis value, e.g. a budget target or an event marker
+ */
+export interface ChartLineAnnotation {
+  type: 'line';
+  /** Axis the value is on: 'y' draws a horizontal line, 'x' a vertical one */
+  axis: 'x' | 'y';
+  /** Position of the line */
+  value: ChartAxisValue;
+  /** Text drawn along the line */
+  label?: string;
+  /** Line and label color (default: red) */
+  color?: string;
+  /** Line width in px (default: 2) */
+  width?: number;
+  /** Dash pattern in px (default: solid) */
+  dash?: number[];
+}
+
+/**
+ * Shaded area between axis values, e.g. a tolerance band
+ */
+export interface ChartBoxAnnotation {
+  type: 'box';
+  /** Start on the x axis (default: left edge of the plot) */
+  xMin?: ChartAxisValue;
+  /** End on the x axis (default: right edge of the plot) */
+  xMax?: ChartAxisValue;
+  /** Start on the y axis (default: bottom of the plot) */
+  yMin?: ChartAxisValue;
+  /** End on the y axis (default: top of the plot) */
+  yMax?: ChartAxisValue;
+  /** Text in the top left corner */
+  label?: string;
+  /** Fill color (default: translucent yellow) */
+  color?: string;
+  /** Border color (default: none) */
+  borderColor?: string;
+}
+
+/**
+ * Text at a point on the chart
+ */
+export interface ChartLabelAnnotation {
+  type: 'label';
+  /** Position on the x axis */
+  x: ChartAxisValue;
+  /** Position on the y axis */
+  y: ChartAxisValue;
+  /** Text, centred on the point */
+  text: string;
+  /** Text color (default: grey) */
+  color?: string;
+}
+
+/**
+ * Annotation anchored to axis values
+ */
+export type ChartAnnotation = ChartLineAnnotation | ChartBoxAnnotation | ChartLabelAnnotation;
+
+/**
+ * Number format of chart values on the value axis, in tooltips and in data labels
+ */
+export interface ChartValueFormat {
+  /** Format style; percentages are given in percent, e.g. 12.5 for 12.5% (default: 'number') */
+  style?: 'number' | 'currency' | 'percentage';
+  /** Currency code (ISO 4217) of currency values (default: 'USD') */
+  currency?: string;
+  /** Locale of currency and compact values (default: 'en-US') */
+  locale?: string;
+  /** Abbreviate large values, e.g. $150K (default: false) */
+  compact?: boolean;
+  /** Decimal places (default: as many as the tick step needs on axes, 2 elsewhere) */
+  decimals?: number;
+}
+
+/**
+ * X axis options
+ */
+export interface ChartXAxisOptions {
+  /** Scale type (default: category); time scales place points by their timestamp */
+  type?: 'category' | 'linear' | 'time';
+  /** Time scale settings */
+  time?: TimeScaleOptions;
+  title?: {
+    display: boolean;
+    text: string;
+  };
+  grid?: {
+    display: boolean;
+  };
+}
+
+/**
+ * Value axis options
+ */
+export interface ChartValueAxisOptions {
+  title?: {
+    display: boolean;
+    text: string;
+  };
+  grid?: {
+    display: boolean;
+  };
+  beginAtZero?: boolean;
+  /** Side of the chart the axis is drawn on (default: left) */
+  position?: 'left' | 'right';
+  /** Format of the axis ticks and of the tooltips and data labels of its datasets (default: ChartOptions.format) */
+  format?: ChartValueFormat;
+}
+
+/**
+ * Series of a combo chart
+ */
+export interface ComboChartSeries {
+  /** Series label */
+  label: string;
+  /** Values for each label */
+  data: (number | null)[];
+  /** Draw the series as bars or a line (default: 'bar') */
+  type?: 'bar' | 'line';
+  /** Value axis the series is plotted against (default: 'y') */
+  yAxisID?: string;
+  /** Series color (default: from the palette) */
+  color?: string;
 }
 
 /**
@@ -78,27 +359,22 @@ export interface ChartOptions {
     enabled: boolean;
     mode?: 'point' | 'nearest' | 'index' | 'dataset' | 'x' | 'y';
   };
+  /** Format of values on the value axis, in tooltips and in data labels */
+  format?: ChartValueFormat;
+  /** Value labels on bars and line points, and share labels on pie and doughnut slices */
+  dataLabels?: {
+    display: boolean;
+  };
+  /** Lines, boxes and labels drawn over charts with x and y axes */
+  annotations?: ChartAnnotation[];
+  /** Category axis; 'y' draws horizontal bars with categories down the y axis (default: 'x') */
+  indexAxis?: 'x' | 'y';
   /** Chart scales */
   scales?: {
-    x?: {
-      title?: {
-        display: boolean;
-        text: string;
-      };
-      grid?: {
-        display: boolean;
-      };
-    };
-    y?: {
-      title?: {
-        display: boolean;
-        text: string;
-      };
-      grid?: {
-        display: boolean;
-      };
-      beginAtZero?: boolean;
-    };
+    x?: ChartXAxisOptions;
+    y?: ChartValueAxisOptions;
+    /** Further value axes, referenced by ChartDataset.yAxisID */
+    [axisId: string]: ChartXAxisOptions | ChartValueAxisOptions | undefined;
   };
   /** Animation configuration */
   animation?: {
@@ -32,9 +32,13 @@ export interface ThemeConfig {
   backgroundColor?: string;
   /** Text color */
   textColor?: string;
+  /** Color for positive changes */
+  positiveColor?: string;
+  /** Color for negative changes */
+  negativeColor?: string;
   /** Font family */
   fontFamily?: string;
-  /** Font size base (in pixels) */
+  /** Font size base (in pixels; PDF exports convert it to points) */
   fontSize?: number;
   /** Header styles */
   headerStyles?: {
@@ -61,6 +65,11 @@ export interface ThemeConfig {
   chartColors?: string[];
 }
 
+/**
+ * Name of a theme shipped with the package
+ */
+export type BuiltInThemeName = 'default' | 'corporate' | 'monochrome' | 'highContrast';
+
 /**
  * Export options
  */
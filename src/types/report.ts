@@ -28,8 +28,45 @@ export interface ReportConfig {
   sections: ReportSection[];
   /** Page configuration */
   pageConfig?: PageConfig;
+  /** Review status; draft, confidential and unaudited reports are stamped when exported */
+  status?: ReportStatus;
+  /** Cover page shown before the report */
+  cover?: CoverPageConfig;
+  /** Executive summary collecting the items of every summary section, shown before the detailed sections */
+  executiveSummary?: ExecutiveSummaryConfig;
 }
 
+/**
+ * Cover page configuration
+ *
+ * The cover shows the report title, subtitle, date range, company and logo.
+ */
+export interface CoverPageConfig {
+  /** Whether the cover page is drawn */
+  enabled: boolean;
+  /** Person or team that prepared the report */
+  preparedBy?: string;
+  /** Person or body that approved the report */
+  approvedBy?: string;
+  /** Date shown on the cover (default: the export date) */
+  date?: Date;
+}
+
+/**
+ * Executive summary configuration
+ */
+export interface ExecutiveSummaryConfig {
+  /** Whether the executive summary is drawn */
+  enabled: boolean;
+  /** Heading (default: 'Executive Summary') */
+  title?: string;
+}
+
+/**
+ * Review status of a report
+ */
+export type ReportStatus = 'draft' | 'confidential' | 'unaudited' | 'final';
+
 /**
  * Financial report section
  */
@@ -37,9 +74,21 @@ export interface ReportSection {
   /** Section title */
   title: string;
   /** Section content type */
-  type: 'summary' | 'chart' | 'table' | 'reconciliation' | 'text';
+  type: 'summary' | 'chart' | 'table' | 'reconciliation' | 'text' | 'signoff' | 'layout';
   /** Section content */
-  content: SummaryContent | ChartConfig | TableContent | ReconciliationData | TextContent;
+  content: SummaryContent | ChartConfig | TableContent | ReconciliationData | TextContent | SignoffContent | LayoutContent;
+  /** Page size and orientation for this section; the section then starts on a new page */
+  page?: SectionPageConfig;
+}
+
+/**
+ * Page geometry of a single section
+ */
+export interface SectionPageConfig {
+  /** Page size (default: the report page size) */
+  size?: PageConfig['size'];
+  /** Page orientation (default: the report orientation) */
+  orientation?: PageConfig['orientation'];
 }
 
 /**
@@ -65,6 +114,22 @@ export interface TableContent {
   rows: (string | number)[][];
   /** Table summary row */
   summary?: (string | number)[];
+  /** Column layout settings, in the same order as the headers */
+  columns?: TableColumn[];
+  /** Repeat the header row on every page the table spans (default: true) */
+  repeatHeader?: boolean;
+}
+
+/**
+ * Table column configuration
+ */
+export interface TableColumn {
+  /** Relative column width (default: 1) */
+  width?: number;
+  /** Horizontal alignment (default: right for numeric columns, left otherwise) */
+  align?: 'left' | 'center' | 'right';
+  /** Handling of text wider than the column (default: 'wrap') */
+  overflow?: 'wrap' | 'truncate';
 }
 
 /**
@@ -77,6 +142,54 @@ export interface TextContent {
   format?: 'markdown' | 'html' | 'plain';
 }
 
+/**
+ * Layout configuration: rows of sections drawn side by side
+ */
+export interface LayoutContent {
+  /** Rows, drawn top to bottom */
+  rows: LayoutRow[];
+  /** Gap between columns and between rows in mm (default: 6) */
+  gap?: number;
+}
+
+/**
+ * Row of a layout
+ */
+export interface LayoutRow {
+  /** Sections drawn left to right; sections with an empty title are drawn without a heading */
+  sections: ReportSection[];
+  /** Relative column widths, in the same order as the sections (default: equal widths) */
+  widths?: number[];
+}
+
+/**
+ * Sign-off block configuration
+ */
+export interface SignoffContent {
+  /** People who prepared, reviewed and approved the report, in signing order */
+  signatories: Signatory[];
+  /**
+   * What to do when a signature cannot be loaded: 'throw' rejects the export, 'skip' leaves a
+   * blank signature line (default: 'throw'). SVG signatures need a DOM canvas, so server-side
+   * exports (e.g. in Node) can only draw PNG and JPEG signatures
+   */
+  onError?: 'throw' | 'skip';
+}
+
+/**
+ * Person signing off a report
+ */
+export interface Signatory {
+  /** Role, e.g. 'Prepared by', 'Reviewed by' or 'Approved by' */
+  role: string;
+  /** Name of the signatory */
+  name: string;
+  /** Date signed; a blank line is left for a handwritten date when omitted */
+  date?: Date;
+  /** Signature image (PNG, JPEG or SVG data URL, base64 data, SVG markup or URL; SVG only in browsers) */
+  signature?: string;
+}
+
 /**
  * Page configuration
  */
@@ -93,16 +206,31 @@ export interface PageConfig {
     left: number;
   };
   /** Page header */
-  header?: {
-    enabled: boolean;
-    height?: number;
-    content?: TextContent;
-  };
+  header?: PageRegionConfig;
   /** Page footer */
-  footer?: {
-    enabled: boolean;
-    height?: number;
-    content?: TextContent;
+  footer?: PageRegionConfig & {
+    /** Show "Page X of Y" in the right slot when it is not set (default: true) */
     showPageNumber?: boolean;
   };
-} 
\ No newline at end of file
+}
+
+/**
+ * Running header or footer configuration
+ *
+ * Slot texts may contain the tokens {page}, {pages}, {title}, {subtitle},
+ * {company}, {date} and {datetime}.
+ */
+export interface PageRegionConfig {
+  /** Whether the region is drawn */
+  enabled: boolean;
+  /** Region height in mm (default: 10) */
+  height?: number;
+  /** Region text, used for the centre slot when `center` is not set */
+  content?: TextContent;
+  /** Left-aligned text */
+  left?: string;
+  /** Centred text */
+  center?: string;
+  /** Right-aligned text */
+  right?: string;
+}
@@ -0,0 +1,28 @@
+/**
+ * Binary data utilities for financial reports
+ */
+
+/** Bytes converted per String.fromCharCode call, to stay under the argument limit */
+const CHUNK_SIZE = 0x8000;
+
+/**
+ * Convert bytes to a string with one character per byte
+ * @param bytes Bytes
+ * @returns Binary string
+ */
+export function bytesToBinaryString(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += CHUNK_SIZE) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + CHUNK_SIZE));
+  }
+  return binary;
+}
+
+/**
+ * Encode bytes as base64
+ * @param bytes Bytes
+ * @returns Base64 string
+ */
+export function bytesToBase64(bytes: Uint8Array): string {
+  return btoa(bytesToBinaryString(bytes));
+}
@@ -0,0 +1,100 @@
+/**
+ * Color utilities for financial reports
+ */
+
+/**
+ * RGBA color with channels in 0-255 and alpha in 0-1
+ */
+export interface RgbaColor {
+  r: number;
+  g: number;
+  b: number;
+  a: number;
+}
+
+/**
+ * Named colors commonly used in chart configurations
+ */
+const NAMED_COLORS: Record<string, string> = {
+  black: '#000000',
+  white: '#ffffff',
+  red: '#ff0000',
+  green: '#008000',
+  blue: '#0000ff',
+  yellow: '#ffff00',
+  orange: '#ffa500',
+  purple: '#800080',
+  grey: '#808080',
+  gray: '#808080',
+  transparent: 'rgba(0, 0, 0, 0)'
+};
+
+/**
+ * Parse a CSS color string (hex, rgb(), rgba() or a common name)
+ * @param color Color string
+ * @param fallback Color returned when the string cannot be parsed
+ * @returns Parsed color
+ */
+export function parseColor(color: string | undefined, fallback: RgbaColor = { r: 0, g: 0, b: 0, a: 1 }): RgbaColor {
+  if (!color) return fallback;
+
+  const value = NAMED_COLORS[color.trim().toLowerCase()] || color.trim();
+
+  // Hex colors (#rgb, #rgba, #rrggbb, #rrggbbaa)
+  const hexMatch = value.match(/^#([0-9a-f]{3,8})$/i);
+  if (hexMatch) {
+    let hex = hexMatch[1];
+    if (hex.length === 3 || hex.length === 4) {
+      hex = hex.split('').map(char => char + char).join('');
+    }
+    if (hex.length !== 6 && hex.length !== 8) return fallback;
+
+    return {
+      r: parseInt(hex.slice(0, 2), 16),
+      g: parseInt(hex.slice(2, 4), 16),
+      b: parseInt(hex.slice(4, 6), 16),
+      a: hex.length === 8 ? parseInt(hex.slice(6, 8), 16) / 255 : 1
+    };
+  }
+
+  // Functional notation
+  const rgbMatch = value.match(/^rgba?\(\s*([\d.]+)[\s,]+([\d.]+)[\s,]+([\d.]+)(?:[\s,/]+([\d.]+%?))?\s*\)$/i);
+  if (rgbMatch) {
+    const alpha = rgbMatch[4];
+    return {
+      r: Number(rgbMatch[1]),
+      g: Number(rgbMatch[2]),
+      b: Number(rgbMatch[3]),
+      a: alpha === undefined ? 1 : alpha.endsWith('%') ? parseFloat(alpha) / 100 : Number(alpha)
+    };
+  }
+
+  return fallback;
+}
+
+/**
+ * Blend a translucent color over a solid background
+ * @param color Foreground color
+ * @param background Background color (default: white)
+ * @returns Opaque color
+ */
+export function flattenColor(color: RgbaColor, background: RgbaColor = { r: 255, g: 255, b: 255, a: 1 }): RgbaColor {
+  const blend = (fg: number, bg: number) => Math.round(fg * color.a + bg * (1 - color.a));
+
+  return {
+    r: blend(color.r, background.r),
+    g: blend(color.g, background.g),
+    b: blend(color.b, background.b),
+    a: 1
+  };
+}
+
+/**
+ * Format a color as a hex string
+ * @param color Color to format
+ * @returns Hex color (#rrggbb)
+ */
+export function toHexColor(color: RgbaColor): string {
+  const channel = (value: number) => Math.max(0, Math.min(255, Math.round(value))).toString(16).padStart(2, '0');
+  return `#${channel(color.r)}${channel(color.g)}${channel(color.b)}`;
+}
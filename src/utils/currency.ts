@@ -9,18 +9,29 @@ import { Decimal } from 'decimal.js';
  * @param amount Amount to format
  * @param currency Currency code (ISO 4217) or symbol
  * @param locale Locale for formatting
+ * @param decimalPlaces Number of decimal places (default: the currency's minor units, up to 2 when compact)
+ * @param compact Whether to abbreviate large amounts, e.g. $150K
  * @returns Formatted currency string
  */
 export function formatCurrency(
   amount: number | string, 
   currency: string = 'USD', 
-  locale: string = 'en-US'
+  locale: string = 'en-US',
+  decimalPlaces?: number,
+  compact: boolean = false
 ): string {
+  // Compact amounts drop trailing zeros unless the decimal places are fixed
+  const fractionDigits = decimalPlaces !== undefined
+    ? { minimumFractionDigits: decimalPlaces, maximumFractionDigits: decimalPlaces }
+    : compact ? { minimumFractionDigits: 0, maximumFractionDigits: 2 } : {};
+  
   // Use Intl.NumberFormat for localized currency formatting
   return new Intl.NumberFormat(locale, {
     style: 'currency',
     currency: currency.length === 3 ? currency : 'USD',
     currencyDisplay: currency.length === 3 ? 'symbol' : 'code',
+    notation: compact ? 'compact' : 'standard',
+    ...fractionDigits
   }).format(typeof amount === 'string' ? parseFloat(amount) : amount);
 }
 
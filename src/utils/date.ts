@@ -10,27 +10,57 @@ function formatWithDayjs(date: Date | string | number, format: string = 'YYYY-MM
   return dayjs.default(date).format(format);
 }
 
+/** Month names for the MMM and MMMM format tokens */
+const MONTH_NAMES = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December'
+];
+
+/**
+ * Pad a number to two digits
+ * @param value Number
+ * @returns Padded number
+ */
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
+
+/** Formatters for each date format token */
+const TOKEN_FORMATTERS: Record<string, (date: Date) => string> = {
+  YYYY: date => String(date.getFullYear()),
+  YY: date => pad(date.getFullYear() % 100),
+  MMMM: date => MONTH_NAMES[date.getMonth()],
+  MMM: date => MONTH_NAMES[date.getMonth()].slice(0, 3),
+  MM: date => pad(date.getMonth() + 1),
+  M: date => String(date.getMonth() + 1),
+  DD: date => pad(date.getDate()),
+  D: date => String(date.getDate()),
+  HH: date => pad(date.getHours()),
+  mm: date => pad(date.getMinutes()),
+  ss: date => pad(date.getSeconds()),
+  Q: date => String(Math.floor(date.getMonth() / 3) + 1)
+};
+
+/** Format tokens, longest first, plus [bracketed] text that is kept as is */
+const FORMAT_TOKENS = /\[([^\]]*)]|YYYY|YY|MMMM|MMM|MM|M|DD|D|HH|mm|ss|Q/g;
+
 /**
  * Format a date according to the specified format
  * @param date Date to format
- * @param format Format string (dayjs format)
- * @returns Formatted date string
+ * @param format Format string (dayjs tokens: YYYY, YY, MMMM, MMM, MM, M, DD, D, HH, mm, ss, Q and [literal text])
+ * @returns Formatted date string, or 'Invalid Date' for an invalid Date
  */
 export function formatDate(date: Date | string | number, format: string = 'YYYY-MM-DD'): string {
+  // Invalid dates have no month name to look up, so do not format them
+  if (date instanceof Date && isNaN(date.getTime())) {
+    return 'Invalid Date';
+  }
+  
   // Simple built-in formatting to avoid dayjs issues
   if (date instanceof Date) {
-    const d = date;
-    const year = d.getFullYear();
-    const month = String(d.getMonth() + 1).padStart(2, '0');
-    const day = String(d.getDate()).padStart(2, '0');
-    
-    if (format === 'YYYY-MM-DD') {
-      return `${year}-${month}-${day}`;
-    } else if (format === 'YYYY-MM-DD HH:mm') {
-      const hours = String(d.getHours()).padStart(2, '0');
-      const minutes = String(d.getMinutes()).padStart(2, '0');
-      return `${year}-${month}-${day} ${hours}:${minutes}`;
-    }
+    return format.replace(FORMAT_TOKENS, (token, literal) =>
+      literal !== undefined ? literal : TOKEN_FORMATTERS[token](date)
+    );
   }
   
   // For anything not handled by simple formatting, convert to string
@@ -4,4 +4,6 @@
 
 export * from './date';
 export * from './currency';
-export * from './validation'; 
\ No newline at end of file
+export * from './validation';
+export * from './color';
+export * from './binary'; 
\ No newline at end of file
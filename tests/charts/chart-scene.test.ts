@@ -0,0 +1,217 @@
+import { buildChartScene, getNiceTicks } from '../../src/charts/chart-scene';
+import { renderChartToSvg } from '../../src/charts/chart-svg';
+import {
+  createBarChart,
+  createComboChart,
+  createPieChart,
+  createTimeSeriesBarChart,
+  createTimeSeriesLineChart,
+  createWaterfallChart
+} from '../../src';
+
+describe('Chart scene', () => {
+  const day = (date: number) => new Date(2024, 0, date);
+  
+  test('getNiceTicks returns rounded ticks covering the range', () => {
+    expect(getNiceTicks(0, 14500)).toEqual([0, 5000, 10000, 15000]);
+    expect(getNiceTicks(-3, 7)).toEqual([-4, -2, 0, 2, 4, 6, 8]);
+  });
+  
+  test('bar charts produce one rect per value plus legend boxes', () => {
+    const config = createBarChart(['Q1', 'Q2', 'Q3'], [[10, 20, 30], [5, 15, 25]]);
+    const scene = buildChartScene(config);
+    const rects = scene.elements.filter(element => element.kind === 'rect');
+    
+    expect(rects).toHaveLength(6 + 2);
+    expect(scene.width).toBe(800);
+  });
+  
+  test('pie charts produce sectors covering the full circle', () => {
+    const config = createPieChart(['A', 'B'], [25, 75], { title: { display: true, text: 'Split' } });
+    const sectors = buildChartScene(config).elements.filter(element => element.kind === 'sector');
+    
+    expect(sectors).toHaveLength(2);
+    const sweep = sectors.reduce((total, sector) => total + (sector.kind === 'sector' ? sector.endAngle - sector.startAngle : 0), 0);
+    expect(sweep).toBeCloseTo(Math.PI * 2);
+  });
+  
+  test('bubble charts draw one circle per point sized by its radius', () => {
+    const scene = buildChartScene({
+      type: 'bubble',
+      data: { labels: [], datasets: [{ label: 'Markets', data: [{ x: 10, y: 20, r: 15 }, { x: 30, y: 10, r: 5 }] }] }
+    });
+    const circles = scene.elements.filter(element => element.kind === 'circle');
+    
+    expect(circles.map(circle => (circle.kind === 'circle' ? circle.r : 0))).toEqual([15, 5]);
+  });
+  
+  test('renderChartToSvg serialises the scene with escaped labels and dataset colors', () => {
+    const svg = renderChartToSvg({
+      type: 'radar',
+      data: { labels: ['Cost', 'Speed', 'R&D'], datasets: [{ label: '2024', data: [3, 4, 5], borderColor: '#ff0000' }] },
+      options: { title: { display: true, text: 'Scorecard' } }
+    });
+    
+    expect(svg).toMatch(/^<svg xmlns="http:\/\/www.w3.org\/2000\/svg" width="800" height="400"/);
+    expect(svg).toContain('>R&amp;D</text>');
+    expect(svg).toContain('>Scorecard</text>');
+    expect(svg).toContain('stroke="#ff0000"');
+  });
+  
+  test('waterfall charts float each change between running totals', () => {
+    const config = createWaterfallChart(['Revenue', 'COGS', 'Gross profit', 'Opex'], [1000, -400, 0, -300], {
+      subtotals: [0, 2],
+      totalLabel: 'Net income'
+    });
+    
+    expect(config.data.labels).toEqual(['Revenue', 'COGS', 'Gross profit', 'Opex', 'Net income']);
+    expect(config.data.datasets[0].data).toEqual([[0, 1000], [1000, 600], [0, 600], [600, 300], [0, 300]]);
+    
+    const colors = config.data.datasets[0].backgroundColor as string[];
+    expect(colors[0]).toBe(colors[2]);
+    expect(colors[1]).not.toBe(colors[0]);
+    
+    const rects = buildChartScene(config).elements.filter(element => element.kind === 'rect');
+    expect(rects).toHaveLength(5);
+  });
+  
+  test('candlestick charts draw a wick and body per period with volume below the prices', () => {
+    const scene = buildChartScene({
+      type: 'candlestick',
+      data: {
+        labels: ['Mon', 'Tue'],
+        datasets: [
+          { label: 'EUR/USD', data: [{ o: 1.08, h: 1.09, l: 1.07, c: 1.085 }, { o: 1.085, h: 1.086, l: 1.075, c: 1.078 }] },
+          { label: 'Volume', type: 'bar', data: [1000, 500], yAxisID: 'volume' }
+        ]
+      },
+      options: { legend: { display: false } }
+    });
+    const rects = scene.elements.filter(element => element.kind === 'rect');
+    const wicks = scene.elements.filter(element => element.kind === 'line' && element.x1 === element.x2 && element.stroke !== 'rgba(0, 0, 0, 0.1)');
+    
+    expect(rects).toHaveLength(4);
+    expect(wicks).toHaveLength(2);
+    
+    // Volume bars sit below the lowest price
+    const [firstVolume] = rects;
+    const lowest = Math.max(...wicks.map(wick => (wick.kind === 'line' ? Math.max(wick.y1, wick.y2) : 0)));
+    expect(firstVolume.kind === 'rect' && firstVolume.y).toBeGreaterThan(lowest);
+  });
+  
+  test('value formats apply to axis ticks and data labels', () => {
+    const config = createBarChart(['Q1', 'Q2'], [12.5, 40], {
+      format: { style: 'percentage' },
+      dataLabels: { display: true }
+    });
+    const texts = buildChartScene(config).elements.map(element => (element.kind === 'text' ? element.text : ''));
+    
+    expect(texts).toEqual(expect.arrayContaining(['0%', '40%', '12.50%', '40.00%']));
+  });
+  
+  test('pie data labels show each slice share of the total', () => {
+    const config = createPieChart(['A', 'B', 'C'], [30, 69, 1], { dataLabels: { display: true } });
+    const texts = buildChartScene(config).elements.map(element => (element.kind === 'text' ? element.text : ''));
+    
+    expect(texts).toEqual(expect.arrayContaining(['30.0%', '69.0%']));
+    expect(texts).not.toContain('1.0%');
+  });
+  
+  test('annotations draw target lines, bands and labels inside a widened value range', () => {
+    const config = createBarChart(['Jan', 'Feb'], [100, 120], {
+      annotations: [
+        { type: 'box', yMin: 90, yMax: 110 },
+        { type: 'line', axis: 'y', value: 180, label: 'Budget' },
+        { type: 'line', axis: 'x', value: 'Feb', label: 'Price change' },
+        { type: 'line', axis: 'x', value: 'Mar' }
+      ]
+    });
+    const elements = buildChartScene(config).elements;
+    const texts = elements.map(element => (element.kind === 'text' ? element.text : ''));
+    const budget = elements.find(element => element.kind === 'line' && element.stroke === 'rgb(255, 99, 132)');
+    const gridLine = elements.findIndex(element => element.kind === 'line' && element.stroke === 'rgba(0, 0, 0, 0.1)');
+    const band = elements.findIndex(element => element.kind === 'rect' && element.fill === 'rgba(255, 205, 86, 0.25)');
+    
+    expect(texts).toEqual(expect.arrayContaining(['200', 'Budget', 'Price change']));
+    expect(budget?.kind === 'line' && budget.y1).toBe(budget?.kind === 'line' && budget.y2);
+    expect(band).toBeGreaterThan(-1);
+    expect(band).toBeLessThan(gridLine);
+    expect(elements.filter(element => element.kind === 'line' && element.stroke === 'rgb(255, 99, 132)')).toHaveLength(2);
+  });
+  
+  test('annotations beyond the value range widen it and those off the category axis are dropped', () => {
+    const config = createBarChart(['Jan', 'Feb'], [100, 120], {
+      annotations: [
+        { type: 'line', axis: 'y', value: -50, label: 'Floor' },
+        { type: 'box', yMin: 300, yMax: 400, label: 'Stretch' },
+        { type: 'line', axis: 'x', value: 'Mar', label: 'Missing' },
+        { type: 'line', axis: 'x', value: 5, label: 'Beyond' },
+        { type: 'label', x: 'Mar', y: 50, text: 'Nowhere' }
+      ]
+    });
+    const elements = buildChartScene(config).elements;
+    const texts = elements.map(element => (element.kind === 'text' ? element.text : ''));
+    const tick = (text: string) => elements.find(element => element.kind === 'text' && element.text === text);
+    const box = elements.find(element => element.kind === 'rect' && element.fill === 'rgba(255, 205, 86, 0.25)');
+    const top = tick('400');
+    const bottom = tick('300');
+    
+    expect(texts).toEqual(expect.arrayContaining(['-100', '400', 'Floor', 'Stretch']));
+    expect(texts).not.toContain('Missing');
+    expect(texts).not.toContain('Beyond');
+    expect(texts).not.toContain('Nowhere');
+    expect(box?.kind === 'rect' && box.y).toBeCloseTo(top?.kind === 'text' ? top.y : NaN);
+    expect(box?.kind === 'rect' && box.y + box.height).toBeCloseTo(bottom?.kind === 'text' ? bottom.y : NaN);
+  });
+  
+  test('time series lines break at gaps and date annotations past the data widen the time axis', () => {
+    const config = createTimeSeriesLineChart([
+      { date: day(1), value: 100 },
+      { date: day(2), value: 110 },
+      { date: day(3), value: null },
+      { date: day(4), value: 90 },
+      { date: day(5), value: 95 }
+    ], { unit: 'day', annotations: [{ type: 'line', axis: 'x', value: day(10), label: 'Forecast' }] });
+    const elements = buildChartScene(config).elements;
+    const lines = elements.filter(element => element.kind === 'polyline');
+    const forecast = elements.find(element => element.kind === 'line' && element.stroke === 'rgb(255, 99, 132)');
+    const lastTick = elements.find(element => element.kind === 'text' && element.text === '10 Jan');
+    
+    expect(lines.map(line => (line.kind === 'polyline' ? line.points.length : 0))).toEqual([2, 2]);
+    expect(forecast?.kind === 'line' && forecast.x1).toBeCloseTo(lastTick?.kind === 'text' ? lastTick.x : NaN);
+  });
+  
+  test('time series charts with empty datasets still draw their axes and legend', () => {
+    const partial = buildChartScene(createTimeSeriesLineChart([[], [{ date: day(1), value: 5 }, { date: day(2), value: 7 }]], {
+      unit: 'day',
+      datasetLabels: ['Empty', 'Sales']
+    })).elements;
+    const empty = buildChartScene(createTimeSeriesBarChart([], { unit: 'day' })).elements;
+    const texts = partial.map(element => (element.kind === 'text' ? element.text : ''));
+    
+    expect(texts).toEqual(expect.arrayContaining(['Empty', 'Sales', '1 Jan', '2 Jan']));
+    expect(partial.filter(element => element.kind === 'polyline')).toHaveLength(1);
+    expect(empty.filter(element => element.kind === 'rect')).toHaveLength(1);
+    expect(empty.some(element => element.kind === 'text' && element.text === '0.0')).toBe(true);
+  });
+  
+  test('combo charts plot lines against a secondary axis with its own format', () => {
+    const config = createComboChart(['Q1', 'Q2'], [
+      { label: 'Revenue', data: [1200000, 1500000] },
+      { label: 'Margin', data: [12, 18], type: 'line', yAxisID: 'margin' }
+    ], {
+      format: { compact: true },
+      scales: { margin: { format: { style: 'percentage', decimals: 0 } } }
+    });
+    const elements = buildChartScene(config).elements;
+    const tick = (text: string) => elements.find(element => element.kind === 'text' && element.text === text);
+    const line = elements.find(element => element.kind === 'polyline');
+    const top = tick('18%');
+    
+    expect(tick('1M')).toMatchObject({ align: 'right' });
+    expect(top).toMatchObject({ align: 'left' });
+    expect(line?.kind === 'polyline' && line.points[1][1]).toBeCloseTo(top?.kind === 'text' ? top.y : NaN);
+    expect(() => createComboChart(['Q1'], [{ label: 'Margin', data: [12], yAxisID: 'x' }]))
+      .toThrow('Chart dataset 1 (Margin) cannot be plotted against the x axis');
+  });
+});
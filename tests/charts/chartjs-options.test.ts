@@ -0,0 +1,59 @@
+import { createBarChart } from '../../src/charts/bar-chart';
+import { createCandlestickChart, createOhlcChart } from '../../src/charts/candlestick-chart';
+import { toChartJsConfig } from '../../src/charts/chartjs-options';
+import { OhlcRecord } from '../../src/types';
+
+describe('Chart.js translation', () => {
+  const records: OhlcRecord[] = [
+    { date: '2024-01-02', open: 100, high: 110, low: 95, close: 108, volume: 1200 },
+    { date: '2024-01-03', open: 108, high: 112, low: 101, close: 103, volume: 800 }
+  ];
+  
+  test('candlesticks become floating body and wick bars, with volume on a stretched axis', () => {
+    const config = toChartJsConfig(createCandlestickChart(records)) as any;
+    const [body, wicks, volume] = config.data.datasets;
+    
+    expect(config.type).toBe('bar');
+    expect(body).toMatchObject({ label: 'Price', data: [[100, 108], [108, 103]], prices: expect.any(Array) });
+    expect(wicks).toMatchObject({ label: 'Price range', data: [[95, 110], [101, 112]], priceParts: true });
+    expect(wicks.barPercentage).toBeLessThan(body.barPercentage);
+    expect(volume).toMatchObject({ label: 'Volume', yAxisID: 'volume' });
+    expect(config.options.scales.volume).toMatchObject({ position: 'right', beginAtZero: true, max: 4800 });
+  });
+  
+  test('OHLC bars draw open and close ticks as line points', () => {
+    const config = toChartJsConfig(createOhlcChart(records, { volume: false })) as any;
+    
+    expect(config.data.datasets.map((dataset: any) => [dataset.type, dataset.data])).toEqual([
+      ['bar', [[95, 110], [101, 112]]],
+      ['line', [100, 108]],
+      ['line', [108, 103]]
+    ]);
+    expect(config.options.scales.volume).toBeUndefined();
+  });
+  
+  test('price parts are left out of the legend and tooltips', () => {
+    const config = toChartJsConfig(createCandlestickChart(records)) as any;
+    const { data } = config;
+    const { legend, tooltip } = config.options.plugins;
+    
+    expect(data.datasets.map((dataset: any, datasetIndex: number) => legend.labels.filter({ datasetIndex }, data))).toEqual([true, false, true]);
+    expect(data.datasets.map((dataset: any) => tooltip.filter({ dataset }))).toEqual([true, false, true]);
+    expect(tooltip.callbacks.label({ dataset: data.datasets[0], dataIndex: 1 })).toBe('Price: O 108.00 H 112.00 L 101.00 C 103.00');
+    expect(tooltip.callbacks.label({ dataset: data.datasets[2], dataIndex: 0, formattedValue: '1,200' })).toBe('Volume: 1,200');
+  });
+  
+  test('charts without a value format keep the Chart.js ticks and tooltips', () => {
+    const chart = createBarChart(['Q1', 'Q2'], [150000, 180000]);
+    const config = toChartJsConfig(chart) as any;
+    const formatted = toChartJsConfig(createBarChart(['Q1', 'Q2'], [150000, 180000], {
+      format: { style: 'currency', compact: true }
+    })) as any;
+    
+    expect(config.data).toBe(chart.data);
+    expect(config.options.scales).toEqual(chart.options?.scales);
+    expect(config.options.plugins).toEqual({});
+    expect(formatted.options.scales.y.ticks.callback(150000, 0, [{ value: 100000 }, { value: 150000 }])).toBe('$150K');
+    expect(formatted.options.plugins.tooltip.callbacks.label({ dataset: { label: 'Revenue' }, raw: 150000 })).toBe('Revenue: $150K');
+  });
+});
@@ -0,0 +1,17 @@
+import { getTimeTicks, getTimeUnit } from '../../src/charts/time-scale';
+
+describe('Time scale', () => {
+  test('getTimeUnit picks the finest unit with a readable number of ticks', () => {
+    expect(getTimeUnit(new Date(2026, 0, 1).getTime(), new Date(2026, 0, 10).getTime())).toBe('day');
+    expect(getTimeUnit(new Date(2026, 0, 1).getTime(), new Date(2026, 2, 31).getTime())).toBe('month');
+    expect(getTimeUnit(new Date(2024, 0, 1).getTime(), new Date(2026, 11, 31).getTime())).toBe('quarter');
+  });
+  
+  test('getTimeTicks starts ticks at the beginning of each unit', () => {
+    const weeks = getTimeTicks(new Date(2026, 0, 1).getTime(), new Date(2026, 0, 20).getTime(), 'week');
+    expect(weeks.map(tick => new Date(tick).getDay())).toEqual([1, 1, 1]);
+    
+    const quarters = getTimeTicks(new Date(2025, 10, 15).getTime(), new Date(2026, 9, 1).getTime(), 'quarter');
+    expect(quarters.map(tick => new Date(tick).getMonth())).toEqual([0, 3, 6, 9]);
+  });
+});
@@ -0,0 +1,42 @@
+import { createTimeSeriesBarChart, createTimeSeriesLineChart } from '../../src/charts/time-series-chart';
+import { ChartPoint } from '../../src/types';
+
+describe('Time series charts', () => {
+  const day = (date: number) => new Date(2024, 0, date);
+  
+  test('createTimeSeriesLineChart sorts points by date and turns missing values into gaps', () => {
+    const config = createTimeSeriesLineChart([
+      { date: day(3), value: 120 },
+      { date: day(1), value: 100 },
+      { date: day(2), value: null }
+    ], { unit: 'day' });
+    const points = config.data.datasets[0].data as ChartPoint[];
+    
+    expect(points.map(point => point.x)).toEqual([day(1).getTime(), day(2).getTime(), day(3).getTime()]);
+    expect(points.map(point => point.y)).toEqual([100, NaN, 120]);
+    expect(config.data.datasets[0].spanGaps).toBeUndefined();
+    expect(config.options?.scales?.x).toMatchObject({ type: 'time', time: { unit: 'day' } });
+  });
+  
+  test('maxGap limits the gaps lines join, in days', () => {
+    const series = [{ date: day(1), value: 100 }, { date: day(4), value: 90 }];
+    
+    expect(createTimeSeriesLineChart(series, { maxGap: 3 }).data.datasets[0].spanGaps).toBe(3 * 86400000);
+    expect(createTimeSeriesBarChart(series, { maxGap: 3 }).data.datasets[0].spanGaps).toBeUndefined();
+  });
+  
+  test('several series get their own labels and colors', () => {
+    const first = [{ date: day(1), value: 100 }];
+    const second = [{ date: day(1), value: 80 }];
+    
+    const labelled = createTimeSeriesBarChart([first, second], { datasetLabels: ['Cash', 'Debt'] });
+    const unlabelled = createTimeSeriesLineChart([first, second]);
+    const single = createTimeSeriesLineChart(first, { title: { display: true, text: 'Cash balance' } });
+    
+    expect(labelled.data.datasets.map(dataset => dataset.label)).toEqual(['Cash', 'Debt']);
+    expect(labelled.data.datasets[0].backgroundColor).not.toBe(labelled.data.datasets[1].backgroundColor);
+    expect(labelled.options?.scales?.y?.beginAtZero).toBe(true);
+    expect(unlabelled.data.datasets.map(dataset => dataset.label)).toEqual(['Dataset 1', 'Dataset 2']);
+    expect(single.data.datasets[0].label).toBe('Cash balance');
+  });
+});
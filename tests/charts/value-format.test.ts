@@ -0,0 +1,44 @@
+import { createTickFormatter, createValueFormatter, formatShare, getTickDecimals } from '../../src/charts/value-format';
+
+describe('Value formats', () => {
+  test('createValueFormatter formats currencies in their locale', () => {
+    expect(createValueFormatter({ style: 'currency' })(1234.5)).toBe('$1,234.50');
+    expect(createValueFormatter({ style: 'currency', currency: 'EUR', locale: 'de-DE' })(1234.5)).toBe('1.234,50\u00a0€');
+    expect(createValueFormatter({ style: 'currency', currency: 'JPY', locale: 'ja-JP' })(1234)).toBe('￥1,234');
+  });
+  
+  test('createValueFormatter abbreviates compact values', () => {
+    expect(createValueFormatter({ style: 'currency', compact: true })(150000)).toBe('$150K');
+    expect(createValueFormatter({ style: 'currency', compact: true })(1250000)).toBe('$1.25M');
+    expect(createValueFormatter({ compact: true })(2500)).toBe('2.5K');
+    expect(createValueFormatter({ compact: true, decimals: 1 })(3000000)).toBe('3.0M');
+  });
+  
+  test('createValueFormatter keeps the sign of negative values', () => {
+    expect(createValueFormatter()(-1234.5)).toBe('-1,234.50');
+    expect(createValueFormatter({ style: 'currency' })(-42)).toBe('-$42.00');
+    expect(createValueFormatter({ style: 'currency', compact: true })(-150000)).toBe('-$150K');
+    expect(createValueFormatter({ style: 'percentage' })(-12.5)).toBe('-12.50%');
+  });
+  
+  test('createValueFormatter uses the format decimals before the fallback', () => {
+    expect(createValueFormatter({}, 0)(1234.56)).toBe('1,235');
+    expect(createValueFormatter({ decimals: 1 }, 0)(1234.56)).toBe('1,234.6');
+    expect(createValueFormatter({ style: 'percentage', decimals: 0 })(12.5)).toBe('13%');
+    expect(createValueFormatter({ style: 'currency', decimals: 0 })(99.5)).toBe('$100');
+  });
+  
+  test('tick formatters use as many decimals as the tick step needs', () => {
+    expect(getTickDecimals([0, 1000, 2000])).toBe(0);
+    expect(getTickDecimals([0, 0.5, 1])).toBe(1);
+    expect(getTickDecimals([0.01, 0.02])).toBe(2);
+    expect(getTickDecimals([5])).toBe(0);
+    expect(createTickFormatter({ style: 'currency' }, [0, 0.5, 1])(0.5)).toBe('$0.5');
+    expect(createTickFormatter(undefined, [0, 50000, 100000])(50000)).toBe('50,000');
+  });
+  
+  test('formatShare handles an empty total', () => {
+    expect(formatShare(25, 100)).toBe('25.0%');
+    expect(formatShare(0, 0)).toBe('0.0%');
+  });
+});
@@ -0,0 +1,79 @@
+import { flattenSections, generateReport } from '../../src/core/report';
+import { ChartConfig } from '../../src/types/chart';
+import { LayoutContent, ReportConfig, SignoffContent } from '../../src/types/report';
+
+describe('Report validation', () => {
+  const reportWithSignoff = (content: SignoffContent): ReportConfig => ({
+    title: 'Month End',
+    sections: [{ title: 'Sign-off', type: 'signoff', content }]
+  });
+  
+  test('accepts sign-off sections with named signatories', () => {
+    const report = generateReport(reportWithSignoff({
+      signatories: [
+        { role: 'Prepared by', name: 'Jane Doe', date: new Date(2024, 0, 31) },
+        { role: 'Approved by', name: 'John Smith' }
+      ]
+    }));
+    
+    expect(report.sections).toHaveLength(1);
+  });
+  
+  test('rejects sign-off sections without valid signatories', () => {
+    expect(() => generateReport(reportWithSignoff({ signatories: [] })))
+      .toThrow('Section 1 must have at least one signatory');
+    expect(() => generateReport(reportWithSignoff({ signatories: [{ role: 'Prepared by', name: '' }] })))
+      .toThrow('Section 1 signatory 1 must have a name');
+    expect(() => generateReport(reportWithSignoff({ signatories: [{ role: 'Prepared by', name: 'Jane Doe', date: new Date('invalid') }] })))
+      .toThrow('Section 1 signatory 1 has an invalid date');
+  });
+  
+  test('rejects layout sections without rows or with invalid widths', () => {
+    const reportWithLayout = (content: LayoutContent): ReportConfig => ({
+      title: 'Dashboard',
+      sections: [{ title: 'Overview', type: 'layout', content }]
+    });
+    const text = { title: '', type: 'text' as const, content: { text: 'Commentary' } };
+    
+    expect(() => generateReport(reportWithLayout({ rows: [] })))
+      .toThrow('Section 1 must have at least one row');
+    expect(() => generateReport(reportWithLayout({ rows: [{ sections: [] }] })))
+      .toThrow('Section 1 row 1 must have at least one section');
+    expect(() => generateReport(reportWithLayout({ rows: [{ sections: [text, text], widths: [2, 0] }] })))
+      .toThrow('Section 1 row 1 widths must be positive numbers');
+  });
+  
+  test('rejects chart datasets on undefined or incompatible axes', () => {
+    const reportWithChart = (content: ChartConfig): ReportConfig => ({
+      title: 'Performance',
+      sections: [{ title: 'Revenue', type: 'chart', content }]
+    });
+    const chart = (type: ChartConfig['type'], yAxisID: string): ChartConfig => ({
+      type,
+      data: { labels: ['Q1'], datasets: [{ label: 'Margin', data: [12], type: 'line', yAxisID }] },
+      options: { scales: { margin: { position: 'right' } } }
+    });
+    
+    expect(generateReport(reportWithChart(chart('bar', 'margin'))).sections).toHaveLength(1);
+    expect(() => generateReport(reportWithChart(chart('bar', 'growth'))))
+      .toThrow('Section 1 dataset 1 (Margin) uses axis "growth", which is not defined in options.scales');
+    expect(() => generateReport(reportWithChart(chart('pie', 'margin'))))
+      .toThrow('Section 1 dataset 1 (Margin) cannot use axis "margin": pie charts have no secondary axes');
+  });
+});
+
+describe('flattenSections', () => {
+  test('replaces layout sections with their children in document order', () => {
+    const section = (title: string) => ({ title, type: 'text' as const, content: { text: title } });
+    const sections = flattenSections([
+      section('Intro'),
+      {
+        title: 'Overview',
+        type: 'layout',
+        content: { rows: [{ sections: [section('Left'), section('Right')] }, { sections: [section('Below')] }] }
+      }
+    ]);
+    
+    expect(sections.map(item => item.title)).toEqual(['Intro', 'Left', 'Right', 'Below']);
+  });
+});
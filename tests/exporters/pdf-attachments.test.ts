@@ -0,0 +1,32 @@
+import { jsPDF } from 'jspdf';
+import { addAttachments, createReportAttachments } from '../../src/exporters/pdf-attachments';
+import { ReportConfig } from '../../src/types/report';
+
+describe('PDF attachments', () => {
+  const report: ReportConfig = {
+    title: 'Bank Reconciliation',
+    sections: [{ title: 'Balances', type: 'table', content: { headers: ['Account', 'Balance'], rows: [['Cash', 100]] } }]
+  };
+  
+  test('createReportAttachments includes the report JSON and section CSVs', () => {
+    const attachments = createReportAttachments(report, { excel: false });
+    
+    expect(attachments.map(attachment => attachment.name)).toEqual([
+      'bank_reconciliation.json',
+      'section_1_balances.csv'
+    ]);
+    expect(JSON.parse(attachments[0].content as string).title).toBe('Bank Reconciliation');
+  });
+  
+  test('addAttachments writes embedded files into the name tree', () => {
+    const doc = new jsPDF({ unit: 'mm', format: 'A4', compress: false });
+    
+    addAttachments(doc, [{ name: 'data.csv', content: 'Account,Balance\nCash,100' }]);
+    const output = doc.output();
+    
+    expect(output).toContain('/Type /EmbeddedFile');
+    expect(output).toContain('/Subtype /text#2fcsv');
+    expect(output).toContain('/F (data.csv)');
+    expect(output).toMatch(/\/Names << \/EmbeddedFiles \d+ 0 R >>/);
+  });
+});
@@ -0,0 +1,28 @@
+import { jsPDF } from 'jspdf';
+import { createLayout } from '../../src/exporters/pdf-layout';
+import { drawExecutiveSummary } from '../../src/exporters/pdf-cover';
+import { ReportSection } from '../../src/types/report';
+
+describe('PDF executive summary', () => {
+  test('drawExecutiveSummary draws an arrow for each non-zero change', () => {
+    const doc = new jsPDF({ unit: 'mm', format: 'A4' });
+    const layout = createLayout(doc);
+    const triangle = jest.spyOn(doc, 'triangle');
+    const sections: ReportSection[] = [{
+      title: 'Key Metrics',
+      type: 'summary',
+      content: {
+        items: [
+          { label: 'Revenue', value: 125000, changePercentage: 12.5 },
+          { label: 'Costs', value: 80000, changePercentage: -4 },
+          { label: 'Headcount', value: 42, changePercentage: 0 }
+        ]
+      }
+    }];
+    
+    drawExecutiveSummary(layout, 'Executive Summary', sections);
+    
+    expect(triangle).toHaveBeenCalledTimes(2);
+    expect(layout.anchors.map(anchor => anchor.title)).toEqual(['Executive Summary']);
+  });
+});
@@ -0,0 +1,39 @@
+import { jsPDF } from 'jspdf';
+import { getScript, installFontFallback } from '../../src/exporters/pdf-fonts';
+
+describe('PDF fonts', () => {
+  test('getScript detects the script of a character', () => {
+    expect(getScript('é')).toBe('latin');
+    expect(getScript('Ж')).toBe('cyrillic');
+    expect(getScript('日')).toBe('cjk');
+    expect(getScript('한')).toBe('hangul');
+  });
+  
+  test('installFontFallback switches fonts only for text the current font cannot render', () => {
+    const doc = new jsPDF();
+    installFontFallback(doc, { cyrillic: 'times' });
+    const setFont = jest.spyOn(doc, 'setFont');
+    
+    doc.text('Total € 1,200', 10, 10);
+    expect(setFont).not.toHaveBeenCalled();
+    
+    doc.text('Итого', 10, 20);
+    expect(setFont).toHaveBeenNthCalledWith(1, 'times', 'normal');
+    expect(setFont).toHaveBeenNthCalledWith(2, 'helvetica', 'normal');
+  });
+  
+  test('installFontFallback draws the whole string in the fallback font when one glyph is missing', () => {
+    const doc = new jsPDF();
+    const fonts: string[] = [];
+    jest.spyOn(doc, 'text').mockImplementation(() => {
+      fonts.push(doc.getFont().fontName);
+      return doc;
+    });
+    installFontFallback(doc, { cyrillic: 'times' });
+    
+    doc.text('Total: Итого', 10, 10);
+    
+    expect(fonts).toEqual(['times']);
+    expect(doc.getFont().fontName).toBe('helvetica');
+  });
+});
@@ -0,0 +1,50 @@
+import { jsPDF } from 'jspdf';
+import { detectImageFormat, downsampleImage, fitImage, getQualitySettings, loadImageData } from '../../src/exporters/pdf-images';
+
+describe('PDF images', () => {
+  const png = 'iVBORw0KGgoAAAANSUhEUgAAAAIAAAABCAYAAAD0In+KAAAAEUlEQVR4nGP4z8DwHwyBNAMAQvgH+bwa8hYAAAAASUVORK5CYII=';
+  
+  test('detectImageFormat recognises data URLs, bare base64 and SVG markup', () => {
+    expect(detectImageFormat(`data:image/png;base64,${png}`)).toBe('PNG');
+    expect(detectImageFormat('data:image/jpeg;base64,/9j/4AAQ')).toBe('JPEG');
+    expect(detectImageFormat(`data:application/octet-stream;base64,${png}`)).toBe('PNG');
+    expect(detectImageFormat('/9j/4AAQSkZJRg')).toBe('JPEG');
+    expect(detectImageFormat('<svg xmlns="http://www.w3.org/2000/svg"></svg>')).toBe('SVG');
+    expect(detectImageFormat('data:image/gif;base64,R0lGODlh')).toBeNull();
+  });
+  
+  test('loadImageData reads the size of PNG and SVG images', async () => {
+    const doc = new jsPDF({ unit: 'mm', format: 'A4' });
+    
+    const image = await loadImageData(doc, png);
+    const svg = await loadImageData(doc, '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 120 40"></svg>');
+    
+    expect(image).toMatchObject({ format: 'PNG', width: 2, height: 1 });
+    expect(image.data.startsWith('data:image/png;base64,')).toBe(true);
+    expect(svg).toMatchObject({ format: 'SVG', width: 120, height: 40 });
+  });
+  
+  test('getQualitySettings defaults to medium and scales with the quality level', () => {
+    const low = getQualitySettings('low');
+    const high = getQualitySettings('high');
+    
+    expect(getQualitySettings()).toEqual(getQualitySettings('medium'));
+    expect(getQualitySettings('best' as any)).toEqual(getQualitySettings('medium'));
+    expect(low.imageDpi).toBeLessThan(high.imageDpi);
+    expect(low.chartPixelRatio).toBeLessThan(high.chartPixelRatio);
+    expect(low.jpegQuality).toBeLessThan(high.jpegQuality);
+  });
+  
+  test('downsampleImage leaves images unchanged without a DOM canvas', async () => {
+    const image = `data:image/png;base64,${png}`;
+    
+    await expect(downsampleImage(image, 1, 1, getQualitySettings('low'))).resolves.toBe(image);
+  });
+  
+  test('fitImage keeps the aspect ratio within the maximum dimensions', () => {
+    const image = { data: '', format: 'PNG' as const, width: 400, height: 100 };
+    
+    expect(fitImage(image, 40, 20)).toEqual({ width: 40, height: 10 });
+    expect(fitImage(image, 100, 5)).toEqual({ width: 20, height: 5 });
+  });
+});
@@ -0,0 +1,64 @@
+import { jsPDF } from 'jspdf';
+import { addLayoutPage, createColumnLayout, createLayout, ensureSpace, getContentWidth, getRemainingHeight, moveDown } from '../../src/exporters/pdf-layout';
+
+describe('PDF layout', () => {
+  test('createLayout starts at the top margin', () => {
+    const layout = createLayout(new jsPDF({ unit: 'mm', format: 'A4' }), { top: 25, left: 20, right: 20 });
+    
+    expect(layout.y).toBe(25);
+    expect(getContentWidth(layout)).toBeCloseTo(170);
+  });
+  
+  test('ensureSpace adds a page when a block would cross the bottom margin', () => {
+    const doc = new jsPDF({ unit: 'mm', format: 'A4' });
+    const layout = createLayout(doc);
+    
+    moveDown(layout, getRemainingHeight(layout) - 5);
+    
+    expect(ensureSpace(layout, 4)).toBe(false);
+    expect(ensureSpace(layout, 10)).toBe(true);
+    expect(doc.getNumberOfPages()).toBe(2);
+    expect(layout.y).toBe(layout.margins.top);
+  });
+  
+  test('ensureSpace does not break a fresh page for oversized blocks', () => {
+    const doc = new jsPDF({ unit: 'mm', format: 'A4' });
+    const layout = createLayout(doc);
+    
+    expect(ensureSpace(layout, 1000)).toBe(false);
+    expect(doc.getNumberOfPages()).toBe(1);
+  });
+  
+  test('addLayoutPage switches the page geometry and keeps it for later breaks', () => {
+    const doc = new jsPDF({ unit: 'mm', format: 'A4' });
+    const layout = createLayout(doc);
+    
+    addLayoutPage(layout, { size: 'A4', orientation: 'landscape' });
+    expect(getContentWidth(layout)).toBeCloseTo(267);
+    
+    addLayoutPage(layout);
+    expect(layout.pageWidth).toBeCloseTo(297);
+    expect(layout.pageHeight).toBeCloseTo(210);
+  });
+  
+  test('addLayoutPage moves to the next page when a column already created it', () => {
+    const doc = new jsPDF({ unit: 'mm', format: 'A4' });
+    const layout = createLayout(doc);
+    
+    addLayoutPage(layout);
+    doc.setPage(1);
+    addLayoutPage(layout);
+    
+    expect(doc.getNumberOfPages()).toBe(2);
+    expect(doc.getCurrentPageInfo().pageNumber).toBe(2);
+  });
+  
+  test('createColumnLayout narrows the margins to the column', () => {
+    const layout = createLayout(new jsPDF({ unit: 'mm', format: 'A4' }), { left: 20, right: 20 });
+    const column = createColumnLayout(layout, 100, 60);
+    
+    expect(column.margins.left).toBe(100);
+    expect(getContentWidth(column)).toBeCloseTo(60);
+    expect(column.anchors).toBe(layout.anchors);
+  });
+});
@@ -0,0 +1,47 @@
+import { jsPDF } from 'jspdf';
+import { createLayout } from '../../src/exporters/pdf-layout';
+import { addOutline, drawTableOfContents, reserveTableOfContents } from '../../src/exporters/pdf-navigation';
+
+describe('PDF navigation', () => {
+  test('reserveTableOfContents reserves one row per section across pages', () => {
+    const doc = new jsPDF({ unit: 'mm', format: 'A4' });
+    const layout = createLayout(doc);
+    
+    const toc = reserveTableOfContents(layout, 'Contents', Array.from({ length: 60 }, (_, i) => `section-${i}`));
+    
+    expect(toc.rows).toHaveLength(60);
+    expect(toc.rows[0].pageNumber).toBe(1);
+    expect(toc.rows[59].pageNumber).toBe(2);
+  });
+  
+  test('drawTableOfContents matches entries to headings by key', () => {
+    const doc = new jsPDF({ unit: 'mm', format: 'A4' });
+    const layout = createLayout(doc);
+    const textSpy = jest.spyOn(doc, 'text');
+    const toc = reserveTableOfContents(layout, 'Contents', ['section-0', 'section-2']);
+    
+    drawTableOfContents(layout, toc, [
+      { title: 'Summary', level: 0, pageNumber: 2, y: 20, key: 'section-0' },
+      { title: 'Account', level: 1, pageNumber: 3, y: 20 },
+      { title: 'Cash Flow', level: 0, pageNumber: 4, y: 20, key: 'section-2' }
+    ]);
+    
+    const rows = textSpy.mock.calls.map(call => call[0]).slice(1);
+    expect(rows).toEqual(['Summary', '2', 'Cash Flow', '4']);
+  });
+  
+  test('addOutline nests sub-parts under their section', () => {
+    const doc = new jsPDF({ unit: 'mm', format: 'A4' }) as any;
+    
+    addOutline(doc, [
+      { title: 'Summary', level: 0, pageNumber: 1, y: 20 },
+      { title: 'Reconciliation', level: 0, pageNumber: 2, y: 20 },
+      { title: 'Account', level: 1, pageNumber: 2, y: 40 },
+      { title: 'Unmatched Bank Transactions', level: 1, pageNumber: 3, y: 20 }
+    ]);
+    
+    const sections = doc.outline.root.children;
+    expect(sections.map((item: any) => item.title)).toEqual(['Summary', 'Reconciliation']);
+    expect(sections[1].children.map((item: any) => item.title)).toEqual(['Account', 'Unmatched Bank Transactions']);
+  });
+});
@@ -0,0 +1,40 @@
+import { getContentMargins, getPageFormat, replaceTokens } from '../../src/exporters/pdf-page';
+import { ReportConfig } from '../../src/types/report';
+
+describe('PDF page regions', () => {
+  const report: ReportConfig = {
+    title: 'Monthly Report',
+    sections: []
+  };
+  
+  test('replaceTokens substitutes known tokens and keeps unknown ones', () => {
+    expect(replaceTokens('Page {page} of {pages} - {other}', { page: 2, pages: 5 })).toBe('Page 2 of 5 - {other}');
+  });
+  
+  test('getContentMargins leaves room for the header and footer', () => {
+    const margins = getContentMargins({
+      ...report,
+      pageConfig: {
+        margins: { top: 20, right: 20, bottom: 20, left: 20 },
+        header: { enabled: true, height: 12 },
+        footer: { enabled: false }
+      }
+    });
+    
+    expect(margins.top).toBe(35);
+    expect(margins.bottom).toBe(20);
+    expect(margins.left).toBe(20);
+  });
+  
+  test('getPageFormat applies section overrides over the report page configuration', () => {
+    const configured = { ...report, pageConfig: { size: 'Letter' as const } };
+    
+    expect(getPageFormat(configured)).toEqual({ size: 'Letter', orientation: 'portrait' });
+    expect(getPageFormat(configured, {
+      title: 'Trend',
+      type: 'table',
+      content: { headers: [], rows: [] },
+      page: { orientation: 'landscape' }
+    })).toEqual({ size: 'Letter', orientation: 'landscape' });
+  });
+});
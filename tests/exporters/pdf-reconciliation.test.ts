@@ -0,0 +1,112 @@
+import { jsPDF } from 'jspdf';
+import { createLayout } from '../../src/exporters/pdf-layout';
+import { drawReconciliation } from '../../src/exporters/pdf-reconciliation';
+import { ReconciliationData, Transaction } from '../../src/types/reconciliation';
+
+describe('PDF reconciliation statement', () => {
+  const date = new Date(2024, 0, 15);
+  const transaction = (id: string, description: string, amount: number): Transaction => ({
+    id,
+    date,
+    description,
+    amount,
+    type: amount < 0 ? 'debit' : 'credit'
+  });
+  const reconciliation = (bankTransactions: Transaction[], bookTransactions: Transaction[]): ReconciliationData => ({
+    account: { name: 'Operating Account', number: '12345678', currency: 'USD', openingBalance: 1000, closingBalance: 1050 },
+    period: { startDate: new Date(2024, 0, 1), endDate: new Date(2024, 0, 31) },
+    bankTransactions,
+    bookTransactions
+  });
+  
+  test('drawReconciliation lists unmatched items with totals under an unbalanced badge', () => {
+    const doc = new jsPDF({ unit: 'mm', format: 'A4' });
+    const textSpy = jest.spyOn(doc, 'text');
+    
+    drawReconciliation(createLayout(doc), reconciliation(
+      [transaction('b1', 'Invoice 1001', 100), transaction('b2', 'Bank fee', -50)],
+      [transaction('k1', 'Invoice 1001', 100), transaction('k2', 'Cheque 17', -75)]
+    ), 'Bank Reconciliation');
+    
+    const drawn = textSpy.mock.calls.map(call => call[0]);
+    
+    expect(drawn).toEqual(expect.arrayContaining([
+      'UNBALANCED',
+      'Unmatched Bank Transactions',
+      'Unmatched Book Transactions',
+      'Bank fee',
+      'Cheque 17'
+    ]));
+    expect(drawn).not.toContain('Invoice 1001');
+    expect(drawn.filter(text => text === 'Total')).toHaveLength(2);
+    expect(drawn.filter(text => text === '1 transaction')).toHaveLength(2);
+  });
+  
+  test('drawReconciliation notes empty listings when every transaction matches', () => {
+    const doc = new jsPDF({ unit: 'mm', format: 'A4' });
+    const textSpy = jest.spyOn(doc, 'text');
+    
+    drawReconciliation(createLayout(doc), reconciliation(
+      [transaction('b1', 'Invoice 1001', 50)],
+      [transaction('k1', 'Invoice 1001', 50)]
+    ), 'Bank Reconciliation');
+    
+    const drawn = textSpy.mock.calls.map(call => call[0]);
+    
+    expect(drawn).toContain('BALANCED');
+    expect(drawn.filter(text => text === 'No unmatched transactions')).toHaveLength(2);
+  });
+  
+  test('drawReconciliation anchors its sub-parts at the given outline level', () => {
+    const layout = createLayout(new jsPDF({ unit: 'mm', format: 'A4' }));
+    
+    drawReconciliation(layout, reconciliation([], []), 'Bank Reconciliation', 2);
+    
+    expect(layout.anchors.map(anchor => anchor.title)).toEqual([
+      'Account',
+      'Reconciliation Summary',
+      'Unmatched Bank Transactions',
+      'Unmatched Book Transactions'
+    ]);
+    expect(layout.anchors.every(anchor => anchor.level === 2)).toBe(true);
+  });
+  
+  test('drawReconciliation continues long listings on new pages', () => {
+    const doc = new jsPDF({ unit: 'mm', format: 'A4' });
+    const textSpy = jest.spyOn(doc, 'text');
+    const bank = Array.from({ length: 80 }, (_, i) => transaction(`b${i}`, `Deposit ${i}`, 10 + i));
+    
+    drawReconciliation(createLayout(doc), reconciliation(bank, []), 'Bank Reconciliation');
+    
+    const drawn = textSpy.mock.calls.map(call => call[0]);
+    
+    expect(doc.getNumberOfPages()).toBeGreaterThan(1);
+    expect(drawn).toContain('Bank Reconciliation - Unmatched Bank Transactions (continued)');
+    expect(drawn).toContain('80 transactions');
+  });
+  
+  test('drawReconciliation places values past the longest label, wrapping them in narrow columns', () => {
+    const draw = (rightMargin: number) => {
+      const doc = new jsPDF({ unit: 'mm', format: 'A4' });
+      const layout = createLayout(doc);
+      layout.margins.right = rightMargin;
+      const textSpy = jest.spyOn(doc, 'text');
+      
+      drawReconciliation(layout, reconciliation([transaction('b1', 'Wire', 123456789.5)], []), 'Bank Reconciliation');
+      doc.setFontSize(10);
+      
+      const calls = textSpy.mock.calls as unknown as [string, number, number][];
+      return { doc, calls, position: (text: string) => calls.find(call => call[0] === text) as [string, number, number] };
+    };
+    
+    const wide = draw(15);
+    const [, labelX] = wide.position('Unmatched bank amount');
+    const [, valueX] = wide.position('0.00%');
+    expect(valueX).toBeGreaterThan(labelX + wide.doc.getTextWidth('Unmatched bank amount'));
+    
+    const narrow = draw(160);
+    const [, narrowValueX] = narrow.position('0.00%');
+    const wrapped = narrow.calls.filter(call => call[1] === narrowValueX && '$123,456,789.50'.includes(call[0].trim()));
+    expect(wrapped.length).toBeGreaterThan(1);
+  });
+});
@@ -0,0 +1,41 @@
+import { exportReportToPdf } from '../../src/exporters/pdf';
+import { getEncryptionOptions } from '../../src/exporters/pdf-security';
+
+describe('PDF security', () => {
+  const report = {
+    title: 'Month End',
+    sections: [{ title: 'Quarterly Summary', type: 'text' as const, content: { text: 'Revenue grew' } }]
+  };
+  
+  test('getEncryptionOptions only protects documents with passwords or restrictions', () => {
+    expect(getEncryptionOptions()).toBeUndefined();
+    expect(getEncryptionOptions({ permissions: { print: true } })).toBeUndefined();
+    expect(getEncryptionOptions({ userPassword: 'secret', ownerPassword: 'owner' })).toEqual({
+      userPassword: 'secret',
+      ownerPassword: 'owner',
+      userPermissions: ['print', 'modify', 'annot-forms', 'copy']
+    });
+  });
+  
+  test('getEncryptionOptions generates a random owner password for restricted documents', () => {
+    const first = getEncryptionOptions({ permissions: { copy: false } });
+    const second = getEncryptionOptions({ permissions: { copy: false } });
+    
+    expect(first?.userPermissions).toEqual(['print', 'modify', 'annot-forms']);
+    expect(first?.ownerPassword).toMatch(/^[0-9a-f]{32}$/);
+    expect(first?.ownerPassword).not.toBe(second?.ownerPassword);
+  });
+  
+  test('protected exports encrypt content and outline titles', async () => {
+    const plain = await (await exportReportToPdf(report, { compress: false })).text();
+    const encrypted = await (await exportReportToPdf(report, {
+      compress: false,
+      security: { userPassword: 'secret', permissions: { copy: false } }
+    })).text();
+    
+    expect(plain).toContain('/Title (Quarterly Summary)');
+    expect(encrypted).toContain('/Encrypt');
+    expect(encrypted).not.toContain('Quarterly Summary');
+    expect(encrypted).not.toContain('Revenue grew');
+  });
+});
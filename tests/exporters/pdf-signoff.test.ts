@@ -0,0 +1,53 @@
+import { jsPDF } from 'jspdf';
+import { createLayout } from '../../src/exporters/pdf-layout';
+import { getQualitySettings } from '../../src/exporters/pdf-images';
+import { drawSignoff } from '../../src/exporters/pdf-signoff';
+
+describe('PDF sign-off block', () => {
+  const signature = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAIAAAABCAYAAAD0In+KAAAAEUlEQVR4nGP4z8DwHwyBNAMAQvgH+bwa8hYAAAAASUVORK5CYII=';
+  
+  test('drawSignoff places up to three signatories per row with their signatures', async () => {
+    const doc = new jsPDF({ unit: 'mm', format: 'A4' });
+    const layout = createLayout(doc);
+    const addImage = jest.spyOn(doc, 'addImage');
+    const start = layout.y;
+    
+    await drawSignoff(layout, {
+      signatories: [
+        { role: 'Prepared by', name: 'Jane Doe', signature },
+        { role: 'Reviewed by', name: 'John Smith' },
+        { role: 'Approved by', name: 'Alex Brown' },
+        { role: 'Audit committee', name: 'Sam Green' }
+      ]
+    }, getQualitySettings());
+    
+    expect(addImage).toHaveBeenCalledTimes(1);
+    expect(layout.y - start).toBeGreaterThan(60);
+  });
+  
+  test('drawSignoff rejects signatures that cannot be decoded', async () => {
+    const layout = createLayout(new jsPDF({ unit: 'mm', format: 'A4' }));
+    
+    await expect(drawSignoff(layout, {
+      signatories: [{ role: 'Prepared by', name: 'Jane Doe', signature: 'not an image' }]
+    }, getQualitySettings())).rejects.toThrow('Could not add signature of Jane Doe to PDF');
+  });
+  
+  test('drawSignoff leaves a blank line for signatures it cannot load when onError is skip', async () => {
+    const doc = new jsPDF({ unit: 'mm', format: 'A4' });
+    const layout = createLayout(doc);
+    const addImage = jest.spyOn(doc, 'addImage');
+    const svg = '<svg xmlns="http://www.w3.org/2000/svg" width="10" height="5"></svg>';
+    const signatories = [
+      { role: 'Prepared by', name: 'Jane Doe', signature: svg },
+      { role: 'Reviewed by', name: 'John Smith', signature }
+    ];
+    
+    await expect(drawSignoff(createLayout(new jsPDF({ unit: 'mm', format: 'A4' })), { signatories }, getQualitySettings()))
+      .rejects.toThrow('Could not add signature of Jane Doe to PDF');
+    
+    await drawSignoff(layout, { signatories, onError: 'skip' }, getQualitySettings());
+    
+    expect(addImage).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,53 @@
+import { jsPDF } from 'jspdf';
+import { createLayout } from '../../src/exporters/pdf-layout';
+import { drawTable, truncateText } from '../../src/exporters/pdf-table';
+
+describe('PDF tables', () => {
+  test('drawTable repeats the header row on every page and draws the summary once', () => {
+    const doc = new jsPDF({ unit: 'mm', format: 'A4' });
+    const layout = createLayout(doc);
+    const textSpy = jest.spyOn(doc, 'text');
+    
+    drawTable(layout, {
+      headers: ['Account', 'Amount'],
+      rows: Array.from({ length: 200 }, (_, i) => [`Account ${i}`, i * 10]),
+      summary: ['Total', 199000]
+    }, 'Ledger');
+    
+    const drawn = textSpy.mock.calls.map(call => call[0]);
+    const pageCount = doc.getNumberOfPages();
+    
+    expect(pageCount).toBeGreaterThan(1);
+    expect(drawn.filter(text => text === 'Account')).toHaveLength(pageCount);
+    expect(drawn.filter(text => text === 'Ledger (continued)')).toHaveLength(pageCount - 1);
+    expect(drawn.filter(text => text === 'Total')).toHaveLength(1);
+  });
+  
+  test('drawTable right-aligns numeric columns but not alphanumeric labels', () => {
+    const doc = new jsPDF({ unit: 'mm', format: 'A4' });
+    const textSpy = jest.spyOn(doc, 'text');
+    
+    drawTable(createLayout(doc), {
+      headers: ['Period', 'Cell', 'Revenue', 'Costs'],
+      rows: [['Q1', 'A1', '$1,200.50', '1.200,00 €'], ['FY2024', 'B12', '(450.00)', '1 200 kr']]
+    });
+    
+    const alignOf = (text: string) => textSpy.mock.calls.find(call => call[0] === text)?.[3];
+    
+    expect(alignOf('Q1')).toMatchObject({ align: 'left' });
+    expect(alignOf('FY2024')).toMatchObject({ align: 'left' });
+    expect(alignOf('A1')).toMatchObject({ align: 'left' });
+    expect(alignOf('$1,200.50')).toMatchObject({ align: 'right' });
+    expect(alignOf('1.200,00 €')).toMatchObject({ align: 'right' });
+    expect(alignOf('1 200 kr')).toMatchObject({ align: 'right' });
+  });
+  
+  test('truncateText shortens text with an ellipsis', () => {
+    const doc = new jsPDF({ unit: 'mm' });
+    const truncated = truncateText(doc, 'A very long account description', 20);
+    
+    expect(truncated.endsWith('…')).toBe(true);
+    expect(doc.getTextWidth(truncated)).toBeLessThanOrEqual(20);
+    expect(truncateText(doc, 'Short', 20)).toBe('Short');
+  });
+});
@@ -0,0 +1,21 @@
+import { jsPDF } from 'jspdf';
+import { createLayout, getContentWidth } from '../../src/exporters/pdf-layout';
+import { drawTextContent } from '../../src/exporters/pdf-text';
+
+describe('PDF text', () => {
+  test('drawTextContent breaks a word wider than the page by character', () => {
+    const doc = new jsPDF({ unit: 'mm', format: 'A4' });
+    const layout = createLayout(doc);
+    const textSpy = jest.spyOn(doc, 'text');
+    const reference = 'REF' + '0123456789ABCDEFGHIJ'.repeat(15);
+    
+    drawTextContent(layout, { text: `Payment reference: ${reference}` });
+    
+    const calls = textSpy.mock.calls as unknown as [string, number, number][];
+    const right = layout.margins.left + getContentWidth(layout);
+    
+    expect(calls.length).toBeGreaterThan(2);
+    expect(calls.map(call => call[0]).join('').replace(/\s/g, '')).toBe(`Paymentreference:${reference}`);
+    calls.forEach(([text, x]) => expect(x + doc.getTextWidth(text)).toBeLessThanOrEqual(right + 0.01));
+  });
+});
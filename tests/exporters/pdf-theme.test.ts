@@ -0,0 +1,51 @@
+import { applyChartPalette, resolvePdfTheme } from '../../src/exporters/pdf-theme';
+import { createBarChart, createPieChart, createWaterfallChart } from '../../src/charts';
+
+describe('PDF themes', () => {
+  test('resolvePdfTheme keeps the neutral look by default', () => {
+    const theme = resolvePdfTheme();
+    
+    expect(theme.fontFamily).toBe('helvetica');
+    expect(theme.table.headerBackgroundColor).toEqual({ r: 230, g: 230, b: 230, a: 1 });
+    expect(theme.backgroundColor).toBeNull();
+  });
+  
+  test('resolvePdfTheme resolves built-in themes and custom fonts', () => {
+    expect(resolvePdfTheme('corporate').table.headerTextColor).toEqual({ r: 255, g: 255, b: 255, a: 1 });
+    expect(resolvePdfTheme({ fontFamily: 'Times New Roman' }).fontFamily).toBe('times');
+    expect(() => resolvePdfTheme('unknown' as any)).toThrow('Unknown theme: unknown');
+  });
+  
+  test('resolvePdfTheme converts the font size to points and derives code and badge colors', () => {
+    const dark = resolvePdfTheme({
+      fontSize: 16,
+      backgroundColor: '#121212',
+      tableStyles: { rowAltBackgroundColor: '#2a2a2a' }
+    });
+    
+    expect(resolvePdfTheme().fontSize).toBe(11);
+    expect(dark.fontSize).toBe(12);
+    expect(dark.codeBackgroundColor).toEqual({ r: 42, g: 42, b: 42, a: 1 });
+    expect(dark.statusTextColor).toEqual({ r: 18, g: 18, b: 18, a: 1 });
+    expect(resolvePdfTheme().statusTextColor).toEqual({ r: 255, g: 255, b: 255, a: 1 });
+  });
+  
+  test('applyChartPalette replaces default colors and keeps custom ones', () => {
+    const chart = createBarChart(['A', 'B'], [[1, 2], [3, 4]]);
+    chart.data.datasets[1].backgroundColor = '#123456';
+    
+    const themed = applyChartPalette(chart, ['#ff0000', '#00ff00']);
+    
+    expect(themed.data.datasets[0].backgroundColor).toBe('rgba(255, 0, 0, 0.6)');
+    expect(themed.data.datasets[1].backgroundColor).toBe('#123456');
+  });
+  
+  test('applyChartPalette themes the default colors of every chart builder', () => {
+    const palette = ['#ff0000', '#00ff00', '#0000ff', '#111111', '#222222', '#333333', '#444444', '#555555'];
+    const pie = applyChartPalette(createPieChart(['A', 'B'], [1, 2]), palette);
+    const waterfall = applyChartPalette(createWaterfallChart(['Revenue', 'Costs'], [10, -4]), palette);
+    
+    expect(pie.data.datasets[0].backgroundColor).toEqual(['rgba(255, 0, 0, 0.6)', 'rgba(0, 255, 0, 0.6)']);
+    expect(waterfall.data.datasets[0].backgroundColor).toEqual(['rgba(85, 85, 85, 0.6)', 'rgba(34, 34, 34, 0.6)']);
+  });
+});
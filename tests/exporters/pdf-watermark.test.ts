@@ -0,0 +1,38 @@
+import { jsPDF } from 'jspdf';
+import { drawWatermark, resolveWatermark } from '../../src/exporters/pdf-watermark';
+import { ReportConfig } from '../../src/types/report';
+
+describe('PDF watermarks', () => {
+  const report: ReportConfig = {
+    title: 'Management Accounts',
+    status: 'draft',
+    sections: []
+  };
+  
+  test('resolveWatermark stamps reports by status unless overridden', () => {
+    expect(resolveWatermark(report)?.text).toBe('DRAFT');
+    expect(resolveWatermark({ ...report, status: 'final' })).toBeNull();
+    expect(resolveWatermark(report, 'unaudited')?.text).toBe('UNAUDITED');
+    expect(resolveWatermark(report, { text: 'COPY' })?.text).toBe('COPY');
+    expect(resolveWatermark(report, false)).toBeNull();
+  });
+  
+  test('drawWatermark only marks pages in the range', () => {
+    const doc = new jsPDF({ unit: 'mm', format: 'A4' });
+    doc.addPage();
+    doc.addPage();
+    const text = jest.spyOn(doc, 'text');
+    
+    drawWatermark(doc, { text: 'COPY', pages: { from: 2 } });
+    
+    expect(text).toHaveBeenCalledTimes(2);
+  });
+  
+  test('drawWatermark rejects an unreadable image unless told to skip it', () => {
+    const doc = new jsPDF({ unit: 'mm', format: 'A4' });
+    const image = 'data:image/png;base64,bm90IGFuIGltYWdl';
+    
+    expect(() => drawWatermark(doc, { image })).toThrow(/Could not add watermark image to PDF/);
+    expect(() => drawWatermark(doc, { image, onError: 'skip' })).not.toThrow();
+  });
+});
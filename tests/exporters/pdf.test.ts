@@ -0,0 +1,78 @@
+import { exportReportToPdf } from '../../src/exporters/pdf';
+import { ReportSection } from '../../src/types/report';
+
+describe('PDF export', () => {
+  const textSection = (title: string, text: string): ReportSection => ({ title, type: 'text', content: { text } });
+  
+  // Strings drawn with Tj, in content stream order; needs an uncompressed document
+  const getDrawnText = async (blob: Blob): Promise<string[]> =>
+    ((await blob.text()).match(/\((?:[^()\\]|\\.)*\) Tj/g) || []).map(operation => operation.slice(1, -4));
+  
+  test('the table of contents lists titled sections on their pages, skipping untitled ones', async () => {
+    const blob = await exportReportToPdf({
+      title: 'Month End',
+      sections: [
+        textSection('Summary', 'First'),
+        textSection('', 'Untitled notes'),
+        { ...textSection('Cash Flow', 'Last'), page: { orientation: 'landscape' } }
+      ]
+    }, { compress: false, tableOfContents: true });
+    
+    const drawn = await getDrawnText(blob);
+    const contents = drawn.indexOf('Contents');
+    
+    expect(drawn.slice(contents + 1, contents + 5)).toEqual(['Summary', '2', 'Cash Flow', '3']);
+  });
+  
+  test('a first section with its own page format starts right after the cover', async () => {
+    const blob = await exportReportToPdf({
+      title: 'Month End',
+      cover: { enabled: true },
+      sections: [{ ...textSection('Cash Flow', 'Wide'), page: { orientation: 'landscape' } }]
+    }, { compress: false });
+    
+    const output = await blob.text();
+    const pages = output.match(/\/Type \/Page\b/g) || [];
+    const mediaBoxes = output.match(/\/MediaBox \[[^\]]*\]/g) || [];
+    
+    expect(pages).toHaveLength(2);
+    expect(mediaBoxes[1]).toMatch(/\[0 0 841\.\d+ 595\.\d+\]/);
+  });
+  
+  test('document properties default to the report title, subtitle and company', async () => {
+    const report = {
+      title: 'Month End',
+      subtitle: 'January 2024',
+      company: { name: 'Acme Ltd' },
+      sections: [textSection('Summary', 'First')]
+    };
+    
+    const defaults = await (await exportReportToPdf(report, { compress: false })).text();
+    const custom = await (await exportReportToPdf(report, {
+      compress: false,
+      documentProperties: { title: 'Board Pack', keywords: 'finance, close', creator: 'Ledger App' }
+    })).text();
+    
+    expect(defaults).toContain('/Title (Month End)');
+    expect(defaults).toContain('/Subject (January 2024)');
+    expect(defaults).toContain('/Author (Acme Ltd)');
+    expect(defaults).toContain('/Creator (financial-pdf)');
+    expect(custom).toContain('/Title (Board Pack)');
+    expect(custom).toContain('/Keywords (finance, close)');
+    expect(custom).toContain('/Creator (Ledger App)');
+    expect(custom).toContain('/Author (Acme Ltd)');
+  });
+  
+  test('SVG logos reject server-side exports unless onError is skip', async () => {
+    const report = {
+      title: 'Month End',
+      company: { name: 'Acme Ltd', logo: '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 120 40"></svg>' },
+      sections: [textSection('Summary', 'First')]
+    };
+    
+    await expect(exportReportToPdf(report)).rejects.toThrow(/Could not add logo to PDF: SVG images need a DOM canvas/);
+    
+    const blob = await exportReportToPdf(report, { compress: false, logo: { onError: 'skip' } });
+    expect(await getDrawnText(blob)).toContain('Acme Ltd');
+  });
+});
@@ -0,0 +1,45 @@
+import { parseHtml, parseMarkdown, parseMarkdownInline } from '../../src/exporters/rich-text';
+
+describe('Rich text parsing', () => {
+  test('parseMarkdownInline handles bold, italic, code and links', () => {
+    expect(parseMarkdownInline('Revenue **up** by *5%* in `EMEA`, see [notes](https://example.com)')).toEqual([
+      { text: 'Revenue ' },
+      { text: 'up', bold: true },
+      { text: ' by ' },
+      { text: '5%', italic: true },
+      { text: ' in ' },
+      { text: 'EMEA', code: true },
+      { text: ', see ' },
+      { text: 'notes', link: 'https://example.com' }
+    ]);
+  });
+  
+  test('parseMarkdown produces headings, lists, tables and rules', () => {
+    const blocks = parseMarkdown('# Title\n\nFirst line\nsecond line\n\n- One\n- Two\n\n1. A\n\n---\n\n| Region | Total |\n|---|---:|\n| EMEA | 10 |');
+    
+    expect(blocks.map(block => block.type)).toEqual(['heading', 'paragraph', 'list', 'list', 'rule', 'table']);
+    expect(blocks[1]).toEqual({ type: 'paragraph', spans: [{ text: 'First line second line' }] });
+    expect(blocks[2]).toMatchObject({ ordered: false, items: [[{ text: 'One' }], [{ text: 'Two' }]] });
+    expect(blocks[5]).toEqual({ type: 'table', headers: ['Region', 'Total'], rows: [['EMEA', '10']] });
+  });
+  
+  test('parseHtml maps tags to the same block model', () => {
+    const blocks = parseHtml('<h2>Notes</h2><p>Cash &amp; <strong>equivalents</strong></p><ol><li>First</li></ol><hr><table><tr><th>A</th></tr><tr><td>1</td></tr></table>');
+    
+    expect(blocks).toEqual([
+      { type: 'heading', level: 2, spans: [{ text: 'Notes' }] },
+      { type: 'paragraph', spans: [{ text: 'Cash & ' }, { text: 'equivalents', bold: true }] },
+      { type: 'list', ordered: true, items: [[{ text: 'First' }]] },
+      { type: 'rule' },
+      { type: 'table', headers: ['A'], rows: [['1']] }
+    ]);
+  });
+  
+  test('parseHtml decodes character references and replaces invalid ones', () => {
+    const blocks = parseHtml('<p>&#8364;5 &#x2014; &#99999999; &#xFFFFFFF; &#12ab; &#;</p>');
+    
+    expect(blocks).toEqual([
+      { type: 'paragraph', spans: [{ text: '€5 — \ufffd \ufffd \ufffd &#;' }] }
+    ]);
+  });
+});
@@ -0,0 +1,16 @@
+import { bytesToBase64, bytesToBinaryString } from '../../src/utils/binary';
+
+describe('Binary utilities', () => {
+  test('bytesToBinaryString keeps one character per byte across chunks', () => {
+    const bytes = Uint8Array.from({ length: 70000 }, (_, i) => i % 256);
+    const binary = bytesToBinaryString(bytes);
+    
+    expect(binary).toHaveLength(70000);
+    expect(binary.charCodeAt(69999)).toBe(69999 % 256);
+  });
+  
+  test('bytesToBase64 encodes bytes', () => {
+    expect(bytesToBase64(new TextEncoder().encode('Ledger'))).toBe('TGVkZ2Vy');
+    expect(bytesToBase64(new Uint8Array([0, 255]))).toBe('AP8=');
+  });
+});
@@ -0,0 +1,27 @@
+import { formatDate } from '../../src/utils/date';
+
+describe('Date utilities', () => {
+  const date = new Date(2024, 2, 5, 9, 7, 3);
+  
+  test('formatDate replaces format tokens', () => {
+    expect(formatDate(date)).toBe('2024-03-05');
+    expect(formatDate(date, 'D MMM YY')).toBe('5 Mar 24');
+    expect(formatDate(date, 'MMMM YYYY')).toBe('March 2024');
+    expect(formatDate(date, 'M/D HH:mm:ss')).toBe('3/5 09:07:03');
+  });
+  
+  test('formatDate keeps bracketed text and supports quarters', () => {
+    expect(formatDate(date, '[Q]Q YYYY')).toBe('Q1 2024');
+    expect(formatDate(date, '[Week of] MMM D')).toBe('Week of Mar 5');
+  });
+  
+  test('formatDate returns values other than dates as strings', () => {
+    expect(formatDate('2024-03-05')).toBe('2024-03-05');
+    expect(formatDate(1709596800000)).toBe('1709596800000');
+  });
+  
+  test('formatDate returns a fallback for invalid dates', () => {
+    expect(formatDate(new Date('not a date'), 'D MMMM YYYY')).toBe('Invalid Date');
+    expect(formatDate(new Date(NaN), 'MMM YY')).toBe('Invalid Date');
+  });
+});